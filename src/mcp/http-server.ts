@@ -10,22 +10,39 @@ import {
   McpError,
   ErrorCode
 } from '@modelcontextprotocol/sdk/types.js';
-import { OpenAPIParser } from '../utils/openapi-parser.js';
+import { OpenAPIParser, ParseOptions, SOURCE_FORMAT_LABELS } from '../utils/openapi-parser.js';
+import { LoadedSpec, SpecWorkspace, toSpecName } from '../utils/spec-workspace.js';
+import { SpecCache, hashSpec } from '../utils/spec-cache.js';
+import { MIN_REFRESH_INTERVAL_SECONDS, SpecReloadEvent, SpecReloader, formatSpecReloadEvent } from '../utils/spec-reloader.js';
 import { generateAnalytics } from '../utils/analytics.js';
-import { EndpointData, OpenAPISpec } from '../types/openapi.js';
+import { formatExtensionValue, getExtensions, matchesExtensionFilter, parseExtensionFilter } from '../utils/extensions.js';
+import { SearchHit } from '../utils/search-index.js';
+import { SearchQuery, describeSearchQuery, executeSearchQuery, parseSearchQuery } from '../utils/search-query.js';
+import { MAX_PAGE_SIZE, Page, arrangeEndpoints, groupKey, paginate } from '../utils/search-results.js';
+import { exportSpec } from '../utils/spec-export.js';
+import { diffEndpoints, diffSchemas, summarizeEndpointChanges, summarizeSchemaChanges } from '../utils/endpoint-diff.js';
+import { EndpointData, GroupingState, OpenAPISpec } from '../types/openapi.js';
+import { getSchemaTypes } from '../utils/schema-utils.js';
+import { describeLocation } from '../utils/source-map.js';
+
+// Every tool except load_openapi_spec can target any spec in the workspace
+const SPEC_ARGUMENT = {
+  type: 'string',
+  description: 'Name of the loaded spec to use (see list_specs); defaults to the active spec',
+};
 
 export class OpenAPIExplorerHTTPServer {
   private app: express.Application;
   private server: Server;
-  private parser: OpenAPIParser;
-  private currentSpec: OpenAPISpec | null = null;
-  private currentEndpoints: EndpointData[] = [];
+  private workspace = new SpecWorkspace();
+  private cache = new SpecCache();
+  private reloader = new SpecReloader(this.workspace, (event, loaded) => this.handleSpecReload(event, loaded));
+  private streamClients = new Set<express.Response>();
   private port: number;
 
   constructor(port: number = 3001) {
     this.port = port;
     this.app = express();
-    this.parser = new OpenAPIParser();
     
     this.server = new Server(
       {
@@ -60,11 +77,14 @@ export class OpenAPIExplorerHTTPServer {
   private setupRoutes() {
     // Health check
     this.app.get('/health', (req, res) => {
+      const active = this.workspace.getActive();
       res.json({ 
         status: 'healthy', 
         timestamp: new Date().toISOString(),
-        hasSpec: !!this.currentSpec,
-        endpoints: this.currentEndpoints.length
+        hasSpec: !!active,
+        activeSpec: active?.name ?? null,
+        specs: this.workspace.list().length,
+        endpoints: active?.endpoints.length ?? 0
       });
     });
 
@@ -112,42 +132,80 @@ export class OpenAPIExplorerHTTPServer {
         })}\n\n`);
       }, 30000);
 
+      // Spec reload events are broadcast to every open stream
+      this.streamClients.add(res);
+
       req.on('close', () => {
         clearInterval(keepAlive);
+        this.streamClients.delete(res);
+      });
+    });
+
+    // Loaded specifications
+    this.app.get('/api/specs', (req, res) => {
+      const active = this.workspace.getActiveName();
+      res.json({
+        active,
+        specs: this.workspace.list().map(loaded => ({
+          name: loaded.name,
+          title: loaded.spec.info.title,
+          version: loaded.spec.info.version,
+          endpoints: loaded.endpoints.length,
+          active: loaded.name === active,
+          loadedAt: loaded.loadedAt.toISOString()
+        }))
       });
     });
 
-    // API information endpoint
+    // API information endpoint (?spec=<name> selects a spec other than the active one)
     this.app.get('/api/info', (req, res) => {
-      if (!this.currentSpec) {
+      const specName = req.query.spec as string | undefined;
+      if (specName && !this.workspace.has(specName)) {
+        return res.status(404).json({ error: `Unknown spec: ${specName}` });
+      }
+
+      const { spec: currentSpec, endpoints: currentEndpoints } = this.workspace.context(specName);
+      if (!currentSpec) {
         return res.status(404).json({ error: 'No OpenAPI specification loaded' });
       }
 
       res.json({
-        title: this.currentSpec.info.title,
-        version: this.currentSpec.info.version,
-        description: this.currentSpec.info.description,
-        endpoints: this.currentEndpoints.length,
-        analytics: generateAnalytics(this.currentEndpoints)
+        title: currentSpec.info.title,
+        version: currentSpec.info.version,
+        description: currentSpec.info.description,
+        endpoints: currentEndpoints.length,
+        analytics: generateAnalytics(currentEndpoints)
       });
     });
 
     // Direct endpoint search
     this.app.get('/api/endpoints', (req, res) => {
-      if (!this.currentEndpoints.length) {
+      const specName = req.query.spec as string | undefined;
+      if (specName && !this.workspace.has(specName)) {
+        return res.status(404).json({ error: `Unknown spec: ${specName}` });
+      }
+
+      const { endpoints: currentEndpoints } = this.workspace.context(specName);
+      if (!currentEndpoints.length) {
         return res.status(404).json({ error: 'No endpoints available' });
       }
 
-      const { query, method, tag, limit = 50 } = req.query;
-      let filtered = [...this.currentEndpoints];
+      const { query, method, tag, limit, pageSize, offset, cursor, groupBy = 'none', sortBy, sortOrder } = req.query;
+      let filtered = [...currentEndpoints];
 
+      const scores = new Map<EndpointData, number>();
       if (query) {
-        const searchTerm = (query as string).toLowerCase();
-        filtered = filtered.filter(ep => 
-          ep.path.toLowerCase().includes(searchTerm) ||
-          ep.summary?.toLowerCase().includes(searchTerm) ||
-          ep.description?.toLowerCase().includes(searchTerm)
-        );
+        let parsedQuery: SearchQuery | null;
+        try {
+          parsedQuery = parseSearchQuery(query as string);
+        } catch (error) {
+          return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid query' });
+        }
+        if (parsedQuery) {
+          const result = executeSearchQuery(parsedQuery, filtered, this.workspace.searchIndex(specName));
+          filtered = result.endpoints;
+          result.hits.forEach((hit, endpoint) => scores.set(endpoint, hit.score));
+        }
       }
 
       if (method) {
@@ -158,19 +216,51 @@ export class OpenAPIExplorerHTTPServer {
         filtered = filtered.filter(ep => ep.tags.includes(tag as string));
       }
 
-      const limitNum = parseInt(limit as string);
-      const results = filtered.slice(0, limitNum);
+      const grouping = { groupBy, sortBy, sortOrder } as Partial<GroupingState>;
+      if (!['none', 'tag', 'method', 'path', 'complexity', 'security'].includes(grouping.groupBy!)) {
+        return res.status(400).json({ error: 'groupBy must be one of none, tag, method, path, complexity, security' });
+      }
+      if (sortBy !== undefined && !['path', 'method', 'summary', 'complexity', 'responseTime'].includes(grouping.sortBy!)) {
+        return res.status(400).json({ error: 'sortBy must be one of path, method, summary, complexity, responseTime' });
+      }
+      if (sortOrder !== undefined && !['asc', 'desc'].includes(grouping.sortOrder!)) {
+        return res.status(400).json({ error: 'sortOrder must be asc or desc' });
+      }
+
+      let page: Page<EndpointData>;
+      try {
+        page = paginate(
+          arrangeEndpoints(filtered, grouping),
+          {
+            // The older `limit` parameter is capped rather than rejected, so
+            // existing callers get a cursor for the rest instead of an error
+            pageSize: pageSize !== undefined ? Number(pageSize)
+              : limit !== undefined ? Math.min(Number(limit), MAX_PAGE_SIZE)
+              : 50,
+            offset: offset !== undefined ? Number(offset) : undefined,
+            cursor: cursor as string | undefined,
+          },
+          endpoint => endpoint.id
+        );
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid page' });
+      }
 
       res.json({
-        total: filtered.length,
-        limit: limitNum,
-        results: results.map(ep => ({
+        total: page.total,
+        offset: page.offset,
+        pageSize: page.pageSize,
+        limit: page.pageSize,
+        nextCursor: page.nextCursor,
+        results: page.items.map(ep => ({
           method: ep.method,
           path: ep.path,
           summary: ep.summary,
           tags: ep.tags,
           complexity: ep.complexity,
-          deprecated: ep.deprecated
+          deprecated: ep.deprecated,
+          ...(groupBy !== 'none' ? { group: groupKey(ep, grouping.groupBy!) } : {}),
+          ...(scores.has(ep) ? { score: scores.get(ep) } : {})
         }))
       });
     });
@@ -266,30 +356,155 @@ export class OpenAPIExplorerHTTPServer {
         tools: [
           {
             name: 'load_openapi_spec',
-            description: 'Load and parse an OpenAPI specification from text, URL, or file content',
+            description: 'Load and parse an OpenAPI specification (or a Postman v2.1 collection, converted to OpenAPI) from text, URL, or file content',
             inputSchema: {
               type: 'object',
               properties: {
                 source: {
                   type: 'string',
-                  description: 'The source of the OpenAPI spec (text content, URL, or file content)',
+                  description: 'The source of the OpenAPI spec (text content, URL, or local file/directory path)',
                 },
                 sourceType: {
                   type: 'string',
-                  enum: ['text', 'url'],
-                  description: 'Type of source: text (JSON/YAML content) or url',
+                  enum: ['text', 'url', 'file'],
+                  description: 'Type of source: text (JSON/YAML content), url, or file (local file or directory path inside OPENAPI_SPEC_ROOTS; relative $refs to other files are bundled)',
                   default: 'text',
                 },
+                strict: {
+                  type: 'boolean',
+                  description: 'Reject the document if it fails validation against the official OpenAPI schema for its version (default: load it and report the problems)',
+                  default: false,
+                },
+                name: {
+                  type: 'string',
+                  description: 'Name to register the spec under in the workspace (default: derived from the API title). Loading under an existing name replaces that spec',
+                },
+                refreshInterval: {
+                  type: 'number',
+                  description: 'For url sources: re-fetch the spec every N seconds (minimum 5), using ETag/Last-Modified to skip unchanged documents, and report endpoint and schema changes',
+                },
+                timeout: {
+                  type: 'number',
+                  description: 'Seconds allowed per fetched document (cannot exceed OPENAPI_SPEC_FETCH_TIMEOUT, default 30)',
+                },
+                maxSize: {
+                  type: 'number',
+                  description: 'Largest fetched document accepted, in bytes (cannot exceed OPENAPI_SPEC_MAX_SIZE, default 10 MB)',
+                },
+                maxRedirects: {
+                  type: 'number',
+                  description: 'Redirects followed per fetched document (cannot exceed OPENAPI_SPEC_MAX_REDIRECTS, default 5)',
+                },
               },
               required: ['source'],
             },
           },
+          {
+            name: 'infer_spec_from_har',
+            description: 'Infer an OpenAPI specification from a HAR capture of browser or proxy traffic and load it as a new spec: URLs are clustered into templated paths, request/response schemas are merged from the observed JSON bodies, and observed status codes and headers are recorded',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                source: {
+                  type: 'string',
+                  description: 'The HAR capture: a file path inside OPENAPI_SPEC_ROOTS, a URL, or the HAR JSON itself',
+                },
+                sourceType: {
+                  type: 'string',
+                  enum: ['text', 'url', 'file'],
+                  description: 'Type of source',
+                  default: 'file',
+                },
+                title: {
+                  type: 'string',
+                  description: 'Title for the inferred API (default: derived from the captured host)',
+                },
+                hosts: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only use requests to these hosts (default: every captured API request)',
+                },
+                name: {
+                  type: 'string',
+                  description: 'Name to register the spec under in the workspace (default: derived from the title)',
+                },
+              },
+              required: ['source'],
+            },
+          },
+          {
+            name: 'apply_overlay',
+            description: 'Apply an OpenAPI Overlay document to a loaded spec: each action selects nodes with a JSONPath target and updates (merges into) or removes them. Reports the actions that matched nothing; the overlay is applied again whenever the spec is reloaded',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                source: {
+                  type: 'string',
+                  description: 'The overlay: a file path inside OPENAPI_SPEC_ROOTS, a URL, or the overlay JSON/YAML itself',
+                },
+                sourceType: {
+                  type: 'string',
+                  enum: ['text', 'url', 'file'],
+                  description: 'Type of source',
+                  default: 'file',
+                },
+                spec: SPEC_ARGUMENT,
+              },
+              required: ['source'],
+            },
+          },
+          {
+            name: 'list_specs',
+            description: 'List the specifications loaded in this session and which one is active',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'select_spec',
+            description: 'Make a loaded specification the active one used by tools that are not given a spec name',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name of the loaded spec (see list_specs)',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'unload_spec',
+            description: 'Remove a loaded specification from the session',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name of the loaded spec (see list_specs)',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'clear_spec_cache',
+            description: 'Delete the on-disk cache of loaded specs so nothing is restored on the next start. Specs loaded in this session stay available',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
           {
             name: 'get_api_overview',
             description: 'Get a comprehensive overview of the loaded API including basic info, statistics, and analytics',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                spec: SPEC_ARGUMENT,
+              },
             },
           },
           {
@@ -298,9 +513,10 @@ export class OpenAPIExplorerHTTPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 query: {
                   type: 'string',
-                  description: 'Search query for endpoint paths, summaries, or descriptions',
+                  description: 'Search query. Bare words are a full-text search over operationIds, paths, summaries, descriptions, tags, parameter names and request/response schema properties, ranked by relevance. Field terms filter precisely: method:POST, tag:billing, status:409 (or 4xx), scope:write:invoices (scheme or scope; auth:none for public), param:idempotencyKey, path:/v2/** (* within a segment, ** across), complexity:high, time:slow, kind:webhook, ext:x-internal=true, is:deprecated, has:params, has:body. Comma-separate values for any of them (method:GET,HEAD). Terms are ANDed; use OR, NOT or a leading -, and parentheses, e.g. (tag:orders OR tag:billing) -deprecated refund',
                 },
                 methods: {
                   type: 'array',
@@ -329,6 +545,46 @@ export class OpenAPIExplorerHTTPServer {
                   type: 'boolean',
                   description: 'Filter endpoints that require a request body',
                 },
+                kinds: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['operation', 'callback', 'webhook'] },
+                  description: 'Filter by endpoint kind: regular path operations, callbacks, or webhooks',
+                },
+                extensions: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Filter by vendor extensions; every filter must match. Forms: x-internal (present), !x-internal (absent), x-internal=true, x-owner!=payments, x-ratelimit.limit=100',
+                },
+                pageSize: {
+                  type: 'integer',
+                  minimum: 1,
+                  maximum: MAX_PAGE_SIZE,
+                  description: 'Endpoints per page (default: 20)',
+                },
+                offset: {
+                  type: 'integer',
+                  minimum: 0,
+                  description: 'Number of matching endpoints to skip',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'The cursor a previous page returned, to get the page after it. Fails if the results have changed since.',
+                },
+                groupBy: {
+                  type: 'string',
+                  enum: ['none', 'tag', 'method', 'path', 'complexity', 'security'],
+                  description: 'List results under headings: first tag, method, first path segment, complexity or security schemes',
+                },
+                sortBy: {
+                  type: 'string',
+                  enum: ['path', 'method', 'summary', 'complexity', 'responseTime'],
+                  description: 'Order results (within each group) by this field instead of by relevance or spec order',
+                },
+                sortOrder: {
+                  type: 'string',
+                  enum: ['asc', 'desc'],
+                  description: 'Direction of sortBy (default: asc)',
+                },
               },
             },
           },
@@ -338,13 +594,14 @@ export class OpenAPIExplorerHTTPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 method: {
                   type: 'string',
                   description: 'HTTP method (GET, POST, etc.)',
                 },
                 path: {
                   type: 'string',
-                  description: 'Endpoint path',
+                  description: 'Endpoint path (or webhook name / callback expression)',
                 },
               },
               required: ['method', 'path'],
@@ -356,13 +613,14 @@ export class OpenAPIExplorerHTTPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 method: {
                   type: 'string',
                   description: 'HTTP method',
                 },
                 path: {
                   type: 'string',
-                  description: 'Endpoint path',
+                  description: 'Endpoint path (or webhook name / callback expression)',
                 },
                 language: {
                   type: 'string',
@@ -380,6 +638,7 @@ export class OpenAPIExplorerHTTPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 includeDistributions: {
                   type: 'boolean',
                   description: 'Include method, tag, and complexity distributions',
@@ -394,6 +653,7 @@ export class OpenAPIExplorerHTTPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 focus: {
                   type: 'string',
                   enum: ['security', 'performance', 'design', 'documentation', 'all'],
@@ -409,6 +669,7 @@ export class OpenAPIExplorerHTTPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 format: {
                   type: 'string',
                   enum: ['markdown', 'json', 'summary'],
@@ -428,6 +689,38 @@ export class OpenAPIExplorerHTTPServer {
               },
             },
           },
+          {
+            name: 'export_spec',
+            description: 'Export the loaded specification itself (after any conversion or overlays) as YAML or JSON, either bundled into one document with internal $refs kept or fully dereferenced, optionally converted to Swagger 2.0, OpenAPI 3.0 or OpenAPI 3.1',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                spec: SPEC_ARGUMENT,
+                format: {
+                  type: 'string',
+                  enum: ['yaml', 'json'],
+                  description: 'Output format',
+                  default: 'yaml',
+                },
+                mode: {
+                  type: 'string',
+                  enum: ['bundled', 'dereferenced'],
+                  description: 'bundled keeps internal $refs; dereferenced inlines them, keeping only circular $refs and the components they need',
+                  default: 'bundled',
+                },
+                rejectCircular: {
+                  type: 'boolean',
+                  description: 'With mode dereferenced, fail if the spec has circular references instead of keeping them as $refs',
+                  default: false,
+                },
+                version: {
+                  type: 'string',
+                  enum: ['2.0', '3.0', '3.1'],
+                  description: 'Convert to this version; anything that cannot be converted exactly is reported (default: the loaded version)',
+                },
+              },
+            },
+          },
         ] satisfies Tool[],
       };
     });
@@ -444,20 +737,45 @@ export class OpenAPIExplorerHTTPServer {
       tools: [
         {
           name: 'load_openapi_spec',
-          description: 'Load and parse an OpenAPI specification from text, URL, or file content',
+          description: 'Load and parse an OpenAPI specification (or a Postman v2.1 collection, converted to OpenAPI) from text, URL, or file content',
           inputSchema: {
             type: 'object',
             properties: {
               source: {
                 type: 'string',
-                description: 'The source of the OpenAPI spec (text content, URL, or file content)',
+                description: 'The source of the OpenAPI spec (text content, URL, or local file/directory path)',
               },
               sourceType: {
                 type: 'string',
-                enum: ['text', 'url'],
-                description: 'Type of source: text (JSON/YAML content) or url',
+                enum: ['text', 'url', 'file'],
+                description: 'Type of source: text (JSON/YAML content), url, or file (local file or directory path inside OPENAPI_SPEC_ROOTS; relative $refs to other files are bundled)',
                 default: 'text',
               },
+              strict: {
+                type: 'boolean',
+                description: 'Reject the document if it fails validation against the official OpenAPI schema for its version (default: load it and report the problems)',
+                default: false,
+              },
+              name: {
+                type: 'string',
+                description: 'Name to register the spec under in the workspace (default: derived from the API title). Loading under an existing name replaces that spec',
+              },
+              refreshInterval: {
+                type: 'number',
+                description: 'For url sources: re-fetch the spec every N seconds (minimum 5), using ETag/Last-Modified to skip unchanged documents, and report endpoint and schema changes',
+              },
+              timeout: {
+                type: 'number',
+                description: 'Seconds allowed per fetched document (cannot exceed OPENAPI_SPEC_FETCH_TIMEOUT, default 30)',
+              },
+              maxSize: {
+                type: 'number',
+                description: 'Largest fetched document accepted, in bytes (cannot exceed OPENAPI_SPEC_MAX_SIZE, default 10 MB)',
+              },
+              maxRedirects: {
+                type: 'number',
+                description: 'Redirects followed per fetched document (cannot exceed OPENAPI_SPEC_MAX_REDIRECTS, default 5)',
+              },
             },
             required: ['source'],
           },
@@ -472,8 +790,20 @@ export class OpenAPIExplorerHTTPServer {
       switch (name) {
         case 'load_openapi_spec':
           return await this.loadOpenAPISpec(args);
+        case 'infer_spec_from_har':
+          return await this.inferSpecFromHar(args);
+        case 'apply_overlay':
+          return await this.applyOverlay(args);
+        case 'list_specs':
+          return await this.listSpecs();
+        case 'select_spec':
+          return await this.selectSpec(args);
+        case 'unload_spec':
+          return await this.unloadSpec(args);
+        case 'clear_spec_cache':
+          return await this.clearSpecCache();
         case 'get_api_overview':
-          return await this.getAPIOverview();
+          return await this.getAPIOverview(args);
         case 'search_endpoints':
           return await this.searchEndpoints(args);
         case 'get_endpoint_details':
@@ -486,6 +816,8 @@ export class OpenAPIExplorerHTTPServer {
           return await this.validateAPIDesign(args);
         case 'export_documentation':
           return await this.exportDocumentation(args);
+        case 'export_spec':
+          return await this.exportSpecDocument(args);
         default:
           throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
       }
@@ -519,22 +851,56 @@ export class OpenAPIExplorerHTTPServer {
   }
 
   // Tool implementation methods (same as stdio server)
-  private async loadOpenAPISpec(args: any) {
-    const { source, sourceType = 'text' } = args;
+  private async loadOpenAPISpec(args: any, parseOptions: ParseOptions = {}) {
+    const { source, sourceType = 'text', strict = false, refreshInterval, timeout, maxSize, maxRedirects } = args;
 
     try {
+      if (refreshInterval !== undefined) {
+        if (sourceType !== 'url') {
+          throw new Error('refreshInterval only applies to specs loaded from a URL');
+        }
+        if (typeof refreshInterval !== 'number' || refreshInterval < MIN_REFRESH_INTERVAL_SECONDS) {
+          throw new Error(`refreshInterval must be at least ${MIN_REFRESH_INTERVAL_SECONDS} seconds`);
+        }
+      }
+      const options: ParseOptions = { strict, fetch: { timeout, maxSize, maxRedirects }, ...parseOptions };
+
+      // Each spec keeps its own parser so the others stay queryable
+      const parser = new OpenAPIParser();
       let spec: OpenAPISpec;
       
       if (sourceType === 'url') {
-        spec = await this.parser.parseFromUrl(source);
+        spec = await parser.parseFromUrl(source, options);
+      } else if (sourceType === 'file') {
+        spec = await parser.parseFromFile(source, options);
       } else {
-        spec = await this.parser.parseFromText(source);
+        spec = await parser.parseFromText(source, options);
       }
 
-      this.currentSpec = spec;
-      this.currentEndpoints = this.parser.extractEndpoints();
+      const name = args.name || toSpecName(spec.info.title);
+      const replaced = this.workspace.has(name);
+      const endpoints = parser.extractEndpoints();
+      const loaded: LoadedSpec = {
+        name,
+        hash: hashSpec(spec),
+        spec,
+        endpoints,
+        parser,
+        source: sourceType === 'text' ? '' : source,
+        sourceType,
+        loadedAt: new Date(),
+        refreshInterval,
+      };
+      this.workspace.add(loaded);
+      this.reloader.watch(loaded);
+      await this.persistWorkspace(loaded);
 
-      const analytics = generateAnalytics(this.currentEndpoints);
+      const analytics = generateAnalytics(endpoints);
+      const sources = parser.getSources();
+      const conversionWarnings = parser.getConversionWarnings();
+      const sourceFormat = parser.getSourceFormat();
+      const validationErrors = parser.getValidationErrors();
+      const otherSpecs = this.workspace.list().filter(loaded => loaded.name !== name).map(loaded => loaded.name);
 
       return {
         content: [
@@ -542,18 +908,30 @@ export class OpenAPIExplorerHTTPServer {
             type: 'text',
             text: `✅ Successfully loaded OpenAPI specification!
 
+**Workspace:**
+- Spec Name: ${name}${replaced ? ' (replaced the previously loaded version)' : ''}
+- Active: Yes${otherSpecs.length > 0 ? `\n- Other Loaded Specs: ${otherSpecs.join(', ')}` : ''}
+
 **API Information:**
 - Title: ${spec.info.title}
 - Version: ${spec.info.version}
 - Description: ${spec.info.description || 'No description provided'}
 - OpenAPI Version: ${spec.openapi}
-
+${sourceFormat === 'postman' || sourceFormat === 'har' ? `- Imported From: ${SOURCE_FORMAT_LABELS[sourceFormat]}\n` : ''}${sources.length > 1 ? `- Bundled From: ${sources.length} files\n` : ''}${this.reloader.isWatching(name) ? '- Watching source files for changes\n' : ''}${this.reloader.isPolling(name) ? `- Re-fetching every ${refreshInterval} seconds\n` : ''}
 **Statistics:**
-- Total Endpoints: ${this.currentEndpoints.length}
+- Total Endpoints: ${endpoints.length}
 - HTTP Methods: ${Object.keys(analytics.methodDistribution).join(', ')}
 - Tags: ${Object.keys(analytics.tagDistribution).length}
 - Deprecated Endpoints: ${analytics.deprecatedCount}
-
+${conversionWarnings.length > 0 ? `
+**${SOURCE_FORMAT_LABELS[sourceFormat]} Conversion Warnings (${conversionWarnings.length}):**
+${conversionWarnings.slice(0, 10).map(warning => `- \`${warning.pointer}\`: ${warning.message}`).join('\n')}${conversionWarnings.length > 10 ? `\n- ...and ${conversionWarnings.length - 10} more` : ''}
+` : ''}${validationErrors.length > 0 ? `
+**Schema Validation Errors (${validationErrors.length}):**
+${validationErrors.slice(0, 10).map(error => `- \`${error.pointer}\`: ${error.message}`).join('\n')}${validationErrors.length > 10 ? `\n- ...and ${validationErrors.length - 10} more` : ''}
+
+The document was loaded anyway; pass \`strict: true\` to reject invalid specifications.
+` : ''}
 The API specification has been loaded and is ready for exploration. You can now use other tools to search endpoints, get analytics, generate code examples, and more!`,
           },
         ],
@@ -566,27 +944,220 @@ The API specification has been loaded and is ready for exploration. You can now
     }
   }
 
-  private async getAPIOverview() {
-    if (!this.currentSpec || !this.currentEndpoints.length) {
+  // The cache only saves re-loading after a restart, so failing to update it
+  // never fails the tool call
+  private async persistWorkspace(loaded?: LoadedSpec) {
+    try {
+      if (loaded) {
+        await this.cache.saveSpec(loaded);
+      }
+      await this.cache.saveWorkspace(this.workspace);
+    } catch {
+      // Silent error handling
+    }
+  }
+
+  private async restoreWorkspace() {
+    try {
+      await this.cache.restoreWorkspace(this.workspace);
+    } catch {
+      // Start with an empty workspace
+    }
+
+    // Pick up edits made to file-sourced specs while the server was down
+    for (const loaded of this.workspace.list()) {
+      this.reloader.watch(loaded);
+      if (loaded.sourceType === 'file') {
+        await this.reloader.reload(loaded.name);
+      }
+    }
+  }
+
+  // Called when a watched spec file or polled URL changes: refresh the cache
+  // and tell connected clients which endpoints and schemas changed
+  private async handleSpecReload(event: SpecReloadEvent, loaded?: LoadedSpec) {
+    if (loaded) {
+      await this.persistWorkspace(loaded);
+    }
+
+    const message = `data: ${JSON.stringify({
+      type: event.error ? 'spec_reload_failed' : 'spec_reloaded',
+      message: formatSpecReloadEvent(event),
+      ...event
+    })}\n\n`;
+    this.streamClients.forEach(client => client.write(message));
+  }
+
+  private async clearSpecCache() {
+    if (!this.cache.enabled) {
+      return {
+        content: [{ type: 'text', text: 'The spec cache is disabled (OPENAPI_SPEC_CACHE_DIR=off).' }],
+      };
+    }
+
+    const removed = await this.cache.clear();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🧹 Cleared the spec cache at ${this.cache.location} (${removed} cached spec${removed === 1 ? '' : 's'} removed).
+
+${this.workspace.list().length > 0 ? 'Specs loaded in this session remain available, and are cached again when the workspace next changes.' : 'No specs will be restored on the next start.'}`,
+        },
+      ],
+    };
+  }
+
+  // A HAR capture loads like any other source; the parser infers the spec from its requests
+  private async inferSpecFromHar(args: any) {
+    const { source, sourceType = 'file', title, hosts, name } = args;
+    return this.loadOpenAPISpec({ source, sourceType, name }, { har: { title, hosts } });
+  }
+
+  // The overlay is applied to a copy, so a spec is only replaced once every
+  // action has run; endpoints are re-extracted from the result
+  private async applyOverlay(args: any) {
+    const { source, sourceType = 'file' } = args;
+    const name = args.spec || this.workspace.getActiveName();
+    if (!name) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No OpenAPI specification loaded. Please load a spec first.');
+    }
+
+    if (!this.workspace.has(name)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Unknown spec: ${name}. Use list_specs to see the loaded specs.`);
+    }
+
+    const previous = this.workspace.get(name);
+    const actions = await previous.parser.applyOverlay(source, sourceType);
+    const spec = previous.parser.getSpec()!;
+    const endpoints = previous.parser.extractEndpoints();
+    this.workspace.replace({ ...previous, spec, endpoints, hash: hashSpec(spec) });
+    await this.persistWorkspace(this.workspace.get(name));
+
+    const unmatched = actions.filter(action => action.matched === 0 && !action.error);
+    const failed = actions.filter(action => action.error);
+    const endpointChanges = diffEndpoints(previous.spec, previous.endpoints, spec, endpoints);
+    const schemaChanges = diffSchemas(previous.spec, spec);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Applied overlay to **${name}** (${actions.length} action${actions.length === 1 ? '' : 's'}, ${endpoints.length} endpoints now).
+
+**Actions:**
+${actions.map(action => `${action.index + 1}. \`${action.target}\`${action.description ? ` - ${action.description}` : ''}: ${action.error ? `❌ ${action.error}` : `${action.matched} node${action.matched === 1 ? '' : 's'} matched`}`).join('\n')}
+${unmatched.length > 0 ? `
+**Actions That Matched Nothing (${unmatched.length}):**
+${unmatched.map(action => `- \`${action.target}\``).join('\n')}
+` : ''}${failed.length > 0 ? `
+**Actions That Could Not Be Applied (${failed.length}):**
+${failed.map(action => `- \`${action.target}\`: ${action.error}`).join('\n')}
+` : ''}
+**Changes:**
+\`\`\`
+${summarizeEndpointChanges(endpointChanges)}
+${summarizeSchemaChanges(schemaChanges)}
+\`\`\``,
+        },
+      ],
+    };
+  }
+
+  private async listSpecs() {
+    const specs = this.workspace.list();
+    if (specs.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No specifications loaded. Use load_openapi_spec to add one.' }],
+      };
+    }
+
+    const active = this.workspace.getActiveName();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# Loaded Specifications (${specs.length})
+
+${specs.map(loaded => `## ${loaded.name}${loaded.name === active ? ' (active)' : ''}
+- **Title:** ${loaded.spec.info.title}
+- **Version:** ${loaded.spec.info.version}
+- **OpenAPI Version:** ${loaded.spec.openapi}
+- **Endpoints:** ${loaded.endpoints.length}
+- **Source:** ${loaded.sourceType === 'text' ? 'inline text' : loaded.source}${this.reloader.isWatching(loaded.name) ? ' (watching for changes)' : ''}${this.reloader.isPolling(loaded.name) ? ` (re-fetched every ${loaded.refreshInterval}s)` : ''}
+- **Loaded At:** ${loaded.loadedAt.toISOString()}`).join('\n\n')}
+
+Pass \`spec\` with one of these names to any tool to query a spec other than the active one.`,
+        },
+      ],
+    };
+  }
+
+  private async selectSpec(args: any) {
+    const { name } = args;
+    if (!this.workspace.has(name)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Unknown spec: ${name}. Use list_specs to see the loaded specs.`);
+    }
+    const loaded = this.workspace.select(name);
+    await this.persistWorkspace();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Active spec is now **${loaded.name}** (${loaded.spec.info.title} ${loaded.spec.info.version}, ${loaded.endpoints.length} endpoints).`,
+        },
+      ],
+    };
+  }
+
+  private async unloadSpec(args: any) {
+    const { name } = args;
+    if (!this.workspace.has(name)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Unknown spec: ${name}. Use list_specs to see the loaded specs.`);
+    }
+    const removed = this.workspace.remove(name);
+    this.reloader.unwatch(name);
+    await this.persistWorkspace();
+    const active = this.workspace.getActive();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🗑️ Unloaded **${removed.name}** (${removed.spec.info.title}).
+
+${active ? `Active spec is now **${active.name}**.` : 'No specifications are loaded.'}`,
+        },
+      ],
+    };
+  }
+
+  private async getAPIOverview(args: any = {}) {
+    const { spec: currentSpec, endpoints: currentEndpoints, parser } = this.workspace.context(args.spec);
+
+    if (!currentSpec || !currentEndpoints.length) {
       throw new McpError(
         ErrorCode.InvalidRequest,
         'No OpenAPI specification loaded. Please load a spec first using load_openapi_spec.'
       );
     }
 
-    const analytics = generateAnalytics(this.currentEndpoints);
-    const tags = this.parser.getAllTags();
+    const analytics = generateAnalytics(currentEndpoints);
+    const tags = parser.getAllTags();
 
     return {
       content: [
         {
           type: 'text',
-          text: `# ${this.currentSpec.info.title} - API Overview
+          text: `# ${currentSpec.info.title} - API Overview
 
 ## Basic Information
-- **Version:** ${this.currentSpec.info.version}
-- **OpenAPI Version:** ${this.currentSpec.openapi}
-- **Description:** ${this.currentSpec.info.description || 'No description provided'}
+- **Version:** ${currentSpec.info.version}
+- **OpenAPI Version:** ${currentSpec.openapi}
+- **Description:** ${currentSpec.info.description || 'No description provided'}
 
 ## Statistics
 - **Total Endpoints:** ${analytics.totalEndpoints}
@@ -605,14 +1176,20 @@ ${tags.length > 0 ? tags.map(tag => `- ${tag}`).join('\n') : 'No tags defined'}
 ## Complexity Distribution
 ${Object.entries(analytics.complexityDistribution)
   .map(([complexity, count]) => `- **${complexity.charAt(0).toUpperCase() + complexity.slice(1)}:** ${count} endpoints`)
-  .join('\n')}`,
+  .join('\n')}
+${analytics.kindDistribution.callback || analytics.kindDistribution.webhook ? `
+## Event-Driven Endpoints
+- **Callbacks:** ${analytics.kindDistribution.callback || 0}
+- **Webhooks:** ${analytics.kindDistribution.webhook || 0}` : ''}`,
         },
       ],
     };
   }
 
   private async searchEndpoints(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new McpError(ErrorCode.InvalidRequest, 'No OpenAPI specification loaded. Please load a spec first.');
     }
 
@@ -624,19 +1201,21 @@ ${Object.entries(analytics.complexityDistribution)
       deprecated,
       hasParameters,
       hasRequestBody,
+      kinds,
+      extensions,
+      groupBy,
+      sortBy,
+      sortOrder,
     } = args;
 
-    let filteredEndpoints = [...this.currentEndpoints];
+    let filteredEndpoints = [...currentEndpoints];
+    let hits = new Map<EndpointData, SearchHit>();
 
     // Apply filters (same logic as stdio server)
-    if (query) {
-      const searchTerm = query.toLowerCase();
-      filteredEndpoints = filteredEndpoints.filter(endpoint =>
-        endpoint.path.toLowerCase().includes(searchTerm) ||
-        endpoint.summary?.toLowerCase().includes(searchTerm) ||
-        endpoint.description?.toLowerCase().includes(searchTerm) ||
-        endpoint.tags.some(tag => tag.toLowerCase().includes(searchTerm))
-      );
+    // A query's free text ranks matches by relevance; the other filters keep that order
+    const parsedQuery: SearchQuery | null = query ? parseSearchQuery(query) : null;
+    if (parsedQuery) {
+      ({ endpoints: filteredEndpoints, hits } = executeSearchQuery(parsedQuery, filteredEndpoints, this.workspace.searchIndex(args.spec)));
     }
 
     if (methods && methods.length > 0) {
@@ -675,38 +1254,69 @@ ${Object.entries(analytics.complexityDistribution)
       );
     }
 
-    const results = filteredEndpoints.slice(0, 20);
+    if (kinds && kinds.length > 0) {
+      filteredEndpoints = filteredEndpoints.filter(endpoint =>
+        kinds.includes(endpoint.kind)
+      );
+    }
+
+    if (extensions && extensions.length > 0) {
+      const filters = extensions.map((expression: string) => parseExtensionFilter(expression));
+      filteredEndpoints = filteredEndpoints.filter(endpoint =>
+        filters.every((filter: any) => matchesExtensionFilter(endpoint, filter))
+      );
+    }
+
+    const grouped = !!groupBy && groupBy !== 'none';
+    const page = paginate(
+      arrangeEndpoints(filteredEndpoints, { groupBy, sortBy, sortOrder }),
+      { offset: args.offset, cursor: args.cursor, pageSize: args.pageSize },
+      endpoint => endpoint.id
+    );
+    const groupHeading = (endpoint: EndpointData, index: number) => {
+      const group = groupKey(endpoint, groupBy);
+      return index === 0 || groupKey(page.items[index - 1], groupBy) !== group ? `\n## ${groupBy}: ${group}\n` : '';
+    };
 
     return {
       content: [
         {
           type: 'text',
           text: `# Search Results
+${parsedQuery ? `\n**Query:** \`${describeSearchQuery(parsedQuery)}\`\n` : ''}
+Found **${page.total}** endpoints matching your criteria${page.items.length < page.total ? ` (showing ${page.items.length > 0 ? `${page.offset + 1}-${page.offset + page.items.length}` : `none after ${page.offset}`})` : ''}:
 
-Found **${filteredEndpoints.length}** endpoints matching your criteria${filteredEndpoints.length > 20 ? ' (showing first 20)' : ''}:
-
-${results.map(endpoint => `
-## ${endpoint.method} ${endpoint.path}
-- **Summary:** ${endpoint.summary || 'No summary'}
+${page.items.map((endpoint, index) => `${grouped ? groupHeading(endpoint, index) : ''}
+${grouped ? '###' : '##'} ${endpoint.method} ${endpoint.path}
+${endpoint.kind !== 'operation' ? `- **Kind:** ${this.describeEndpointKind(endpoint, currentEndpoints)}\n` : ''}- **Summary:** ${endpoint.summary || 'No summary'}
 - **Tags:** ${endpoint.tags.join(', ') || 'None'}
 - **Complexity:** ${endpoint.complexity || 'Unknown'}
 - **Parameters:** ${endpoint.parameters.length}
 - **Deprecated:** ${endpoint.deprecated ? 'Yes' : 'No'}
 - **Has Request Body:** ${endpoint.requestBody ? 'Yes' : 'No'}
-${endpoint.description ? `- **Description:** ${endpoint.description}` : ''}
-`).join('\n')}`,
+${Object.keys(endpoint.extensions || {}).length > 0 ? `- **Extensions:** ${this.formatExtensions(endpoint.extensions)}\n` : ''}${hits.has(endpoint) ? this.formatSearchHit(hits.get(endpoint)!) : ''}${endpoint.description ? `- **Description:** ${endpoint.description}` : ''}
+`).join('\n')}${page.nextCursor ? `
+---
+**More results:** call again with \`cursor: "${page.nextCursor}"\` (or \`offset: ${page.nextOffset}\`) for the next ${Math.min(page.pageSize, page.total - page.nextOffset!)}.` : ''}`,
         },
       ],
     };
   }
 
+  private formatSearchHit(hit: SearchHit): string {
+    const matches = hit.matches.map(match => `  - ${match.field}: ${match.snippet}`).join('\n');
+    return `- **Relevance:** ${hit.score.toFixed(2)}\n${matches ? `- **Matches:**\n${matches}\n` : ''}`;
+  }
+
   private async getEndpointDetails(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new McpError(ErrorCode.InvalidRequest, 'No OpenAPI specification loaded. Please load a spec first.');
     }
 
     const { method, path } = args;
-    const endpoint = this.currentEndpoints.find(
+    const endpoint = currentEndpoints.find(
       ep => ep.method.toLowerCase() === method.toLowerCase() && ep.path === path
     );
 
@@ -714,6 +1324,8 @@ ${endpoint.description ? `- **Description:** ${endpoint.description}` : ''}
       throw new McpError(ErrorCode.InvalidRequest, `Endpoint ${method} ${path} not found.`);
     }
 
+    const callbacks = currentEndpoints.filter(ep => ep.kind === 'callback' && ep.parentId === endpoint.id);
+
     return {
       content: [
         {
@@ -721,28 +1333,35 @@ ${endpoint.description ? `- **Description:** ${endpoint.description}` : ''}
           text: `# ${endpoint.method} ${endpoint.path}
 
 ## Overview
+- **Kind:** ${this.describeEndpointKind(endpoint, currentEndpoints)}
 - **Summary:** ${endpoint.summary || 'No summary provided'}
 - **Description:** ${endpoint.description || 'No description provided'}
 - **Tags:** ${endpoint.tags.join(', ') || 'None'}
 - **Deprecated:** ${endpoint.deprecated ? '⚠️ Yes' : '✅ No'}
 - **Complexity:** ${endpoint.complexity || 'Unknown'}
-
+${Object.keys(endpoint.extensions || {}).length > 0 ? `
+## Vendor Extensions
+${Object.entries(endpoint.extensions).map(([name, value]) => `- **${name}:** ${formatExtensionValue(value)}`).join('\n')}
+` : ''}
 ## Parameters (${endpoint.parameters.length})
 ${endpoint.parameters.length > 0 ? 
   endpoint.parameters.map(param => `
 ### ${param.name} (${param.in})
-- **Type:** ${(param.schema && 'type' in param.schema) ? param.schema.type : 'Unknown'}
+- **Type:** ${param.schema ? ('$ref' in param.schema ? param.schema.$ref.split('/').pop() : getSchemaTypes(param.schema).join(' | ') || 'Unknown') : 'Unknown'}
 - **Required:** ${param.required ? 'Yes' : 'No'}
 - **Description:** ${param.description || 'No description'}
-`).join('\n') : 'No parameters'}
+${Object.keys(getExtensions(param)).length > 0 ? `- **Extensions:** ${this.formatExtensions(getExtensions(param))}\n` : ''}`).join('\n') : 'No parameters'}
 
 ## Request Body
 ${endpoint.requestBody ? 'This endpoint accepts a request body' : 'No request body required'}
-
+${callbacks.length > 0 ? `
+## Callbacks (${callbacks.length})
+${callbacks.map(callback => `- **${callback.callbackName}:** ${callback.method} ${callback.path}${callback.summary ? ` - ${callback.summary}` : ''}`).join('\n')}
+` : ''}
 ## Responses
 ${Object.entries(endpoint.responses).map(([code, response]) => `
 ### ${code}
-${response.description}
+${response.description || 'No description'}
 `).join('\n')}`,
         },
       ],
@@ -750,12 +1369,14 @@ ${response.description}
   }
 
   private async generateCodeExamples(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new McpError(ErrorCode.InvalidRequest, 'No OpenAPI specification loaded. Please load a spec first.');
     }
 
     const { method, path, language = 'curl' } = args;
-    const endpoint = this.currentEndpoints.find(
+    const endpoint = currentEndpoints.find(
       ep => ep.method.toLowerCase() === method.toLowerCase() && ep.path === path
     );
 
@@ -804,12 +1425,14 @@ ${example}
   }
 
   private async getAPIAnalytics(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new McpError(ErrorCode.InvalidRequest, 'No OpenAPI specification loaded. Please load a spec first.');
     }
 
     const { includeDistributions = true } = args;
-    const analytics = generateAnalytics(this.currentEndpoints);
+    const analytics = generateAnalytics(currentEndpoints);
 
     let result = `# API Analytics
 
@@ -836,7 +1459,16 @@ ${Object.entries(analytics.methodDistribution)
 ## Complexity Distribution
 ${Object.entries(analytics.complexityDistribution)
   .map(([complexity, count]) => `- **${complexity.charAt(0).toUpperCase() + complexity.slice(1)}:** ${count} endpoints (${(((count as number) / analytics.totalEndpoints) * 100).toFixed(1)}%)`)
-  .join('\n')}`;
+  .join('\n')}${Object.keys(analytics.extensionUsage).length > 0 ? `
+
+## Vendor Extensions
+${Object.entries(analytics.extensionUsage)
+  .sort(([,a], [,b]) => b - a)
+  .map(([name, count]) => {
+    const values = Object.entries(analytics.extensionValues[name] || {}).sort(([,a], [,b]) => b - a);
+    return `- **${name}:** ${count} endpoints${values.length > 0 ? ` (${values.slice(0, 5).map(([value, n]) => `${value}: ${n}`).join(', ')}${values.length > 5 ? `, ${values.length - 5} more values` : ''})` : ''}`;
+  })
+  .join('\n')}` : ''}`;
     }
 
     return {
@@ -850,13 +1482,16 @@ ${Object.entries(analytics.complexityDistribution)
   }
 
   private async validateAPIDesign(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints, parser } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new McpError(ErrorCode.InvalidRequest, 'No OpenAPI specification loaded. Please load a spec first.');
     }
 
     const { focus = 'all' } = args;
-    const analytics = generateAnalytics(this.currentEndpoints);
+    const analytics = generateAnalytics(currentEndpoints);
     const recommendations: string[] = [];
+    const findings: { title: string; endpoints: EndpointData[] }[] = [];
 
     // Security validation
     if (focus === 'security' || focus === 'all') {
@@ -867,9 +1502,10 @@ ${Object.entries(analytics.complexityDistribution)
 
     // Documentation validation
     if (focus === 'documentation' || focus === 'all') {
-      const undocumentedEndpoints = this.currentEndpoints.filter(ep => !ep.summary && !ep.description);
+      const undocumentedEndpoints = currentEndpoints.filter(ep => !ep.summary && !ep.description);
       if (undocumentedEndpoints.length > 0) {
         recommendations.push(`📝 **Documentation:** ${undocumentedEndpoints.length} endpoints lack summaries or descriptions.`);
+        findings.push({ title: 'Endpoints without a summary or description', endpoints: undocumentedEndpoints });
       }
     }
 
@@ -888,18 +1524,38 @@ ${Object.entries(analytics.complexityDistribution)
 ## Recommendations
 
 ${recommendations.map(rec => rec).join('\n\n')}
+${findings.length > 0 ? `
+## Findings
 
+${this.formatEndpointFindings(findings, parser)}
+` : ''}
 ## Summary Statistics
 - **Total Endpoints:** ${analytics.totalEndpoints}
-- **Security Coverage:** ${((this.currentEndpoints.filter(ep => ep.security && ep.security.length > 0).length / analytics.totalEndpoints) * 100).toFixed(1)}%
-- **Documentation Coverage:** ${((this.currentEndpoints.filter(ep => ep.summary || ep.description).length / analytics.totalEndpoints) * 100).toFixed(1)}%`,
+- **Security Coverage:** ${((currentEndpoints.filter(ep => ep.security && ep.security.length > 0).length / analytics.totalEndpoints) * 100).toFixed(1)}%
+- **Documentation Coverage:** ${((currentEndpoints.filter(ep => ep.summary || ep.description).length / analytics.totalEndpoints) * 100).toFixed(1)}%`,
         },
       ],
     };
   }
 
+  // List the endpoints behind a validation finding with their source positions
+  private formatEndpointFindings(findings: { title: string; endpoints: EndpointData[] }[], parser: OpenAPIParser): string {
+    const limit = 10;
+    return findings.map(({ title, endpoints }) => {
+      const lines = endpoints.slice(0, limit).map(ep =>
+        `- ${ep.method} ${ep.path} — ${describeLocation(ep.pointer, parser.locate(ep.pointer))}`
+      );
+      if (endpoints.length > limit) {
+        lines.push(`- ...and ${endpoints.length - limit} more`);
+      }
+      return `### ${title} (${endpoints.length})\n${lines.join('\n')}`;
+    }).join('\n\n');
+  }
+
   private async exportDocumentation(args: any) {
-    if (!this.currentSpec || !this.currentEndpoints.length) {
+    const { spec: currentSpec, endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentSpec || !currentEndpoints.length) {
       throw new McpError(ErrorCode.InvalidRequest, 'No OpenAPI specification loaded. Please load a spec first.');
     }
 
@@ -910,32 +1566,36 @@ ${recommendations.map(rec => rec).join('\n\n')}
         content: [
           {
             type: 'text',
-            text: `# ${this.currentSpec.info.title} - API Summary
+            text: `# ${currentSpec.info.title} - API Summary
 
-**Version:** ${this.currentSpec.info.version}
-**Total Endpoints:** ${this.currentEndpoints.length}
+**Version:** ${currentSpec.info.version}
+**Total Endpoints:** ${currentEndpoints.length}
 
 ## All Endpoints
-${this.currentEndpoints.map(ep => `- ${ep.method} ${ep.path}${ep.summary ? ` - ${ep.summary}` : ''}`).join('\n')}`,
+${currentEndpoints.map(ep => `- ${ep.kind !== 'operation' ? `[${ep.kind}] ` : ''}${ep.method} ${ep.path}${ep.summary ? ` - ${ep.summary}` : ''}`).join('\n')}`,
           },
         ],
       };
     }
 
     // Default markdown format
-    let markdown = `# ${this.currentSpec.info.title}
+    let markdown = `# ${currentSpec.info.title}
 
-**Version:** ${this.currentSpec.info.version}
-**OpenAPI Version:** ${this.currentSpec.openapi}
+**Version:** ${currentSpec.info.version}
+**OpenAPI Version:** ${currentSpec.openapi}
 
-${this.currentSpec.info.description ? `## Description\n${this.currentSpec.info.description}\n` : ''}
+${currentSpec.info.description ? `## Description\n${currentSpec.info.description}\n` : ''}
 
-## Endpoints (${this.currentEndpoints.length})
+## Endpoints (${currentEndpoints.length})
 
 `;
 
-    for (const endpoint of this.currentEndpoints.slice(0, 10)) { // Limit for HTTP response
+    for (const endpoint of currentEndpoints.slice(0, 10)) { // Limit for HTTP response
       markdown += `### ${endpoint.method} ${endpoint.path}\n\n`;
+
+      if (endpoint.kind !== 'operation') {
+        markdown += `**Kind:** ${this.describeEndpointKind(endpoint, currentEndpoints)}\n\n`;
+      }
       
       if (endpoint.summary) {
         markdown += `**Summary:** ${endpoint.summary}\n\n`;
@@ -959,6 +1619,50 @@ ${this.currentSpec.info.description ? `## Description\n${this.currentSpec.info.d
   }
 
   // Code generation methods (same as stdio server)
+  private async exportSpecDocument(args: any) {
+    const { spec: currentSpec } = this.workspace.context(args.spec);
+
+    if (!currentSpec) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No OpenAPI specification loaded. Please load a spec first.');
+    }
+
+    const { format = 'yaml', mode = 'bundled', rejectCircular = false, version } = args;
+    const { content, circularRefs, warnings, versionLabel } = exportSpec(currentSpec, { format, mode, rejectCircular, version });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# ${currentSpec.info.title} ${currentSpec.info.version} (${versionLabel}, ${mode} ${format.toUpperCase()})
+${circularRefs.length > 0 ? `
+**Circular References Kept (${circularRefs.length}):** ${circularRefs.map(ref => `\`${ref}\``).join(', ')}
+` : ''}${warnings.length > 0 ? `
+**Lossy Conversions (${warnings.length}):**
+${warnings.map(warning => `- \`${warning.pointer}\`: ${warning.message}`).join('\n')}
+` : ''}
+\`\`\`${format}
+${content.trimEnd()}
+\`\`\``,
+        },
+      ],
+    };
+  }
+
+  private formatExtensions(extensions: { [name: string]: any }): string {
+    return Object.entries(extensions).map(([name, value]) => `${name}=${formatExtensionValue(value)}`).join(', ');
+  }
+
+  private describeEndpointKind(endpoint: EndpointData, endpoints: EndpointData[]): string {
+    if (endpoint.kind === 'webhook') {
+      return `Webhook \`${endpoint.webhookName}\``;
+    }
+    if (endpoint.kind === 'callback') {
+      const parent = endpoints.find(ep => ep.id === endpoint.parentId);
+      return `Callback \`${endpoint.callbackName}\` of ${parent ? `${parent.method} ${parent.path}` : endpoint.parentId}`;
+    }
+    return 'Operation';
+  }
+
   private generateCurlExample(endpoint: EndpointData): string {
     const method = endpoint.method.toLowerCase();
     let curl = `curl -X ${endpoint.method} "${endpoint.path}"`;
@@ -1033,7 +1737,8 @@ const data: ApiResponse = await response.json();
 console.log(data);`;
   }
 
-  public start() {
+  public async start() {
+    await this.restoreWorkspace();
     this.app.listen(this.port, () => {
       // Server started silently
     });
@@ -7,15 +7,46 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { OpenAPIParser } from '../utils/openapi-parser.js';
+import { OpenAPIParser, ParseOptions, SOURCE_FORMAT_LABELS } from '../utils/openapi-parser.js';
+import { LoadedSpec, SpecWorkspace, toSpecName } from '../utils/spec-workspace.js';
+import { SpecCache, hashSpec } from '../utils/spec-cache.js';
+import { MIN_REFRESH_INTERVAL_SECONDS, SpecReloadEvent, SpecReloader, formatSpecReloadEvent } from '../utils/spec-reloader.js';
 import { generateAnalytics } from '../utils/analytics.js';
+import { formatExtensionValue, getExtensions, matchesExtensionFilter, parseExtensionFilter } from '../utils/extensions.js';
+import { SearchHit } from '../utils/search-index.js';
+import { SearchQuery, describeSearchQuery, executeSearchQuery, parseSearchQuery } from '../utils/search-query.js';
+import { MAX_PAGE_SIZE, arrangeEndpoints, groupKey, paginate } from '../utils/search-results.js';
+import { exportSpec } from '../utils/spec-export.js';
+import { diffEndpoints, diffSchemas, summarizeEndpointChanges, summarizeSchemaChanges } from '../utils/endpoint-diff.js';
 import { EndpointData, OpenAPISpec } from '../types/openapi.js';
+import { joinPointer, resolvePointer } from '../utils/ref-resolver.js';
+import { describeLocation, formatLocation } from '../utils/source-map.js';
+import {
+  describeSchemaType,
+  getNumericBounds,
+  getPrimaryType,
+  getSchemaExample,
+  getSchemaTypes,
+  hasSchemaType,
+  isNullable,
+  isOpenAPI31,
+  jsonTypeOf,
+} from '../utils/schema-utils.js';
+import { inferSchema } from '../utils/schema-inference.js';
+import { PropertyLocation, searchEndpointProperties, searchSchemaProperties } from '../utils/property-search.js';
+import { findSchemaUsages } from '../utils/schema-usage.js';
+
+// Every tool except load_openapi_spec can target any spec in the workspace
+const SPEC_ARGUMENT = {
+  type: 'string',
+  description: 'Name of the loaded spec to use (see list_specs); defaults to the active spec',
+};
 
 export class OpenAPIExplorerMCPServer {
   private server: Server;
-  private parser: OpenAPIParser;
-  private currentSpec: OpenAPISpec | null = null;
-  private currentEndpoints: EndpointData[] = [];
+  private workspace = new SpecWorkspace();
+  private cache = new SpecCache();
+  private reloader = new SpecReloader(this.workspace, (event, loaded) => this.handleSpecReload(event, loaded));
 
   constructor() {
     this.server = new Server(
@@ -26,11 +57,11 @@ export class OpenAPIExplorerMCPServer {
       {
         capabilities: {
           tools: {},
+          logging: {},
         },
       }
     );
 
-    this.parser = new OpenAPIParser();
     this.setupToolHandlers();
   }
 
@@ -40,30 +71,155 @@ export class OpenAPIExplorerMCPServer {
         tools: [
           {
             name: 'load_openapi_spec',
-            description: 'Load and parse an OpenAPI specification from text, URL, or file content',
+            description: 'Load and parse an OpenAPI specification (or a Postman v2.1 collection, converted to OpenAPI) from text, URL, or file content',
             inputSchema: {
               type: 'object',
               properties: {
                 source: {
                   type: 'string',
-                  description: 'The source of the OpenAPI spec (text content, URL, or file content)',
+                  description: 'The source of the OpenAPI spec (text content, URL, or local file/directory path)',
                 },
                 sourceType: {
                   type: 'string',
-                  enum: ['text', 'url'],
-                  description: 'Type of source: text (JSON/YAML content) or url',
+                  enum: ['text', 'url', 'file'],
+                  description: 'Type of source: text (JSON/YAML content), url, or file (local file or directory path inside OPENAPI_SPEC_ROOTS; relative $refs to other files are bundled)',
                   default: 'text',
                 },
+                strict: {
+                  type: 'boolean',
+                  description: 'Reject the document if it fails validation against the official OpenAPI schema for its version (default: load it and report the problems)',
+                  default: false,
+                },
+                name: {
+                  type: 'string',
+                  description: 'Name to register the spec under in the workspace (default: derived from the API title). Loading under an existing name replaces that spec',
+                },
+                refreshInterval: {
+                  type: 'number',
+                  description: 'For url sources: re-fetch the spec every N seconds (minimum 5), using ETag/Last-Modified to skip unchanged documents, and report endpoint and schema changes',
+                },
+                timeout: {
+                  type: 'number',
+                  description: 'Seconds allowed per fetched document (cannot exceed OPENAPI_SPEC_FETCH_TIMEOUT, default 30)',
+                },
+                maxSize: {
+                  type: 'number',
+                  description: 'Largest fetched document accepted, in bytes (cannot exceed OPENAPI_SPEC_MAX_SIZE, default 10 MB)',
+                },
+                maxRedirects: {
+                  type: 'number',
+                  description: 'Redirects followed per fetched document (cannot exceed OPENAPI_SPEC_MAX_REDIRECTS, default 5)',
+                },
+              },
+              required: ['source'],
+            },
+          },
+          {
+            name: 'infer_spec_from_har',
+            description: 'Infer an OpenAPI specification from a HAR capture of browser or proxy traffic and load it as a new spec: URLs are clustered into templated paths, request/response schemas are merged from the observed JSON bodies, and observed status codes and headers are recorded',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                source: {
+                  type: 'string',
+                  description: 'The HAR capture: a file path inside OPENAPI_SPEC_ROOTS, a URL, or the HAR JSON itself',
+                },
+                sourceType: {
+                  type: 'string',
+                  enum: ['text', 'url', 'file'],
+                  description: 'Type of source',
+                  default: 'file',
+                },
+                title: {
+                  type: 'string',
+                  description: 'Title for the inferred API (default: derived from the captured host)',
+                },
+                hosts: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only use requests to these hosts (default: every captured API request)',
+                },
+                name: {
+                  type: 'string',
+                  description: 'Name to register the spec under in the workspace (default: derived from the title)',
+                },
               },
               required: ['source'],
             },
           },
+          {
+            name: 'apply_overlay',
+            description: 'Apply an OpenAPI Overlay document to a loaded spec: each action selects nodes with a JSONPath target and updates (merges into) or removes them. Reports the actions that matched nothing; the overlay is applied again whenever the spec is reloaded',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                source: {
+                  type: 'string',
+                  description: 'The overlay: a file path inside OPENAPI_SPEC_ROOTS, a URL, or the overlay JSON/YAML itself',
+                },
+                sourceType: {
+                  type: 'string',
+                  enum: ['text', 'url', 'file'],
+                  description: 'Type of source',
+                  default: 'file',
+                },
+                spec: SPEC_ARGUMENT,
+              },
+              required: ['source'],
+            },
+          },
+          {
+            name: 'list_specs',
+            description: 'List the specifications loaded in this session and which one is active',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'select_spec',
+            description: 'Make a loaded specification the active one used by tools that are not given a spec name',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name of the loaded spec (see list_specs)',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'unload_spec',
+            description: 'Remove a loaded specification from the session',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name of the loaded spec (see list_specs)',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'clear_spec_cache',
+            description: 'Delete the on-disk cache of loaded specs so nothing is restored on the next start. Specs loaded in this session stay available',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
           {
             name: 'get_api_overview',
             description: 'Get a comprehensive overview of the loaded API including basic info, statistics, and analytics',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                spec: SPEC_ARGUMENT,
+              },
             },
           },
           {
@@ -72,9 +228,10 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 query: {
                   type: 'string',
-                  description: 'Search query for endpoint paths, summaries, or descriptions',
+                  description: 'Search query. Bare words are a full-text search over operationIds, paths, summaries, descriptions, tags, parameter names and request/response schema properties, ranked by relevance. Field terms filter precisely: method:POST, tag:billing, status:409 (or 4xx), scope:write:invoices (scheme or scope; auth:none for public), param:idempotencyKey, path:/v2/** (* within a segment, ** across), complexity:high, time:slow, kind:webhook, ext:x-internal=true, is:deprecated, has:params, has:body. Comma-separate values for any of them (method:GET,HEAD). Terms are ANDed; use OR, NOT or a leading -, and parentheses, e.g. (tag:orders OR tag:billing) -deprecated refund',
                 },
                 methods: {
                   type: 'array',
@@ -103,6 +260,46 @@ export class OpenAPIExplorerMCPServer {
                   type: 'boolean',
                   description: 'Filter endpoints that require a request body',
                 },
+                kinds: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['operation', 'callback', 'webhook'] },
+                  description: 'Filter by endpoint kind: regular path operations, callbacks, or webhooks',
+                },
+                extensions: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Filter by vendor extensions; every filter must match. Forms: x-internal (present), !x-internal (absent), x-internal=true, x-owner!=payments, x-ratelimit.limit=100',
+                },
+                pageSize: {
+                  type: 'integer',
+                  minimum: 1,
+                  maximum: MAX_PAGE_SIZE,
+                  description: 'Endpoints per page (default: 20)',
+                },
+                offset: {
+                  type: 'integer',
+                  minimum: 0,
+                  description: 'Number of matching endpoints to skip',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'The cursor a previous page returned, to get the page after it. Fails if the results have changed since.',
+                },
+                groupBy: {
+                  type: 'string',
+                  enum: ['none', 'tag', 'method', 'path', 'complexity', 'security'],
+                  description: 'List results under headings: first tag, method, first path segment, complexity or security schemes',
+                },
+                sortBy: {
+                  type: 'string',
+                  enum: ['path', 'method', 'summary', 'complexity', 'responseTime'],
+                  description: 'Order results (within each group) by this field instead of by relevance or spec order',
+                },
+                sortOrder: {
+                  type: 'string',
+                  enum: ['asc', 'desc'],
+                  description: 'Direction of sortBy (default: asc)',
+                },
               },
             },
           },
@@ -112,13 +309,14 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 method: {
                   type: 'string',
                   description: 'HTTP method (GET, POST, etc.)',
                 },
                 path: {
                   type: 'string',
-                  description: 'Endpoint path',
+                  description: 'Endpoint path (or webhook name / callback expression)',
                 },
               },
               required: ['method', 'path'],
@@ -130,13 +328,14 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 method: {
                   type: 'string',
                   description: 'HTTP method',
                 },
                 path: {
                   type: 'string',
-                  description: 'Endpoint path',
+                  description: 'Endpoint path (or webhook name / callback expression)',
                 },
                 language: {
                   type: 'string',
@@ -154,6 +353,7 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 includeDistributions: {
                   type: 'boolean',
                   description: 'Include method, tag, and complexity distributions',
@@ -168,6 +368,7 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 focus: {
                   type: 'string',
                   enum: ['security', 'performance', 'design', 'documentation', 'all'],
@@ -183,6 +384,7 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 format: {
                   type: 'string',
                   enum: ['markdown', 'json', 'summary'],
@@ -202,12 +404,45 @@ export class OpenAPIExplorerMCPServer {
               },
             },
           },
+          {
+            name: 'export_spec',
+            description: 'Export the loaded specification itself (after any conversion or overlays) as YAML or JSON, either bundled into one document with internal $refs kept or fully dereferenced, optionally converted to Swagger 2.0, OpenAPI 3.0 or OpenAPI 3.1',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                spec: SPEC_ARGUMENT,
+                format: {
+                  type: 'string',
+                  enum: ['yaml', 'json'],
+                  description: 'Output format',
+                  default: 'yaml',
+                },
+                mode: {
+                  type: 'string',
+                  enum: ['bundled', 'dereferenced'],
+                  description: 'bundled keeps internal $refs; dereferenced inlines them, keeping only circular $refs and the components they need',
+                  default: 'bundled',
+                },
+                rejectCircular: {
+                  type: 'boolean',
+                  description: 'With mode dereferenced, fail if the spec has circular references instead of keeping them as $refs',
+                  default: false,
+                },
+                version: {
+                  type: 'string',
+                  enum: ['2.0', '3.0', '3.1'],
+                  description: 'Convert to this version; anything that cannot be converted exactly is reported (default: the loaded version)',
+                },
+              },
+            },
+          },
           {
             name: 'search_request_body_properties',
             description: 'Deep search through request body schemas to find specific properties, types, or patterns',
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 propertyName: {
                   type: 'string',
                   description: 'Name of the property to search for (supports partial matches)',
@@ -232,12 +467,54 @@ export class OpenAPIExplorerMCPServer {
               },
             },
           },
+          {
+            name: 'search_properties',
+            description: 'Deep search through response bodies (per status code and media type), response headers, parameters and request bodies to find where a property is accepted or exposed',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                spec: SPEC_ARGUMENT,
+                propertyName: {
+                  type: 'string',
+                  description: 'Name of the property, header or parameter to search for (supports partial matches)',
+                },
+                propertyType: {
+                  type: 'string',
+                  description: 'Type of property to search for (string, number, boolean, array, object)',
+                },
+                schemaPattern: {
+                  type: 'string',
+                  description: 'Regex pattern to match against names or descriptions',
+                },
+                required: {
+                  type: 'boolean',
+                  description: 'Filter by whether the property is required',
+                },
+                locations: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['responseBody', 'responseHeader', 'parameter', 'requestBody'] },
+                  description: 'Where to search (default: all)',
+                },
+                statusCodes: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Limit response searches to these statuses, e.g. ["200"] or ["2xx"]',
+                },
+                methods: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Limit search to specific HTTP methods',
+                },
+              },
+            },
+          },
           {
             name: 'generate_typescript_types',
             description: 'Generate TypeScript interfaces and types from OpenAPI schemas',
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 schemaName: {
                   type: 'string',
                   description: 'Specific schema name to generate types for (optional - generates all if not provided)',
@@ -272,6 +549,7 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 schemaName: {
                   type: 'string',
                   description: 'Schema to analyze dependencies for',
@@ -291,12 +569,33 @@ export class OpenAPIExplorerMCPServer {
               required: ['schemaName'],
             },
           },
+          {
+            name: 'find_schema_usages',
+            description: 'Find every operation whose request body, responses, parameters or callbacks include a schema, directly or through other schemas, with the property path it is reached through',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                spec: SPEC_ARGUMENT,
+                schemaName: {
+                  type: 'string',
+                  description: 'Component schema to find the usages of',
+                },
+                depth: {
+                  type: 'number',
+                  description: 'Maximum number of schemas to pass through on the way',
+                  default: 10,
+                },
+              },
+              required: ['schemaName'],
+            },
+          },
           {
             name: 'validate_request_examples',
             description: 'Validate that request/response examples match their schemas',
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 endpoint: {
                   type: 'string',
                   description: 'Specific endpoint to validate (method:path format, e.g., "POST:/users")',
@@ -315,6 +614,7 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 includeEndpointMapping: {
                   type: 'boolean',
                   description: 'Include mapping of which endpoints use which auth methods',
@@ -334,6 +634,7 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 schemaName: {
                   type: 'string',
                   description: 'Schema to generate mock data for',
@@ -367,6 +668,7 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 includeIndirectReferences: {
                   type: 'boolean',
                   description: 'Check for indirect references through other schemas',
@@ -381,6 +683,7 @@ export class OpenAPIExplorerMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                spec: SPEC_ARGUMENT,
                 schemaName: {
                   type: 'string',
                   description: 'Schema to analyze for evolution patterns',
@@ -393,6 +696,41 @@ export class OpenAPIExplorerMCPServer {
               },
             },
           },
+          {
+            name: 'infer_schema',
+            description: 'Infer an OpenAPI schema from one or more JSON sample payloads, optionally adding it to components.schemas of the loaded spec',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                spec: SPEC_ARGUMENT,
+                samples: {
+                  type: 'array',
+                  items: {},
+                  description: 'JSON values to infer the schema from, e.g. several example responses. A field is required when every sample has it',
+                },
+                name: {
+                  type: 'string',
+                  description: 'Add the schema to components.schemas under this name',
+                },
+                overwrite: {
+                  type: 'boolean',
+                  description: 'Replace an existing schema with the same name',
+                  default: false,
+                },
+                enums: {
+                  type: 'boolean',
+                  description: 'Describe strings that repeat a few distinct values as enums',
+                  default: true,
+                },
+                formats: {
+                  type: 'boolean',
+                  description: 'Detect string formats such as date-time, date, uuid, email, uri and ipv4',
+                  default: true,
+                },
+              },
+              required: ['samples'],
+            },
+          },
         ] satisfies Tool[],
       };
     });
@@ -404,8 +742,20 @@ export class OpenAPIExplorerMCPServer {
         switch (name) {
           case 'load_openapi_spec':
             return await this.loadOpenAPISpec(args);
+          case 'infer_spec_from_har':
+            return await this.inferSpecFromHar(args);
+          case 'apply_overlay':
+            return await this.applyOverlay(args);
+          case 'list_specs':
+            return await this.listSpecs();
+          case 'select_spec':
+            return await this.selectSpec(args);
+          case 'unload_spec':
+            return await this.unloadSpec(args);
+          case 'clear_spec_cache':
+            return await this.clearSpecCache();
           case 'get_api_overview':
-            return await this.getAPIOverview();
+            return await this.getAPIOverview(args);
           case 'search_endpoints':
             return await this.searchEndpoints(args);
           case 'get_endpoint_details':
@@ -418,12 +768,18 @@ export class OpenAPIExplorerMCPServer {
             return await this.validateAPIDesign(args);
           case 'export_documentation':
             return await this.exportDocumentation(args);
+          case 'export_spec':
+            return await this.exportSpecDocument(args);
           case 'search_request_body_properties':
             return await this.searchRequestBodyProperties(args);
+          case 'search_properties':
+            return await this.searchProperties(args);
           case 'generate_typescript_types':
             return await this.generateTypeScriptTypes(args);
           case 'find_schema_dependencies':
             return await this.findSchemaDependencies(args);
+          case 'find_schema_usages':
+            return await this.findSchemaUsages(args);
           case 'validate_request_examples':
             return await this.validateRequestExamples(args);
           case 'extract_auth_patterns':
@@ -434,6 +790,8 @@ export class OpenAPIExplorerMCPServer {
             return await this.findUnusedSchemas(args);
           case 'analyze_schema_evolution':
             return await this.analyzeSchemaEvolution(args);
+          case 'infer_schema':
+            return await this.inferSchemaFromSamples(args);
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -451,22 +809,56 @@ export class OpenAPIExplorerMCPServer {
     });
   }
 
-  private async loadOpenAPISpec(args: any) {
-    const { source, sourceType = 'text' } = args;
+  private async loadOpenAPISpec(args: any, parseOptions: ParseOptions = {}) {
+    const { source, sourceType = 'text', strict = false, refreshInterval, timeout, maxSize, maxRedirects } = args;
 
     try {
+      if (refreshInterval !== undefined) {
+        if (sourceType !== 'url') {
+          throw new Error('refreshInterval only applies to specs loaded from a URL');
+        }
+        if (typeof refreshInterval !== 'number' || refreshInterval < MIN_REFRESH_INTERVAL_SECONDS) {
+          throw new Error(`refreshInterval must be at least ${MIN_REFRESH_INTERVAL_SECONDS} seconds`);
+        }
+      }
+      const options: ParseOptions = { strict, fetch: { timeout, maxSize, maxRedirects }, ...parseOptions };
+
+      // Each spec keeps its own parser so the others stay queryable
+      const parser = new OpenAPIParser();
       let spec: OpenAPISpec;
       
       if (sourceType === 'url') {
-        spec = await this.parser.parseFromUrl(source);
+        spec = await parser.parseFromUrl(source, options);
+      } else if (sourceType === 'file') {
+        spec = await parser.parseFromFile(source, options);
       } else {
-        spec = await this.parser.parseFromText(source);
+        spec = await parser.parseFromText(source, options);
       }
 
-      this.currentSpec = spec;
-      this.currentEndpoints = this.parser.extractEndpoints();
+      const name = args.name || toSpecName(spec.info.title);
+      const replaced = this.workspace.has(name);
+      const endpoints = parser.extractEndpoints();
+      const loaded: LoadedSpec = {
+        name,
+        hash: hashSpec(spec),
+        spec,
+        endpoints,
+        parser,
+        source: sourceType === 'text' ? '' : source,
+        sourceType,
+        loadedAt: new Date(),
+        refreshInterval,
+      };
+      this.workspace.add(loaded);
+      this.reloader.watch(loaded);
+      await this.persistWorkspace(loaded);
 
-      const analytics = generateAnalytics(this.currentEndpoints);
+      const analytics = generateAnalytics(endpoints);
+      const sources = parser.getSources();
+      const conversionWarnings = parser.getConversionWarnings();
+      const sourceFormat = parser.getSourceFormat();
+      const validationErrors = parser.getValidationErrors();
+      const otherSpecs = this.workspace.list().filter(loaded => loaded.name !== name).map(loaded => loaded.name);
 
       return {
         content: [
@@ -474,18 +866,30 @@ export class OpenAPIExplorerMCPServer {
             type: 'text',
             text: `✅ Successfully loaded OpenAPI specification!
 
+**Workspace:**
+- Spec Name: ${name}${replaced ? ' (replaced the previously loaded version)' : ''}
+- Active: Yes${otherSpecs.length > 0 ? `\n- Other Loaded Specs: ${otherSpecs.join(', ')}` : ''}
+
 **API Information:**
 - Title: ${spec.info.title}
 - Version: ${spec.info.version}
 - Description: ${spec.info.description || 'No description provided'}
 - OpenAPI Version: ${spec.openapi}
-
+${sourceFormat === 'postman' || sourceFormat === 'har' ? `- Imported From: ${SOURCE_FORMAT_LABELS[sourceFormat]}\n` : ''}${sources.length > 1 ? `- Bundled From: ${sources.length} files\n` : ''}${this.reloader.isWatching(name) ? '- Watching source files for changes\n' : ''}${this.reloader.isPolling(name) ? `- Re-fetching every ${refreshInterval} seconds\n` : ''}
 **Statistics:**
-- Total Endpoints: ${this.currentEndpoints.length}
+- Total Endpoints: ${endpoints.length}
 - HTTP Methods: ${Object.keys(analytics.methodDistribution).join(', ')}
 - Tags: ${Object.keys(analytics.tagDistribution).length}
 - Deprecated Endpoints: ${analytics.deprecatedCount}
-
+${conversionWarnings.length > 0 ? `
+**${SOURCE_FORMAT_LABELS[sourceFormat]} Conversion Warnings (${conversionWarnings.length}):**
+${conversionWarnings.slice(0, 10).map(warning => `- \`${warning.pointer}\`: ${warning.message}`).join('\n')}${conversionWarnings.length > 10 ? `\n- ...and ${conversionWarnings.length - 10} more` : ''}
+` : ''}${validationErrors.length > 0 ? `
+**Schema Validation Errors (${validationErrors.length}):**
+${validationErrors.slice(0, 10).map(error => `- \`${error.pointer}\`: ${error.message}`).join('\n')}${validationErrors.length > 10 ? `\n- ...and ${validationErrors.length - 10} more` : ''}
+
+The document was loaded anyway; pass \`strict: true\` to reject invalid specifications.
+` : ''}
 The API specification has been loaded and is ready for exploration. You can now use other tools to search endpoints, get analytics, generate code examples, and more!`,
           },
         ],
@@ -495,25 +899,211 @@ The API specification has been loaded and is ready for exploration. You can now
     }
   }
 
-  private async getAPIOverview() {
-    if (!this.currentSpec || !this.currentEndpoints.length) {
+  // The cache only saves re-loading after a restart, so failing to update it
+  // never fails the tool call
+  private async persistWorkspace(loaded?: LoadedSpec) {
+    try {
+      if (loaded) {
+        await this.cache.saveSpec(loaded);
+      }
+      await this.cache.saveWorkspace(this.workspace);
+    } catch {
+      // Silent error handling
+    }
+  }
+
+  private async restoreWorkspace() {
+    try {
+      await this.cache.restoreWorkspace(this.workspace);
+    } catch {
+      // Start with an empty workspace
+    }
+
+    // Pick up edits made to file-sourced specs while the server was down
+    for (const loaded of this.workspace.list()) {
+      this.reloader.watch(loaded);
+      if (loaded.sourceType === 'file') {
+        await this.reloader.reload(loaded.name);
+      }
+    }
+  }
+
+  // Called when a watched spec file or polled URL changes: refresh the cache
+  // and tell connected clients which endpoints and schemas changed
+  private async handleSpecReload(event: SpecReloadEvent, loaded?: LoadedSpec) {
+    if (loaded) {
+      await this.persistWorkspace(loaded);
+    }
+
+    try {
+      await this.server.sendLoggingMessage({
+        level: event.error ? 'warning' : 'info',
+        logger: 'openapi-spec-master',
+        data: { message: formatSpecReloadEvent(event), ...event },
+      });
+    } catch {
+      // No client connected yet
+    }
+  }
+
+  private async clearSpecCache() {
+    if (!this.cache.enabled) {
+      return {
+        content: [{ type: 'text', text: 'The spec cache is disabled (OPENAPI_SPEC_CACHE_DIR=off).' }],
+      };
+    }
+
+    const removed = await this.cache.clear();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🧹 Cleared the spec cache at ${this.cache.location} (${removed} cached spec${removed === 1 ? '' : 's'} removed).
+
+${this.workspace.list().length > 0 ? 'Specs loaded in this session remain available, and are cached again when the workspace next changes.' : 'No specs will be restored on the next start.'}`,
+        },
+      ],
+    };
+  }
+
+  // A HAR capture loads like any other source; the parser infers the spec from its requests
+  private async inferSpecFromHar(args: any) {
+    const { source, sourceType = 'file', title, hosts, name } = args;
+    return this.loadOpenAPISpec({ source, sourceType, name }, { har: { title, hosts } });
+  }
+
+  // The overlay is applied to a copy, so a spec is only replaced once every
+  // action has run; endpoints are re-extracted from the result
+  private async applyOverlay(args: any) {
+    const { source, sourceType = 'file' } = args;
+    const name = args.spec || this.workspace.getActiveName();
+    if (!name) {
       throw new Error('No OpenAPI specification loaded. Please load a spec first.');
     }
 
-    const analytics = generateAnalytics(this.currentEndpoints);
-    const tags = this.parser.getAllTags();
-    const methods = this.parser.getAllMethods();
+    const previous = this.workspace.get(name);
+    const actions = await previous.parser.applyOverlay(source, sourceType);
+    const spec = previous.parser.getSpec()!;
+    const endpoints = previous.parser.extractEndpoints();
+    this.workspace.replace({ ...previous, spec, endpoints, hash: hashSpec(spec) });
+    await this.persistWorkspace(this.workspace.get(name));
+
+    const unmatched = actions.filter(action => action.matched === 0 && !action.error);
+    const failed = actions.filter(action => action.error);
+    const endpointChanges = diffEndpoints(previous.spec, previous.endpoints, spec, endpoints);
+    const schemaChanges = diffSchemas(previous.spec, spec);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Applied overlay to **${name}** (${actions.length} action${actions.length === 1 ? '' : 's'}, ${endpoints.length} endpoints now).
+
+**Actions:**
+${actions.map(action => `${action.index + 1}. \`${action.target}\`${action.description ? ` - ${action.description}` : ''}: ${action.error ? `❌ ${action.error}` : `${action.matched} node${action.matched === 1 ? '' : 's'} matched`}`).join('\n')}
+${unmatched.length > 0 ? `
+**Actions That Matched Nothing (${unmatched.length}):**
+${unmatched.map(action => `- \`${action.target}\``).join('\n')}
+` : ''}${failed.length > 0 ? `
+**Actions That Could Not Be Applied (${failed.length}):**
+${failed.map(action => `- \`${action.target}\`: ${action.error}`).join('\n')}
+` : ''}
+**Changes:**
+\`\`\`
+${summarizeEndpointChanges(endpointChanges)}
+${summarizeSchemaChanges(schemaChanges)}
+\`\`\``,
+        },
+      ],
+    };
+  }
+
+  private async listSpecs() {
+    const specs = this.workspace.list();
+    if (specs.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No specifications loaded. Use load_openapi_spec to add one.' }],
+      };
+    }
+
+    const active = this.workspace.getActiveName();
 
     return {
       content: [
         {
           type: 'text',
-          text: `# ${this.currentSpec.info.title} - API Overview
+          text: `# Loaded Specifications (${specs.length})
+
+${specs.map(loaded => `## ${loaded.name}${loaded.name === active ? ' (active)' : ''}
+- **Title:** ${loaded.spec.info.title}
+- **Version:** ${loaded.spec.info.version}
+- **OpenAPI Version:** ${loaded.spec.openapi}
+- **Endpoints:** ${loaded.endpoints.length}
+- **Source:** ${loaded.sourceType === 'text' ? 'inline text' : loaded.source}${this.reloader.isWatching(loaded.name) ? ' (watching for changes)' : ''}${this.reloader.isPolling(loaded.name) ? ` (re-fetched every ${loaded.refreshInterval}s)` : ''}
+- **Loaded At:** ${loaded.loadedAt.toISOString()}`).join('\n\n')}
+
+Pass \`spec\` with one of these names to any tool to query a spec other than the active one.`,
+        },
+      ],
+    };
+  }
+
+  private async selectSpec(args: any) {
+    const { name } = args;
+    const loaded = this.workspace.select(name);
+    await this.persistWorkspace();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Active spec is now **${loaded.name}** (${loaded.spec.info.title} ${loaded.spec.info.version}, ${loaded.endpoints.length} endpoints).`,
+        },
+      ],
+    };
+  }
+
+  private async unloadSpec(args: any) {
+    const { name } = args;
+    const removed = this.workspace.remove(name);
+    this.reloader.unwatch(name);
+    await this.persistWorkspace();
+    const active = this.workspace.getActive();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🗑️ Unloaded **${removed.name}** (${removed.spec.info.title}).
+
+${active ? `Active spec is now **${active.name}**.` : 'No specifications are loaded.'}`,
+        },
+      ],
+    };
+  }
+
+  private async getAPIOverview(args: any = {}) {
+    const { spec: currentSpec, endpoints: currentEndpoints, parser } = this.workspace.context(args.spec);
+
+    if (!currentSpec || !currentEndpoints.length) {
+      throw new Error('No OpenAPI specification loaded. Please load a spec first.');
+    }
+
+    const analytics = generateAnalytics(currentEndpoints);
+    const tags = parser.getAllTags();
+    const methods = parser.getAllMethods();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# ${currentSpec.info.title} - API Overview
 
 ## Basic Information
-- **Version:** ${this.currentSpec.info.version}
-- **OpenAPI Version:** ${this.currentSpec.openapi}
-- **Description:** ${this.currentSpec.info.description || 'No description provided'}
+- **Version:** ${currentSpec.info.version}
+- **OpenAPI Version:** ${currentSpec.openapi}
+- **Description:** ${currentSpec.info.description || 'No description provided'}
 
 ## Statistics
 - **Total Endpoints:** ${analytics.totalEndpoints}
@@ -533,6 +1123,10 @@ ${tags.length > 0 ? tags.map(tag => `- ${tag}`).join('\n') : 'No tags defined'}
 ${Object.entries(analytics.complexityDistribution)
   .map(([complexity, count]) => `- **${complexity.charAt(0).toUpperCase() + complexity.slice(1)}:** ${count} endpoints`)
   .join('\n')}
+${analytics.kindDistribution.callback || analytics.kindDistribution.webhook ? `
+## Event-Driven Endpoints
+- **Callbacks:** ${analytics.kindDistribution.callback || 0}
+- **Webhooks:** ${analytics.kindDistribution.webhook || 0}` : ''}
 
 ## Top Response Codes
 ${Object.entries(analytics.responseCodeDistribution)
@@ -546,7 +1140,9 @@ ${Object.entries(analytics.responseCodeDistribution)
   }
 
   private async searchEndpoints(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new Error('No OpenAPI specification loaded. Please load a spec first.');
     }
 
@@ -558,19 +1154,21 @@ ${Object.entries(analytics.responseCodeDistribution)
       deprecated,
       hasParameters,
       hasRequestBody,
+      kinds,
+      extensions,
+      groupBy,
+      sortBy,
+      sortOrder,
     } = args;
 
-    let filteredEndpoints = [...this.currentEndpoints];
+    let filteredEndpoints = [...currentEndpoints];
+    let hits = new Map<EndpointData, SearchHit>();
 
     // Apply filters
-    if (query) {
-      const searchTerm = query.toLowerCase();
-      filteredEndpoints = filteredEndpoints.filter(endpoint =>
-        endpoint.path.toLowerCase().includes(searchTerm) ||
-        endpoint.summary?.toLowerCase().includes(searchTerm) ||
-        endpoint.description?.toLowerCase().includes(searchTerm) ||
-        endpoint.tags.some(tag => tag.toLowerCase().includes(searchTerm))
-      );
+    // A query's free text ranks matches by relevance; the other filters keep that order
+    const parsedQuery: SearchQuery | null = query ? parseSearchQuery(query) : null;
+    if (parsedQuery) {
+      ({ endpoints: filteredEndpoints, hits } = executeSearchQuery(parsedQuery, filteredEndpoints, this.workspace.searchIndex(args.spec)));
     }
 
     if (methods && methods.length > 0) {
@@ -609,38 +1207,69 @@ ${Object.entries(analytics.responseCodeDistribution)
       );
     }
 
-    const results = filteredEndpoints.slice(0, 20); // Limit results
+    if (kinds && kinds.length > 0) {
+      filteredEndpoints = filteredEndpoints.filter(endpoint =>
+        kinds.includes(endpoint.kind)
+      );
+    }
+
+    if (extensions && extensions.length > 0) {
+      const filters = extensions.map((expression: string) => parseExtensionFilter(expression));
+      filteredEndpoints = filteredEndpoints.filter(endpoint =>
+        filters.every((filter: any) => matchesExtensionFilter(endpoint, filter))
+      );
+    }
+
+    const grouped = !!groupBy && groupBy !== 'none';
+    const page = paginate(
+      arrangeEndpoints(filteredEndpoints, { groupBy, sortBy, sortOrder }),
+      { offset: args.offset, cursor: args.cursor, pageSize: args.pageSize },
+      endpoint => endpoint.id
+    );
+    const groupHeading = (endpoint: EndpointData, index: number) => {
+      const group = groupKey(endpoint, groupBy);
+      return index === 0 || groupKey(page.items[index - 1], groupBy) !== group ? `\n## ${groupBy}: ${group}\n` : '';
+    };
 
     return {
       content: [
         {
           type: 'text',
           text: `# Search Results
+${parsedQuery ? `\n**Query:** \`${describeSearchQuery(parsedQuery)}\`\n` : ''}
+Found **${page.total}** endpoints matching your criteria${page.items.length < page.total ? ` (showing ${page.items.length > 0 ? `${page.offset + 1}-${page.offset + page.items.length}` : `none after ${page.offset}`})` : ''}:
 
-Found **${filteredEndpoints.length}** endpoints matching your criteria${filteredEndpoints.length > 20 ? ' (showing first 20)' : ''}:
-
-${results.map(endpoint => `
-## ${endpoint.method} ${endpoint.path}
-- **Summary:** ${endpoint.summary || 'No summary'}
+${page.items.map((endpoint, index) => `${grouped ? groupHeading(endpoint, index) : ''}
+${grouped ? '###' : '##'} ${endpoint.method} ${endpoint.path}
+${endpoint.kind !== 'operation' ? `- **Kind:** ${this.describeEndpointKind(endpoint, currentEndpoints)}\n` : ''}- **Summary:** ${endpoint.summary || 'No summary'}
 - **Tags:** ${endpoint.tags.join(', ') || 'None'}
 - **Complexity:** ${endpoint.complexity || 'Unknown'}
 - **Parameters:** ${endpoint.parameters.length}
 - **Deprecated:** ${endpoint.deprecated ? 'Yes' : 'No'}
 - **Has Request Body:** ${endpoint.requestBody ? 'Yes' : 'No'}
-${endpoint.description ? `- **Description:** ${endpoint.description}` : ''}
-`).join('\n')}`,
+${Object.keys(endpoint.extensions || {}).length > 0 ? `- **Extensions:** ${this.formatExtensions(endpoint.extensions)}\n` : ''}${hits.has(endpoint) ? this.formatSearchHit(hits.get(endpoint)!) : ''}${endpoint.description ? `- **Description:** ${endpoint.description}` : ''}
+`).join('\n')}${page.nextCursor ? `
+---
+**More results:** call again with \`cursor: "${page.nextCursor}"\` (or \`offset: ${page.nextOffset}\`) for the next ${Math.min(page.pageSize, page.total - page.nextOffset!)}.` : ''}`,
         },
       ],
     };
   }
 
+  private formatSearchHit(hit: SearchHit): string {
+    const matches = hit.matches.map(match => `  - ${match.field}: ${match.snippet}`).join('\n');
+    return `- **Relevance:** ${hit.score.toFixed(2)}\n${matches ? `- **Matches:**\n${matches}\n` : ''}`;
+  }
+
   private async getEndpointDetails(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new Error('No OpenAPI specification loaded. Please load a spec first.');
     }
 
     const { method, path } = args;
-    const endpoint = this.currentEndpoints.find(
+    const endpoint = currentEndpoints.find(
       ep => ep.method.toLowerCase() === method.toLowerCase() && ep.path === path
     );
 
@@ -648,6 +1277,8 @@ ${endpoint.description ? `- **Description:** ${endpoint.description}` : ''}
       throw new Error(`Endpoint ${method} ${path} not found.`);
     }
 
+    const callbacks = currentEndpoints.filter(ep => ep.kind === 'callback' && ep.parentId === endpoint.id);
+
     return {
       content: [
         {
@@ -655,28 +1286,35 @@ ${endpoint.description ? `- **Description:** ${endpoint.description}` : ''}
           text: `# ${endpoint.method} ${endpoint.path}
 
 ## Overview
+- **Kind:** ${this.describeEndpointKind(endpoint, currentEndpoints)}
 - **Summary:** ${endpoint.summary || 'No summary provided'}
 - **Description:** ${endpoint.description || 'No description provided'}
 - **Tags:** ${endpoint.tags.join(', ') || 'None'}
 - **Deprecated:** ${endpoint.deprecated ? '⚠️ Yes' : '✅ No'}
 - **Complexity:** ${endpoint.complexity || 'Unknown'}
-
+${Object.keys(endpoint.extensions || {}).length > 0 ? `
+## Vendor Extensions
+${Object.entries(endpoint.extensions).map(([name, value]) => `- **${name}:** ${formatExtensionValue(value)}`).join('\n')}
+` : ''}
 ## Parameters (${endpoint.parameters.length})
 ${endpoint.parameters.length > 0 ? 
   endpoint.parameters.map(param => `
 ### ${param.name} (${param.in})
-- **Type:** ${(param.schema && 'type' in param.schema) ? param.schema.type : 'Unknown'}
+- **Type:** ${param.schema ? ('$ref' in param.schema ? param.schema.$ref.split('/').pop() : getSchemaTypes(param.schema).join(' | ') || 'Unknown') : 'Unknown'}
 - **Required:** ${param.required ? 'Yes' : 'No'}
 - **Description:** ${param.description || 'No description'}
-`).join('\n') : 'No parameters'}
+${Object.keys(getExtensions(param)).length > 0 ? `- **Extensions:** ${this.formatExtensions(getExtensions(param))}\n` : ''}`).join('\n') : 'No parameters'}
 
 ## Request Body
 ${endpoint.requestBody ? 'This endpoint accepts a request body' : 'No request body required'}
-
+${callbacks.length > 0 ? `
+## Callbacks (${callbacks.length})
+${callbacks.map(callback => `- **${callback.callbackName}:** ${callback.method} ${callback.path}${callback.summary ? ` - ${callback.summary}` : ''}`).join('\n')}
+` : ''}
 ## Responses
 ${Object.entries(endpoint.responses).map(([code, response]) => `
 ### ${code}
-${response.description}
+${response.description || 'No description'}
 `).join('\n')}
 
 ## Business Context
@@ -692,12 +1330,14 @@ ${endpoint.aiSuggestions && endpoint.aiSuggestions.length > 0 ?
   }
 
   private async generateCodeExamples(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new Error('No OpenAPI specification loaded. Please load a spec first.');
     }
 
     const { method, path, language = 'curl' } = args;
-    const endpoint = this.currentEndpoints.find(
+    const endpoint = currentEndpoints.find(
       ep => ep.method.toLowerCase() === method.toLowerCase() && ep.path === path
     );
 
@@ -745,6 +1385,21 @@ ${example}
     };
   }
 
+  private formatExtensions(extensions: { [name: string]: any }): string {
+    return Object.entries(extensions).map(([name, value]) => `${name}=${formatExtensionValue(value)}`).join(', ');
+  }
+
+  private describeEndpointKind(endpoint: EndpointData, endpoints: EndpointData[]): string {
+    if (endpoint.kind === 'webhook') {
+      return `Webhook \`${endpoint.webhookName}\``;
+    }
+    if (endpoint.kind === 'callback') {
+      const parent = endpoints.find(ep => ep.id === endpoint.parentId);
+      return `Callback \`${endpoint.callbackName}\` of ${parent ? `${parent.method} ${parent.path}` : endpoint.parentId}`;
+    }
+    return 'Operation';
+  }
+
   private generateCurlExample(endpoint: EndpointData): string {
     const method = endpoint.method.toLowerCase();
     let curl = `curl -X ${endpoint.method} "${endpoint.path}"`;
@@ -820,12 +1475,14 @@ console.log(data);`;
   }
 
   private async getAPIAnalytics(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new Error('No OpenAPI specification loaded. Please load a spec first.');
     }
 
     const { includeDistributions = true } = args;
-    const analytics = generateAnalytics(this.currentEndpoints);
+    const analytics = generateAnalytics(currentEndpoints);
 
     let result = `# API Analytics
 
@@ -861,12 +1518,26 @@ ${Object.entries(analytics.responseCodeDistribution)
   .map(([code, count]) => `- **${code}:** ${count} endpoints`)
   .join('\n')}
 
+## Endpoint Kinds
+${Object.entries(analytics.kindDistribution)
+  .map(([kind, count]) => `- **${kind.charAt(0).toUpperCase() + kind.slice(1)}:** ${count}`)
+  .join('\n')}
+
 ## Tag Distribution (Top 10)
 ${Object.entries(analytics.tagDistribution)
   .sort(([,a], [,b]) => (b as number) - (a as number))
   .slice(0, 10)
   .map(([tag, count]) => `- **${tag}:** ${count} endpoints`)
-  .join('\n')}`;
+  .join('\n')}${Object.keys(analytics.extensionUsage).length > 0 ? `
+
+## Vendor Extensions
+${Object.entries(analytics.extensionUsage)
+  .sort(([,a], [,b]) => b - a)
+  .map(([name, count]) => {
+    const values = Object.entries(analytics.extensionValues[name] || {}).sort(([,a], [,b]) => b - a);
+    return `- **${name}:** ${count} endpoints${values.length > 0 ? ` (${values.slice(0, 5).map(([value, n]) => `${value}: ${n}`).join(', ')}${values.length > 5 ? `, ${values.length - 5} more values` : ''})` : ''}`;
+  })
+  .join('\n')}` : ''}`;
     }
 
     return {
@@ -880,13 +1551,16 @@ ${Object.entries(analytics.tagDistribution)
   }
 
   private async validateAPIDesign(args: any) {
-    if (!this.currentEndpoints.length) {
+    const { endpoints: currentEndpoints, parser } = this.workspace.context(args.spec);
+
+    if (!currentEndpoints.length) {
       throw new Error('No OpenAPI specification loaded. Please load a spec first.');
     }
 
     const { focus = 'all' } = args;
-    const analytics = generateAnalytics(this.currentEndpoints);
+    const analytics = generateAnalytics(currentEndpoints);
     const recommendations: string[] = [];
+    const findings: { title: string; endpoints: EndpointData[] }[] = [];
 
     // Security validation
     if (focus === 'security' || focus === 'all') {
@@ -894,22 +1568,25 @@ ${Object.entries(analytics.tagDistribution)
         recommendations.push('🔒 **Security:** No security schemes detected. Consider adding authentication to protect your API.');
       }
       
-      const unsecuredEndpoints = this.currentEndpoints.filter(ep => !ep.security || ep.security.length === 0);
+      const unsecuredEndpoints = currentEndpoints.filter(ep => !ep.security || ep.security.length === 0);
       if (unsecuredEndpoints.length > 0) {
         recommendations.push(`🔒 **Security:** ${unsecuredEndpoints.length} endpoints have no security requirements. Review if this is intentional.`);
+        findings.push({ title: 'Endpoints without security requirements', endpoints: unsecuredEndpoints });
       }
     }
 
     // Documentation validation
     if (focus === 'documentation' || focus === 'all') {
-      const undocumentedEndpoints = this.currentEndpoints.filter(ep => !ep.summary && !ep.description);
+      const undocumentedEndpoints = currentEndpoints.filter(ep => !ep.summary && !ep.description);
       if (undocumentedEndpoints.length > 0) {
         recommendations.push(`📝 **Documentation:** ${undocumentedEndpoints.length} endpoints lack summaries or descriptions.`);
+        findings.push({ title: 'Endpoints without a summary or description', endpoints: undocumentedEndpoints });
       }
 
-      const untaggedEndpoints = this.currentEndpoints.filter(ep => ep.tags.length === 0);
+      const untaggedEndpoints = currentEndpoints.filter(ep => ep.tags.length === 0);
       if (untaggedEndpoints.length > 0) {
         recommendations.push(`🏷️ **Organization:** ${untaggedEndpoints.length} endpoints have no tags for better organization.`);
+        findings.push({ title: 'Endpoints without tags', endpoints: untaggedEndpoints });
       }
     }
 
@@ -917,19 +1594,22 @@ ${Object.entries(analytics.tagDistribution)
     if (focus === 'design' || focus === 'all') {
       if (analytics.deprecatedCount > 0) {
         recommendations.push(`⚠️ **Maintenance:** ${analytics.deprecatedCount} deprecated endpoints found. Consider migration strategy.`);
+        findings.push({ title: 'Deprecated endpoints', endpoints: currentEndpoints.filter(ep => ep.deprecated) });
       }
 
-      const highComplexityEndpoints = this.currentEndpoints.filter(ep => ep.complexity === 'high');
+      const highComplexityEndpoints = currentEndpoints.filter(ep => ep.complexity === 'high');
       if (highComplexityEndpoints.length > analytics.totalEndpoints * 0.3) {
         recommendations.push(`🔧 **Design:** High number of complex endpoints (${highComplexityEndpoints.length}). Consider simplifying API design.`);
+        findings.push({ title: 'High complexity endpoints', endpoints: highComplexityEndpoints });
       }
     }
 
     // Performance validation
     if (focus === 'performance' || focus === 'all') {
-      const slowEndpoints = this.currentEndpoints.filter(ep => ep.estimatedResponseTime === 'slow');
+      const slowEndpoints = currentEndpoints.filter(ep => ep.estimatedResponseTime === 'slow');
       if (slowEndpoints.length > 0) {
         recommendations.push(`⚡ **Performance:** ${slowEndpoints.length} endpoints estimated as slow. Consider optimization.`);
+        findings.push({ title: 'Endpoints estimated as slow', endpoints: slowEndpoints });
       }
     }
 
@@ -948,19 +1628,39 @@ ${Object.entries(analytics.tagDistribution)
 ## Recommendations
 
 ${recommendations.map(rec => rec).join('\n\n')}
+${findings.length > 0 ? `
+## Findings
 
+${this.formatEndpointFindings(findings, parser)}
+` : ''}
 ## Summary Statistics
 - **Total Endpoints:** ${analytics.totalEndpoints}
-- **Security Coverage:** ${((this.currentEndpoints.filter(ep => ep.security && ep.security.length > 0).length / analytics.totalEndpoints) * 100).toFixed(1)}%
-- **Documentation Coverage:** ${((this.currentEndpoints.filter(ep => ep.summary || ep.description).length / analytics.totalEndpoints) * 100).toFixed(1)}%
-- **Tag Coverage:** ${((this.currentEndpoints.filter(ep => ep.tags.length > 0).length / analytics.totalEndpoints) * 100).toFixed(1)}%`,
+- **Security Coverage:** ${((currentEndpoints.filter(ep => ep.security && ep.security.length > 0).length / analytics.totalEndpoints) * 100).toFixed(1)}%
+- **Documentation Coverage:** ${((currentEndpoints.filter(ep => ep.summary || ep.description).length / analytics.totalEndpoints) * 100).toFixed(1)}%
+- **Tag Coverage:** ${((currentEndpoints.filter(ep => ep.tags.length > 0).length / analytics.totalEndpoints) * 100).toFixed(1)}%`,
         },
       ],
     };
   }
 
+  // List the endpoints behind a validation finding with their source positions
+  private formatEndpointFindings(findings: { title: string; endpoints: EndpointData[] }[], parser: OpenAPIParser): string {
+    const limit = 10;
+    return findings.map(({ title, endpoints }) => {
+      const lines = endpoints.slice(0, limit).map(ep =>
+        `- ${ep.method} ${ep.path} — ${describeLocation(ep.pointer, parser.locate(ep.pointer))}`
+      );
+      if (endpoints.length > limit) {
+        lines.push(`- ...and ${endpoints.length - limit} more`);
+      }
+      return `### ${title} (${endpoints.length})\n${lines.join('\n')}`;
+    }).join('\n\n');
+  }
+
   private async exportDocumentation(args: any) {
-    if (!this.currentSpec || !this.currentEndpoints.length) {
+    const { spec: currentSpec, endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentSpec || !currentEndpoints.length) {
       throw new Error('No OpenAPI specification loaded. Please load a spec first.');
     }
 
@@ -971,18 +1671,18 @@ ${recommendations.map(rec => rec).join('\n\n')}
         content: [
           {
             type: 'text',
-            text: `# ${this.currentSpec.info.title} - API Summary
+            text: `# ${currentSpec.info.title} - API Summary
 
-**Version:** ${this.currentSpec.info.version}
-**Total Endpoints:** ${this.currentEndpoints.length}
+**Version:** ${currentSpec.info.version}
+**Total Endpoints:** ${currentEndpoints.length}
 
 ## Endpoints by Method
-${Object.entries(generateAnalytics(this.currentEndpoints).methodDistribution)
+${Object.entries(generateAnalytics(currentEndpoints).methodDistribution)
   .map(([method, count]) => `- ${method}: ${count}`)
   .join('\n')}
 
 ## All Endpoints
-${this.currentEndpoints.map(ep => `- ${ep.method} ${ep.path}${ep.summary ? ` - ${ep.summary}` : ''}`).join('\n')}`,
+${currentEndpoints.map(ep => `- ${ep.kind !== 'operation' ? `[${ep.kind}] ` : ''}${ep.method} ${ep.path}${ep.summary ? ` - ${ep.summary}` : ''}`).join('\n')}`,
           },
         ],
       };
@@ -991,11 +1691,13 @@ ${this.currentEndpoints.map(ep => `- ${ep.method} ${ep.path}${ep.summary ? ` - $
     if (format === 'json') {
       const exportData = {
         api: {
-          title: this.currentSpec.info.title,
-          version: this.currentSpec.info.version,
-          description: this.currentSpec.info.description,
+          title: currentSpec.info.title,
+          version: currentSpec.info.version,
+          description: currentSpec.info.description,
         },
-        endpoints: this.currentEndpoints.map(ep => ({
+        endpoints: currentEndpoints.map(ep => ({
+          kind: ep.kind,
+          parentId: ep.parentId,
           method: ep.method,
           path: ep.path,
           summary: ep.summary,
@@ -1007,7 +1709,7 @@ ${this.currentEndpoints.map(ep => `- ${ep.method} ${ep.path}${ep.summary ? ` - $
           hasRequestBody: !!ep.requestBody,
           responseCodes: Object.keys(ep.responses),
         })),
-        ...(includeAnalytics && { analytics: generateAnalytics(this.currentEndpoints) }),
+        ...(includeAnalytics && { analytics: generateAnalytics(currentEndpoints) }),
       };
 
       return {
@@ -1021,19 +1723,23 @@ ${this.currentEndpoints.map(ep => `- ${ep.method} ${ep.path}${ep.summary ? ` - $
     }
 
     // Markdown format (default)
-    let markdown = `# ${this.currentSpec.info.title}
+    let markdown = `# ${currentSpec.info.title}
 
-**Version:** ${this.currentSpec.info.version}
-**OpenAPI Version:** ${this.currentSpec.openapi}
+**Version:** ${currentSpec.info.version}
+**OpenAPI Version:** ${currentSpec.openapi}
 
-${this.currentSpec.info.description ? `## Description\n${this.currentSpec.info.description}\n` : ''}
+${currentSpec.info.description ? `## Description\n${currentSpec.info.description}\n` : ''}
 
-## Endpoints (${this.currentEndpoints.length})
+## Endpoints (${currentEndpoints.length})
 
 `;
 
-    for (const endpoint of this.currentEndpoints) {
+    for (const endpoint of currentEndpoints) {
       markdown += `### ${endpoint.method} ${endpoint.path}\n\n`;
+
+      if (endpoint.kind !== 'operation') {
+        markdown += `**Kind:** ${this.describeEndpointKind(endpoint, currentEndpoints)}\n\n`;
+      }
       
       if (endpoint.summary) {
         markdown += `**Summary:** ${endpoint.summary}\n\n`;
@@ -1073,7 +1779,7 @@ ${this.currentSpec.info.description ? `## Description\n${this.currentSpec.info.d
     }
 
     if (includeAnalytics) {
-      const analytics = generateAnalytics(this.currentEndpoints);
+      const analytics = generateAnalytics(currentEndpoints);
       markdown += `## Analytics
 
 **Total Endpoints:** ${analytics.totalEndpoints}
@@ -1102,8 +1808,39 @@ ${Object.entries(analytics.complexityDistribution)
     };
   }
 
+  private async exportSpecDocument(args: any) {
+    const { spec: currentSpec } = this.workspace.context(args.spec);
+
+    if (!currentSpec) {
+      throw new Error('No OpenAPI specification loaded. Please load a spec first.');
+    }
+
+    const { format = 'yaml', mode = 'bundled', rejectCircular = false, version } = args;
+    const { content, circularRefs, warnings, versionLabel } = exportSpec(currentSpec, { format, mode, rejectCircular, version });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# ${currentSpec.info.title} ${currentSpec.info.version} (${versionLabel}, ${mode} ${format.toUpperCase()})
+${circularRefs.length > 0 ? `
+**Circular References Kept (${circularRefs.length}):** ${circularRefs.map(ref => `\`${ref}\``).join(', ')}
+` : ''}${warnings.length > 0 ? `
+**Lossy Conversions (${warnings.length}):**
+${warnings.map(warning => `- \`${warning.pointer}\`: ${warning.message}`).join('\n')}
+` : ''}
+\`\`\`${format}
+${content.trimEnd()}
+\`\`\``,
+        },
+      ],
+    };
+  }
+
   private async searchRequestBodyProperties(args: any) {
-    if (!this.currentSpec) {
+    const { spec: currentSpec, endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentSpec) {
       return {
         content: [{ type: 'text', text: 'No OpenAPI specification loaded. Please load a spec first.' }],
         isError: true,
@@ -1113,89 +1850,8 @@ ${Object.entries(analytics.complexityDistribution)
     const { propertyName, propertyType, schemaPattern, required, methods } = args;
     const results: any[] = [];
 
-    // Helper function to search properties in a schema
-    const searchInSchema = (schema: any, path: string[] = []): any[] => {
-      const matches: any[] = [];
-      
-      if (!schema || typeof schema !== 'object') return matches;
-
-      // Handle $ref
-      if (schema.$ref) {
-        const refName = schema.$ref.split('/').pop();
-        if (this.currentSpec?.components?.schemas?.[refName]) {
-          return searchInSchema(this.currentSpec.components.schemas[refName], [...path, refName]);
-        }
-        return matches;
-      }
-
-      // Search in properties
-      if (schema.properties) {
-        Object.entries(schema.properties).forEach(([propName, propSchema]: [string, any]) => {
-          const currentPath = [...path, propName];
-          const isRequired = schema.required?.includes(propName) || false;
-
-          // Check if this property matches our search criteria
-          let matches_criteria = true;
-
-          if (propertyName && !propName.toLowerCase().includes(propertyName.toLowerCase())) {
-            matches_criteria = false;
-          }
-
-          if (propertyType && propSchema.type !== propertyType) {
-            matches_criteria = false;
-          }
-
-          if (required !== undefined && isRequired !== required) {
-            matches_criteria = false;
-          }
-
-          if (schemaPattern) {
-            const regex = new RegExp(schemaPattern, 'i');
-            if (!regex.test(propSchema.description || '') && !regex.test(propName)) {
-              matches_criteria = false;
-            }
-          }
-
-          if (matches_criteria) {
-            matches.push({
-              propertyName: propName,
-              propertyType: propSchema.type || 'unknown',
-              path: currentPath.join('.'),
-              required: isRequired,
-              description: propSchema.description,
-              format: propSchema.format,
-              example: propSchema.example,
-              enum: propSchema.enum,
-              schema: propSchema
-            });
-          }
-
-          // Recursively search nested objects
-          if (propSchema.type === 'object' || propSchema.properties) {
-            matches.push(...searchInSchema(propSchema, currentPath));
-          }
-
-          // Search in array items
-          if (propSchema.type === 'array' && propSchema.items) {
-            matches.push(...searchInSchema(propSchema.items, [...currentPath, '[items]']));
-          }
-        });
-      }
-
-      // Search in oneOf, anyOf, allOf
-      ['oneOf', 'anyOf', 'allOf'].forEach(keyword => {
-        if (schema[keyword] && Array.isArray(schema[keyword])) {
-          schema[keyword].forEach((subSchema: any, index: number) => {
-            matches.push(...searchInSchema(subSchema, [...path, `${keyword}[${index}]`]));
-          });
-        }
-      });
-
-      return matches;
-    };
-
     // Search through all endpoints with request bodies
-    this.currentEndpoints.forEach(endpoint => {
+    currentEndpoints.forEach(endpoint => {
       if (methods && !methods.includes(endpoint.method.toUpperCase())) {
         return;
       }
@@ -1203,7 +1859,7 @@ ${Object.entries(analytics.complexityDistribution)
       if (endpoint.requestBody?.content) {
         Object.entries(endpoint.requestBody.content).forEach(([mediaType, content]: [string, any]) => {
           if (content.schema) {
-            const properties = searchInSchema(content.schema);
+            const properties = searchSchemaProperties(currentSpec, content.schema, { propertyName, propertyType, schemaPattern, required });
             if (properties.length > 0) {
               results.push({
                 endpoint: `${endpoint.method.toUpperCase()} ${endpoint.path}`,
@@ -1228,8 +1884,43 @@ ${Object.entries(analytics.complexityDistribution)
     };
   }
 
+  private async searchProperties(args: any) {
+    const { spec: currentSpec, endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentSpec) {
+      return {
+        content: [{ type: 'text', text: 'No OpenAPI specification loaded. Please load a spec first.' }],
+        isError: true,
+      };
+    }
+
+    const { propertyName, propertyType, schemaPattern, required, locations, statusCodes, methods } = args;
+    const results = searchEndpointProperties(currentSpec, currentEndpoints, {
+      propertyName,
+      propertyType,
+      schemaPattern,
+      required,
+      locations: locations as PropertyLocation[] | undefined,
+      statusCodes,
+      methods,
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          searchCriteria: { propertyName, propertyType, schemaPattern, required, locations, statusCodes, methods },
+          totalMatches: results.reduce((sum, r) => sum + r.properties.length, 0),
+          results
+        }, null, 2)
+      }],
+    };
+  }
+
   private async generateTypeScriptTypes(args: any) {
-    if (!this.currentSpec) {
+    const { spec: currentSpec, endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentSpec) {
       return {
         content: [{ type: 'text', text: 'No OpenAPI specification loaded. Please load a spec first.' }],
         isError: true,
@@ -1238,6 +1929,51 @@ ${Object.entries(analytics.complexityDistribution)
 
     const { schemaName, includeRequestBodies = true, includeResponses = true, exportFormat = 'individual', addValidation = false } = args;
     
+    const toLiteral = (value: any): string => {
+      if (value === null) return 'null';
+      return typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+    };
+
+    const convertTypeToTS = (schema: any, type: string, path: string[]): string => {
+      switch (type) {
+        case 'string':
+          if (schema.enum) {
+            return schema.enum.map(toLiteral).join(' | ');
+          }
+          return 'string';
+        case 'number':
+        case 'integer':
+          return 'number';
+        case 'boolean':
+          return 'boolean';
+        case 'null':
+          return 'null';
+        case 'array':
+          const itemType = schema.items && typeof schema.items === 'object' ? convertSchemaToTS(schema.items, '', path) : 'any';
+          if (schema.prefixItems) {
+            const tupleTypes = schema.prefixItems.map((item: any) => convertSchemaToTS(item, '', path));
+            if (schema.items !== false) tupleTypes.push(`...${itemType}[]`);
+            return `[${tupleTypes.join(', ')}]`;
+          }
+          return /[|&]/.test(itemType) ? `(${itemType})[]` : `${itemType}[]`;
+        case 'object':
+          if (schema.properties) {
+            const props = Object.entries(schema.properties).map(([propName, propSchema]: [string, any]) => {
+              const isRequired = schema.required?.includes(propName);
+              const optional = isRequired ? '' : '?';
+              const validation = addValidation ? this.generateValidationDecorator(propSchema) : '';
+              const propType = convertSchemaToTS(propSchema, propName, [...path, propName]);
+              const description = propSchema.description ? `  /** ${propSchema.description} */\n  ` : '  ';
+              return `${description}${validation}${propName}${optional}: ${propType};`;
+            }).join('\n  ');
+            return `{\n  ${props}\n}`;
+          }
+          return 'Record<string, any>';
+        default:
+          return 'any';
+      }
+    };
+
     const convertSchemaToTS = (schema: any, name: string, path: string[] = []): string => {
       if (!schema) return 'any';
 
@@ -1247,36 +1983,15 @@ ${Object.entries(analytics.complexityDistribution)
         return refName || 'any';
       }
 
-      // Handle basic types
+      // 3.1 const maps to a single literal type
+      if (schema.const !== undefined) {
+        return toLiteral(schema.const);
+      }
+
+      // Handle basic types; 3.1 type arrays and 3.0 nullable become unions
       if (schema.type) {
-        switch (schema.type) {
-          case 'string':
-            if (schema.enum) {
-              return schema.enum.map((v: string) => `'${v}'`).join(' | ');
-            }
-            return 'string';
-          case 'number':
-          case 'integer':
-            return 'number';
-          case 'boolean':
-            return 'boolean';
-          case 'array':
-            const itemType = schema.items ? convertSchemaToTS(schema.items, '', path) : 'any';
-            return `${itemType}[]`;
-          case 'object':
-            if (schema.properties) {
-              const props = Object.entries(schema.properties).map(([propName, propSchema]: [string, any]) => {
-                const isRequired = schema.required?.includes(propName);
-                const optional = isRequired ? '' : '?';
-                const validation = addValidation ? this.generateValidationDecorator(propSchema) : '';
-                const propType = convertSchemaToTS(propSchema, propName, [...path, propName]);
-                const description = propSchema.description ? `  /** ${propSchema.description} */\n  ` : '  ';
-                return `${description}${validation}${propName}${optional}: ${propType};`;
-              }).join('\n  ');
-              return `{\n  ${props}\n}`;
-            }
-            return 'Record<string, any>';
-        }
+        const tsTypes = getSchemaTypes(schema).map(type => convertTypeToTS(schema, type, path));
+        return Array.from(new Set(tsTypes)).join(' | ');
       }
 
       // Handle oneOf, anyOf, allOf
@@ -1296,8 +2011,8 @@ ${Object.entries(analytics.complexityDistribution)
     const interfaces: string[] = [];
 
     // Generate types for components/schemas
-    if (this.currentSpec.components?.schemas) {
-      Object.entries(this.currentSpec.components.schemas).forEach(([name, schema]: [string, any]) => {
+    if (currentSpec.components?.schemas) {
+      Object.entries(currentSpec.components.schemas).forEach(([name, schema]: [string, any]) => {
         if (schemaName && name !== schemaName) return;
         
         const tsType = convertSchemaToTS(schema, name);
@@ -1308,7 +2023,7 @@ ${Object.entries(analytics.complexityDistribution)
 
     // Generate types for request bodies
     if (includeRequestBodies) {
-      this.currentEndpoints.forEach(endpoint => {
+      currentEndpoints.forEach(endpoint => {
         if (endpoint.requestBody?.content) {
           Object.entries(endpoint.requestBody.content).forEach(([mediaType, content]: [string, any]) => {
             if (content.schema && !content.schema.$ref) {
@@ -1323,7 +2038,7 @@ ${Object.entries(analytics.complexityDistribution)
 
     // Generate types for responses
     if (includeResponses) {
-      this.currentEndpoints.forEach(endpoint => {
+      currentEndpoints.forEach(endpoint => {
         Object.entries(endpoint.responses).forEach(([statusCode, response]: [string, any]) => {
           if (response.content) {
             Object.entries(response.content).forEach(([mediaType, content]: [string, any]) => {
@@ -1350,10 +2065,20 @@ ${Object.entries(analytics.complexityDistribution)
     };
   }
 
+  // Resolve a schema $ref by JSON pointer so 3.1 $defs and nested pointers work too
+  private resolveSchemaRef(spec: OpenAPISpec | null, ref: string): any {
+    if (!spec || !ref.startsWith('#')) return undefined;
+    try {
+      return resolvePointer(spec, ref);
+    } catch {
+      return undefined;
+    }
+  }
+
   private generateValidationDecorator(schema: any): string {
     const decorators: string[] = [];
     
-    if (schema.type === 'string') {
+    if (hasSchemaType(schema, 'string')) {
       if (schema.minLength) decorators.push(`@MinLength(${schema.minLength})`);
       if (schema.maxLength) decorators.push(`@MaxLength(${schema.maxLength})`);
       if (schema.pattern) decorators.push(`@Matches(/${schema.pattern}/)`);
@@ -1361,10 +2086,11 @@ ${Object.entries(analytics.complexityDistribution)
       if (schema.format === 'url') decorators.push('@IsUrl()');
     }
     
-    if (schema.type === 'number' || schema.type === 'integer') {
-      if (schema.minimum) decorators.push(`@Min(${schema.minimum})`);
-      if (schema.maximum) decorators.push(`@Max(${schema.maximum})`);
-      if (schema.type === 'integer') decorators.push('@IsInt()');
+    if (hasSchemaType(schema, 'number')) {
+      const { minimum, maximum } = getNumericBounds(schema);
+      if (minimum !== undefined) decorators.push(`@Min(${minimum})`);
+      if (maximum !== undefined) decorators.push(`@Max(${maximum})`);
+      if (getPrimaryType(schema) === 'integer') decorators.push('@IsInt()');
     }
     
     if (schema.required) decorators.push('@IsNotEmpty()');
@@ -1373,7 +2099,9 @@ ${Object.entries(analytics.complexityDistribution)
   }
 
   private async findSchemaDependencies(args: any) {
-    if (!this.currentSpec || !this.currentSpec.components?.schemas) {
+    const { spec: currentSpec } = this.workspace.context(args.spec);
+
+    if (!currentSpec || !currentSpec.components?.schemas) {
       return {
         content: [{ type: 'text', text: 'No OpenAPI specification or schemas loaded.' }],
         isError: true,
@@ -1381,7 +2109,7 @@ ${Object.entries(analytics.complexityDistribution)
     }
 
     const { schemaName, direction = 'both', depth = 5 } = args;
-    const schemas = this.currentSpec.components.schemas;
+    const schemas = currentSpec.components.schemas;
 
     if (!schemas[schemaName]) {
       return {
@@ -1435,6 +2163,40 @@ ${Object.entries(analytics.complexityDistribution)
     };
   }
 
+  private async findSchemaUsages(args: any) {
+    const { spec: currentSpec, endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentSpec || !currentSpec.components?.schemas) {
+      return {
+        content: [{ type: 'text', text: 'No OpenAPI specification or schemas loaded.' }],
+        isError: true,
+      };
+    }
+
+    const { schemaName, depth = 10 } = args;
+    if (!currentSpec.components.schemas[schemaName]) {
+      return {
+        content: [{ type: 'text', text: `Schema '${schemaName}' not found.` }],
+        isError: true,
+      };
+    }
+
+    const usages = findSchemaUsages(currentSpec, currentEndpoints, schemaName, depth);
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          schema: schemaName,
+          operations: new Set(usages.map(usage => usage.operation)).size,
+          totalUsages: usages.length,
+          impact: usages.map(usage => `${usage.operation} → ${usage.path}`),
+          usages
+        }, null, 2)
+      }],
+    };
+  }
+
   private buildDependencyTree(schemaName: string, schemas: any, maxDepth: number, visited = new Set(), depth = 0): any {
     if (depth >= maxDepth || visited.has(schemaName) || !schemas[schemaName]) {
       return { name: schemaName, circular: visited.has(schemaName) };
@@ -1470,7 +2232,9 @@ ${Object.entries(analytics.complexityDistribution)
   }
 
   private async validateRequestExamples(args: any) {
-    if (!this.currentSpec) {
+    const { spec: currentSpec, endpoints: currentEndpoints, parser } = this.workspace.context(args.spec);
+
+    if (!currentSpec) {
       return {
         content: [{ type: 'text', text: 'No OpenAPI specification loaded.' }],
         isError: true,
@@ -1483,33 +2247,44 @@ ${Object.entries(analytics.complexityDistribution)
     const validateExample = (example: any, schema: any, path: string): any[] => {
       const errors: any[] = [];
       
-      if (!schema || !example) return errors;
+      if (!schema || example === undefined) return errors;
 
       // Handle $ref
       if (schema.$ref) {
-        const refName = schema.$ref.split('/').pop();
-        if (this.currentSpec?.components?.schemas?.[refName]) {
-          return validateExample(example, this.currentSpec.components.schemas[refName], path);
+        const resolved = this.resolveSchemaRef(currentSpec, schema.$ref);
+        if (resolved) {
+          return validateExample(example, resolved, path);
         }
         return errors;
       }
 
-      // Type validation
+      if (schema.const !== undefined && JSON.stringify(example) !== JSON.stringify(schema.const)) {
+        errors.push({ path, error: `Value must equal const: ${JSON.stringify(schema.const)}` });
+      }
+
+      if (schema.enum && !schema.enum.some((value: any) => JSON.stringify(value) === JSON.stringify(example))) {
+        errors.push({ path, error: `Value not in enum: ${schema.enum.join(', ')}` });
+      }
+
+      // Type validation (3.1 type arrays and 3.0 nullable both allow several types)
       if (schema.type) {
-        const actualType = Array.isArray(example) ? 'array' : typeof example;
-        const expectedType = schema.type === 'integer' ? 'number' : schema.type;
+        const expectedTypes = getSchemaTypes(schema);
+        const actualType = jsonTypeOf(example);
+        const typeMatches = expectedTypes.includes(actualType) ||
+          (actualType === 'integer' && expectedTypes.includes('number'));
         
-        if (actualType !== expectedType) {
+        if (!typeMatches) {
           errors.push({
             path,
-            error: `Type mismatch: expected ${expectedType}, got ${actualType}`,
-            expected: expectedType,
+            error: `Type mismatch: expected ${expectedTypes.join(' | ')}, got ${actualType}`,
+            expected: expectedTypes.join(' | '),
             actual: actualType
           });
+          return errors;
         }
 
         // Additional validations
-        if (schema.type === 'string') {
+        if (actualType === 'string') {
           if (schema.minLength && example.length < schema.minLength) {
             errors.push({ path, error: `String too short: ${example.length} < ${schema.minLength}` });
           }
@@ -1519,21 +2294,19 @@ ${Object.entries(analytics.complexityDistribution)
           if (schema.pattern && !new RegExp(schema.pattern).test(example)) {
             errors.push({ path, error: `String doesn't match pattern: ${schema.pattern}` });
           }
-          if (schema.enum && !schema.enum.includes(example)) {
-            errors.push({ path, error: `Value not in enum: ${schema.enum.join(', ')}` });
-          }
         }
 
-        if (schema.type === 'number' || schema.type === 'integer') {
-          if (schema.minimum !== undefined && example < schema.minimum) {
-            errors.push({ path, error: `Number too small: ${example} < ${schema.minimum}` });
+        if (actualType === 'number' || actualType === 'integer') {
+          const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = getNumericBounds(schema);
+          if (minimum !== undefined && (exclusiveMinimum ? example <= minimum : example < minimum)) {
+            errors.push({ path, error: `Number too small: ${example} ${exclusiveMinimum ? '<=' : '<'} ${minimum}` });
           }
-          if (schema.maximum !== undefined && example > schema.maximum) {
-            errors.push({ path, error: `Number too large: ${example} > ${schema.maximum}` });
+          if (maximum !== undefined && (exclusiveMaximum ? example >= maximum : example > maximum)) {
+            errors.push({ path, error: `Number too large: ${example} ${exclusiveMaximum ? '>=' : '>'} ${maximum}` });
           }
         }
 
-        if (schema.type === 'object' && schema.properties) {
+        if (actualType === 'object' && schema.properties) {
           // Check required properties
           if (schema.required) {
             schema.required.forEach((reqProp: string) => {
@@ -1545,17 +2318,27 @@ ${Object.entries(analytics.complexityDistribution)
 
           // Validate properties
           Object.entries(example).forEach(([prop, value]) => {
+            const patternSchema = Object.entries(schema.patternProperties || {})
+              .find(([pattern]) => new RegExp(pattern).test(prop))?.[1];
             if (schema.properties[prop]) {
               errors.push(...validateExample(value, schema.properties[prop], `${path}.${prop}`));
+            } else if (patternSchema) {
+              errors.push(...validateExample(value, patternSchema, `${path}.${prop}`));
             } else if (strictMode) {
               errors.push({ path: `${path}.${prop}`, error: `Additional property not allowed in strict mode` });
             }
           });
         }
 
-        if (schema.type === 'array' && schema.items) {
+        if (actualType === 'array') {
+          const prefixItems: any[] = schema.prefixItems || [];
           example.forEach((item: any, index: number) => {
-            errors.push(...validateExample(item, schema.items, `${path}[${index}]`));
+            const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+            if (itemSchema === false) {
+              errors.push({ path: `${path}[${index}]`, error: `Additional tuple item not allowed` });
+            } else if (itemSchema && typeof itemSchema === 'object') {
+              errors.push(...validateExample(item, itemSchema, `${path}[${index}]`));
+            }
           });
         }
       }
@@ -1564,8 +2347,8 @@ ${Object.entries(analytics.complexityDistribution)
     };
 
     const endpointsToCheck = endpoint 
-      ? this.currentEndpoints.filter(ep => `${ep.method.toUpperCase()}:${ep.path}` === endpoint)
-      : this.currentEndpoints;
+      ? currentEndpoints.filter(ep => `${ep.method.toUpperCase()}:${ep.path}` === endpoint)
+      : currentEndpoints;
 
     endpointsToCheck.forEach(ep => {
       const endpointId = `${ep.method.toUpperCase()} ${ep.path}`;
@@ -1576,10 +2359,13 @@ ${Object.entries(analytics.complexityDistribution)
           if (content.schema && content.example) {
             const errors = validateExample(content.example, content.schema, 'requestBody');
             if (errors.length > 0) {
+              const pointer = joinPointer(ep.pointer, 'requestBody', 'content', mediaType, 'example');
               results.push({
                 endpoint: endpointId,
                 type: 'request',
                 mediaType,
+                pointer,
+                location: formatLocation(parser.locate(pointer)),
                 errors
               });
             }
@@ -1594,11 +2380,14 @@ ${Object.entries(analytics.complexityDistribution)
             if (content.schema && content.example) {
               const errors = validateExample(content.example, content.schema, 'response');
               if (errors.length > 0) {
+                const pointer = joinPointer(ep.pointer, 'responses', statusCode, 'content', mediaType, 'example');
                 results.push({
                   endpoint: endpointId,
                   type: 'response',
                   statusCode,
                   mediaType,
+                  pointer,
+                  location: formatLocation(parser.locate(pointer)),
                   errors
                 });
               }
@@ -1621,7 +2410,9 @@ ${Object.entries(analytics.complexityDistribution)
   }
 
   private async extractAuthPatterns(args: any) {
-    if (!this.currentSpec) {
+    const { spec: currentSpec, endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentSpec) {
       return {
         content: [{ type: 'text', text: 'No OpenAPI specification loaded.' }],
         isError: true,
@@ -1630,8 +2421,8 @@ ${Object.entries(analytics.complexityDistribution)
 
     const { includeEndpointMapping = true, analyzeScopes = true } = args;
     
-    const authSchemes = this.currentSpec.components?.securitySchemes || {};
-    const globalSecurity = this.currentSpec.security || [];
+    const authSchemes = currentSpec.components?.securitySchemes || {};
+    const globalSecurity = currentSpec.security || [];
     
     const analysis = {
       securitySchemes: Object.entries(authSchemes).map(([name, scheme]: [string, any]) => ({
@@ -1641,9 +2432,9 @@ ${Object.entries(analytics.complexityDistribution)
         details: this.extractSecurityDetails(scheme)
       })),
       globalSecurity: globalSecurity,
-      endpointSecurity: includeEndpointMapping ? this.analyzeEndpointSecurity() : undefined,
-      scopeAnalysis: analyzeScopes ? this.analyzeOAuthScopes(authSchemes) : undefined,
-      recommendations: this.generateSecurityRecommendations(authSchemes, globalSecurity)
+      endpointSecurity: includeEndpointMapping ? this.analyzeEndpointSecurity(currentEndpoints) : undefined,
+      scopeAnalysis: analyzeScopes ? this.analyzeOAuthScopes(authSchemes, currentEndpoints) : undefined,
+      recommendations: this.generateSecurityRecommendations(authSchemes, globalSecurity, currentEndpoints)
     };
 
     return {
@@ -1684,8 +2475,8 @@ ${Object.entries(analytics.complexityDistribution)
     return details;
   }
 
-  private analyzeEndpointSecurity(): any[] {
-    return this.currentEndpoints.map(endpoint => ({
+  private analyzeEndpointSecurity(endpoints: EndpointData[]): any[] {
+    return endpoints.map(endpoint => ({
       endpoint: `${endpoint.method.toUpperCase()} ${endpoint.path}`,
       security: endpoint.security || [],
       authRequired: (endpoint.security || []).length > 0,
@@ -1693,7 +2484,7 @@ ${Object.entries(analytics.complexityDistribution)
     }));
   }
 
-  private analyzeOAuthScopes(authSchemes: any): any {
+  private analyzeOAuthScopes(authSchemes: any, endpoints: EndpointData[]): any {
     const oauthSchemes = Object.entries(authSchemes).filter(([_, scheme]: [string, any]) => scheme.type === 'oauth2');
     
     if (oauthSchemes.length === 0) return null;
@@ -1701,7 +2492,7 @@ ${Object.entries(analytics.complexityDistribution)
     const scopeUsage: { [scope: string]: string[] } = {};
     
     // Analyze scope usage across endpoints
-    this.currentEndpoints.forEach(endpoint => {
+    endpoints.forEach(endpoint => {
       const endpointId = `${endpoint.method.toUpperCase()} ${endpoint.path}`;
       (endpoint.security || []).forEach(sec => {
         Object.entries(sec).forEach(([schemeName, scopes]: [string, string[]]) => {
@@ -1739,7 +2530,7 @@ ${Object.entries(analytics.complexityDistribution)
     return Array.from(definedScopes).filter(scope => !usedScopes.has(scope));
   }
 
-  private generateSecurityRecommendations(authSchemes: any, globalSecurity: any[]): string[] {
+  private generateSecurityRecommendations(authSchemes: any, globalSecurity: any[], endpoints: EndpointData[]): string[] {
     const recommendations: string[] = [];
     
     if (Object.keys(authSchemes).length === 0) {
@@ -1757,7 +2548,7 @@ ${Object.entries(analytics.complexityDistribution)
       recommendations.push('Consider implementing OAuth2 for better security than API keys alone');
     }
     
-    const unsecuredEndpoints = this.currentEndpoints.filter(ep => !ep.security || ep.security.length === 0);
+    const unsecuredEndpoints = endpoints.filter(ep => !ep.security || ep.security.length === 0);
     if (unsecuredEndpoints.length > 0) {
       recommendations.push(`${unsecuredEndpoints.length} endpoints have no security requirements`);
     }
@@ -1766,7 +2557,9 @@ ${Object.entries(analytics.complexityDistribution)
   }
 
   private async generateMockData(args: any) {
-    if (!this.currentSpec) {
+    const { spec: currentSpec, endpoints: currentEndpoints } = this.workspace.context(args.spec);
+
+    if (!currentSpec) {
       return {
         content: [{ type: 'text', text: 'No OpenAPI specification loaded.' }],
         isError: true,
@@ -1780,16 +2573,21 @@ ${Object.entries(analytics.complexityDistribution)
 
       // Handle $ref
       if (schema.$ref) {
-        const refName = schema.$ref.split('/').pop();
-        if (this.currentSpec?.components?.schemas?.[refName]) {
-          return generateMockValue(this.currentSpec.components.schemas[refName], fieldName);
+        const resolved = this.resolveSchemaRef(currentSpec, schema.$ref);
+        if (resolved) {
+          return generateMockValue(resolved, fieldName);
         }
         return null;
       }
 
-      // Use example if available
-      if (schema.example !== undefined) {
-        return schema.example;
+      // Use example (or the first of 3.1 examples) if available
+      const example = getSchemaExample(schema);
+      if (example !== undefined) {
+        return example;
+      }
+
+      if (schema.const !== undefined) {
+        return schema.const;
       }
 
       // Handle enum
@@ -1797,8 +2595,8 @@ ${Object.entries(analytics.complexityDistribution)
         return schema.enum[Math.floor(Math.random() * schema.enum.length)];
       }
 
-      // Generate based on type
-      switch (schema.type) {
+      // Generate based on type; for type arrays such as ['string', 'null'] use the non-null type
+      switch (getPrimaryType(schema)) {
         case 'string':
           return this.generateStringValue(schema, fieldName, realistic);
         case 'number':
@@ -1808,6 +2606,9 @@ ${Object.entries(analytics.complexityDistribution)
           return Math.random() > 0.5;
         case 'array':
           const arrayLength = Math.min(count, 5);
+          if (schema.prefixItems) {
+            return schema.prefixItems.map((itemSchema: any) => generateMockValue(itemSchema, fieldName));
+          }
           return Array.from({ length: arrayLength }, () => 
             generateMockValue(schema.items, fieldName));
         case 'object':
@@ -1830,7 +2631,7 @@ ${Object.entries(analytics.complexityDistribution)
     let mockData: any[] = [];
 
     if (schemaName) {
-      const schema = this.currentSpec.components?.schemas?.[schemaName];
+      const schema = currentSpec.components?.schemas?.[schemaName];
       if (!schema) {
         return {
           content: [{ type: 'text', text: `Schema '${schemaName}' not found.` }],
@@ -1840,7 +2641,7 @@ ${Object.entries(analytics.complexityDistribution)
       mockData = Array.from({ length: count }, () => generateMockValue(schema));
     } else if (endpoint) {
       const [method, path] = endpoint.split(':');
-      const ep = this.currentEndpoints.find(e => 
+      const ep = currentEndpoints.find(e => 
         e.method.toUpperCase() === method.toUpperCase() && e.path === path);
       
       if (!ep) {
@@ -1915,14 +2716,19 @@ ${Object.entries(analytics.complexityDistribution)
   }
 
   private generateNumberValue(schema: any): number {
-    const min = schema.minimum || 0;
-    const max = schema.maximum || 100;
+    const bounds = getNumericBounds(schema);
+    const isInteger = getPrimaryType(schema) === 'integer';
+    const step = isInteger ? 1 : 0.01;
+    const min = (bounds.minimum ?? 0) + (bounds.exclusiveMinimum ? step : 0);
+    const max = (bounds.maximum ?? 100) - (bounds.exclusiveMaximum ? step : 0);
     const value = Math.random() * (max - min) + min;
-    return schema.type === 'integer' ? Math.floor(value) : Math.round(value * 100) / 100;
+    return isInteger ? Math.floor(value) : Math.round(value * 100) / 100;
   }
 
   private async findUnusedSchemas(args: any) {
-    if (!this.currentSpec || !this.currentSpec.components?.schemas) {
+    const { spec: currentSpec, parser } = this.workspace.context(args.spec);
+
+    if (!currentSpec || !currentSpec.components?.schemas) {
       return {
         content: [{ type: 'text', text: 'No OpenAPI specification or schemas loaded.' }],
         isError: true,
@@ -1930,7 +2736,7 @@ ${Object.entries(analytics.complexityDistribution)
     }
 
     const { includeIndirectReferences = true } = args;
-    const schemas = this.currentSpec.components.schemas;
+    const schemas = currentSpec.components.schemas;
     const usedSchemas = new Set<string>();
 
     // Find all $ref references in the spec
@@ -1950,9 +2756,9 @@ ${Object.entries(analytics.complexityDistribution)
     };
 
     // Start with paths and components
-    findRefs(this.currentSpec.paths);
-    if (this.currentSpec.components) {
-      findRefs(this.currentSpec.components);
+    findRefs(currentSpec.paths);
+    if (currentSpec.components) {
+      findRefs(currentSpec.components);
     }
 
     // If including indirect references, also check referenced schemas
@@ -1978,6 +2784,10 @@ ${Object.entries(analytics.complexityDistribution)
           totalSchemas: allSchemas.length,
           usedSchemas: Array.from(usedSchemas).sort(),
           unusedSchemas: unusedSchemas.sort(),
+          unusedSchemaLocations: unusedSchemas.map(name => {
+            const pointer = joinPointer('#', 'components', 'schemas', name);
+            return { name, pointer, location: formatLocation(parser.locate(pointer)) };
+          }),
           unusedCount: unusedSchemas.length,
           usagePercentage: Math.round((usedSchemas.size / allSchemas.length) * 100)
         }, null, 2)
@@ -1986,7 +2796,9 @@ ${Object.entries(analytics.complexityDistribution)
   }
 
   private async analyzeSchemaEvolution(args: any) {
-    if (!this.currentSpec || !this.currentSpec.components?.schemas) {
+    const { spec: currentSpec } = this.workspace.context(args.spec);
+
+    if (!currentSpec || !currentSpec.components?.schemas) {
       return {
         content: [{ type: 'text', text: 'No OpenAPI specification or schemas loaded.' }],
         isError: true,
@@ -1994,7 +2806,7 @@ ${Object.entries(analytics.complexityDistribution)
     }
 
     const { schemaName, suggestVersioning = true } = args;
-    const schemas = this.currentSpec.components.schemas;
+    const schemas = currentSpec.components.schemas;
 
     if (schemaName && !schemas[schemaName]) {
       return {
@@ -2042,6 +2854,70 @@ ${Object.entries(analytics.complexityDistribution)
     }
   }
 
+  private async inferSchemaFromSamples(args: any) {
+    const { samples, name, overwrite = false, enums = true, formats = true } = args;
+
+    if (!Array.isArray(samples) || samples.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'Provide at least one JSON sample in `samples`.' }],
+        isError: true,
+      };
+    }
+
+    const { spec: currentSpec } = this.workspace.context(args.spec);
+    // Match the nullability style of the spec the schema is meant for
+    const schema = inferSchema(samples, { enums, formats, openapi31: isOpenAPI31(currentSpec?.openapi) });
+    let added = '';
+
+    if (name) {
+      if (!currentSpec) {
+        return {
+          content: [{ type: 'text', text: 'No OpenAPI specification loaded. Load one to add the schema to it.' }],
+          isError: true,
+        };
+      }
+      if (!/^[a-zA-Z0-9._-]+$/.test(name)) {
+        return {
+          content: [{ type: 'text', text: `Invalid schema name '${name}'. Component names may only contain letters, digits, '.', '_' and '-'.` }],
+          isError: true,
+        };
+      }
+
+      const components = currentSpec.components = currentSpec.components || {};
+      const schemas = components.schemas = components.schemas || {};
+      if (schemas[name] && !overwrite) {
+        return {
+          content: [{ type: 'text', text: `Schema '${name}' already exists. Pass overwrite: true to replace it.` }],
+          isError: true,
+        };
+      }
+      schemas[name] = schema;
+
+      const loaded = this.workspace.get(args.spec || this.workspace.getActiveName()!);
+      const updated: LoadedSpec = { ...loaded, hash: hashSpec(loaded.spec) };
+      this.workspace.replace(updated);
+      await this.persistWorkspace(updated);
+
+      added = `\n✅ Added as \`#/components/schemas/${name}\` in **${loaded.name}**. The change lasts until the spec is reloaded from its source.\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# Inferred Schema
+
+Inferred from ${samples.length} sample${samples.length === 1 ? '' : 's'}.
+
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\`
+${added}`,
+        },
+      ],
+    };
+  }
+
   private assessExtensibility(schema: any): string {
     let score = 0;
     
@@ -2062,7 +2938,8 @@ ${Object.entries(analytics.complexityDistribution)
     if (schema.additionalProperties === false) risk += 2;
     if (schema.enum) risk += 1;
     if (schema.pattern) risk += 1;
-    if (schema.minimum || schema.maximum) risk += 1;
+    if (schema.minimum !== undefined || schema.maximum !== undefined ||
+        typeof schema.exclusiveMinimum === 'number' || typeof schema.exclusiveMaximum === 'number') risk += 1;
     
     if (risk >= 4) return 'high';
     if (risk >= 2) return 'medium';
@@ -2097,7 +2974,7 @@ ${Object.entries(analytics.complexityDistribution)
       recommendations.push('Add comprehensive description for better documentation');
     }
     
-    if (schema.type === 'object' && !schema.additionalProperties) {
+    if (hasSchemaType(schema, 'object') && !schema.additionalProperties && !schema.unevaluatedProperties) {
       recommendations.push('Consider allowing additionalProperties for future extensibility');
     }
     
@@ -2113,6 +2990,7 @@ ${Object.entries(analytics.complexityDistribution)
   }
 
   async run() {
+    await this.restoreWorkspace();
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
   }
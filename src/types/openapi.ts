@@ -1,16 +1,25 @@
-export interface OpenAPISpec {
+// Specification extensions: objects that allow them may carry any `x-` field,
+// e.g. x-owner or x-internal
+export interface Extensions {
+  [extension: `x-${string}`]: any;
+}
+
+export interface OpenAPISpec extends Extensions {
   openapi: string;
   info: Info;
+  jsonSchemaDialect?: string;
   servers?: Server[];
   paths: Paths;
+  webhooks?: { [name: string]: PathItem | Reference };
   components?: Components;
   security?: SecurityRequirement[];
   tags?: Tag[];
   externalDocs?: ExternalDocumentation;
 }
 
-export interface Info {
+export interface Info extends Extensions {
   title: string;
+  summary?: string;
   description?: string;
   termsOfService?: string;
   contact?: Contact;
@@ -18,34 +27,35 @@ export interface Info {
   version: string;
 }
 
-export interface Contact {
+export interface Contact extends Extensions {
   name?: string;
   url?: string;
   email?: string;
 }
 
-export interface License {
+export interface License extends Extensions {
   name: string;
+  identifier?: string;
   url?: string;
 }
 
-export interface Server {
+export interface Server extends Extensions {
   url: string;
   description?: string;
   variables?: { [key: string]: ServerVariable };
 }
 
-export interface ServerVariable {
+export interface ServerVariable extends Extensions {
   enum?: string[];
   default: string;
   description?: string;
 }
 
-export interface Paths {
+export interface Paths extends Extensions {
   [path: string]: PathItem;
 }
 
-export interface PathItem {
+export interface PathItem extends Extensions {
   $ref?: string;
   summary?: string;
   description?: string;
@@ -61,7 +71,7 @@ export interface PathItem {
   parameters?: (Parameter | Reference)[];
 }
 
-export interface Operation {
+export interface Operation extends Extensions {
   tags?: string[];
   summary?: string;
   description?: string;
@@ -76,7 +86,7 @@ export interface Operation {
   servers?: Server[];
 }
 
-export interface Parameter {
+export interface Parameter extends Extensions {
   name: string;
   in: 'query' | 'header' | 'path' | 'cookie';
   description?: string;
@@ -91,37 +101,45 @@ export interface Parameter {
   examples?: { [key: string]: Example | Reference };
 }
 
-export interface RequestBody {
+export interface RequestBody extends Extensions {
   description?: string;
   content: { [mediaType: string]: MediaType };
   required?: boolean;
 }
 
-export interface Responses {
+export interface Responses extends Extensions {
   [statusCode: string]: Response | Reference;
 }
 
-export interface Response {
+export interface Response extends Extensions {
   description: string;
   headers?: { [key: string]: Header | Reference };
   content?: { [mediaType: string]: MediaType };
   links?: { [key: string]: Link | Reference };
 }
 
-export interface MediaType {
+export interface MediaType extends Extensions {
   schema?: Schema | Reference;
   example?: any;
   examples?: { [key: string]: Example | Reference };
   encoding?: { [key: string]: Encoding };
 }
 
-export interface Schema {
+export interface Schema extends Extensions {
+  $id?: string;
+  $schema?: string;
+  $anchor?: string;
+  $dynamicRef?: string;
+  $dynamicAnchor?: string;
+  $defs?: { [key: string]: Schema | Reference };
+  $comment?: string;
   title?: string;
   multipleOf?: number;
   maximum?: number;
-  exclusiveMaximum?: boolean;
+  // Boolean modifier of maximum in 3.0, standalone numeric bound in 3.1
+  exclusiveMaximum?: boolean | number;
   minimum?: number;
-  exclusiveMinimum?: boolean;
+  exclusiveMinimum?: boolean | number;
   maxLength?: number;
   minLength?: number;
   pattern?: string;
@@ -131,15 +149,33 @@ export interface Schema {
   maxProperties?: number;
   minProperties?: number;
   required?: string[];
+  dependentRequired?: { [key: string]: string[] };
   enum?: any[];
-  type?: string;
+  const?: any;
+  // A list of types (e.g. ['string', 'null']) is only valid in 3.1
+  type?: string | string[];
   allOf?: (Schema | Reference)[];
   oneOf?: (Schema | Reference)[];
   anyOf?: (Schema | Reference)[];
   not?: Schema | Reference;
-  items?: Schema | Reference;
+  if?: Schema | Reference;
+  then?: Schema | Reference;
+  else?: Schema | Reference;
+  items?: Schema | Reference | boolean;
+  prefixItems?: (Schema | Reference)[];
+  contains?: Schema | Reference;
+  minContains?: number;
+  maxContains?: number;
   properties?: { [key: string]: Schema | Reference };
+  patternProperties?: { [pattern: string]: Schema | Reference };
   additionalProperties?: boolean | Schema | Reference;
+  unevaluatedProperties?: boolean | Schema | Reference;
+  unevaluatedItems?: boolean | Schema | Reference;
+  propertyNames?: Schema | Reference;
+  dependentSchemas?: { [key: string]: Schema | Reference };
+  contentMediaType?: string;
+  contentEncoding?: string;
+  contentSchema?: Schema | Reference;
   description?: string;
   format?: string;
   default?: any;
@@ -150,21 +186,24 @@ export interface Schema {
   xml?: XML;
   externalDocs?: ExternalDocumentation;
   example?: any;
+  examples?: any[];
   deprecated?: boolean;
 }
 
 export interface Reference {
   $ref: string;
+  summary?: string;
+  description?: string;
 }
 
-export interface Example {
+export interface Example extends Extensions {
   summary?: string;
   description?: string;
   value?: any;
   externalValue?: string;
 }
 
-export interface Header {
+export interface Header extends Extensions {
   description?: string;
   required?: boolean;
   deprecated?: boolean;
@@ -177,18 +216,18 @@ export interface Header {
   examples?: { [key: string]: Example | Reference };
 }
 
-export interface Tag {
+export interface Tag extends Extensions {
   name: string;
   description?: string;
   externalDocs?: ExternalDocumentation;
 }
 
-export interface ExternalDocumentation {
+export interface ExternalDocumentation extends Extensions {
   description?: string;
   url: string;
 }
 
-export interface Components {
+export interface Components extends Extensions {
   schemas?: { [key: string]: Schema | Reference };
   responses?: { [key: string]: Response | Reference };
   parameters?: { [key: string]: Parameter | Reference };
@@ -198,9 +237,10 @@ export interface Components {
   securitySchemes?: { [key: string]: SecurityScheme | Reference };
   links?: { [key: string]: Link | Reference };
   callbacks?: { [key: string]: Callback | Reference };
+  pathItems?: { [key: string]: PathItem | Reference };
 }
 
-export interface SecurityScheme {
+export interface SecurityScheme extends Extensions {
   type: string;
   description?: string;
   name?: string;
@@ -211,14 +251,14 @@ export interface SecurityScheme {
   openIdConnectUrl?: string;
 }
 
-export interface OAuthFlows {
+export interface OAuthFlows extends Extensions {
   implicit?: OAuthFlow;
   password?: OAuthFlow;
   clientCredentials?: OAuthFlow;
   authorizationCode?: OAuthFlow;
 }
 
-export interface OAuthFlow {
+export interface OAuthFlow extends Extensions {
   authorizationUrl?: string;
   tokenUrl?: string;
   refreshUrl?: string;
@@ -229,7 +269,7 @@ export interface SecurityRequirement {
   [key: string]: string[];
 }
 
-export interface Link {
+export interface Link extends Extensions {
   operationRef?: string;
   operationId?: string;
   parameters?: { [key: string]: any };
@@ -238,16 +278,16 @@ export interface Link {
   server?: Server;
 }
 
-export interface Callback {
+export interface Callback extends Extensions {
   [expression: string]: PathItem;
 }
 
-export interface Discriminator {
+export interface Discriminator extends Extensions {
   propertyName: string;
   mapping?: { [key: string]: string };
 }
 
-export interface XML {
+export interface XML extends Extensions {
   name?: string;
   namespace?: string;
   prefix?: string;
@@ -255,7 +295,7 @@ export interface XML {
   wrapped?: boolean;
 }
 
-export interface Encoding {
+export interface Encoding extends Extensions {
   contentType?: string;
   headers?: { [key: string]: Header | Reference };
   style?: string;
@@ -263,8 +303,22 @@ export interface Encoding {
   allowReserved?: boolean;
 }
 
+export interface ConversionWarning {
+  pointer: string;
+  message: string;
+}
+
+export type EndpointKind = 'operation' | 'callback' | 'webhook';
+
 export interface EndpointData {
   id: string;
+  // Webhooks use their name as path, callbacks their runtime expression
+  kind: EndpointKind;
+  parentId?: string;
+  callbackName?: string;
+  webhookName?: string;
+  // JSON pointer to the operation in the loaded document
+  pointer: string;
   path: string;
   method: string;
   operation: Operation;
@@ -285,6 +339,8 @@ export interface EndpointData {
   hasRequestBody?: boolean;
   responseTypes?: string[];
   estimatedResponseTime?: 'fast' | 'medium' | 'slow';
+  // x- fields of the operation and its path item; the operation's win
+  extensions: { [name: string]: any };
 }
 
 export interface FilterState {
@@ -299,6 +355,10 @@ export interface FilterState {
   hasParameters: boolean | null;
   hasRequestBody: boolean | null;
   responseTime: string[];
+  // Parameter names, endpoint kinds and vendor extension filters (x-name=value)
+  parameters: string[];
+  kinds: string[];
+  extensions: string[];
 }
 
 export interface GroupingState {
@@ -326,4 +386,13 @@ export interface AnalyticsData {
   averageParametersPerEndpoint: number;
   pathPatterns: string[];
   responseCodeDistribution: { [code: string]: number };
-}
\ No newline at end of file
+  kindDistribution: { [kind: string]: number };
+  // Endpoints carrying each extension, and how often each scalar value occurs
+  extensionUsage: { [name: string]: number };
+  extensionValues: { [name: string]: { [value: string]: number } };
+}
+
+export interface SpecValidationError {
+  pointer: string;
+  message: string;
+}
@@ -1,10 +1,14 @@
 import { EndpointData, AnalyticsData } from '../types/openapi.js';
+import { formatExtensionValue } from './extensions.js';
 
 export function generateAnalytics(endpoints: EndpointData[]): AnalyticsData {
   const methodDistribution: { [method: string]: number } = {};
   const tagDistribution: { [tag: string]: number } = {};
   const complexityDistribution: { [complexity: string]: number } = {};
   const responseCodeDistribution: { [code: string]: number } = {};
+  const kindDistribution: { [kind: string]: number } = {};
+  const extensionUsage: { [name: string]: number } = {};
+  const extensionValues: { [name: string]: { [value: string]: number } } = {};
   const securitySchemes = new Set<string>();
   const pathPatterns = new Set<string>();
   
@@ -15,6 +19,9 @@ export function generateAnalytics(endpoints: EndpointData[]): AnalyticsData {
     // Method distribution
     methodDistribution[endpoint.method] = (methodDistribution[endpoint.method] || 0) + 1;
 
+    // Kind distribution (operations, callbacks, webhooks)
+    kindDistribution[endpoint.kind] = (kindDistribution[endpoint.kind] || 0) + 1;
+
     // Tag distribution
     endpoint.tags.forEach(tag => {
       tagDistribution[tag] = (tagDistribution[tag] || 0) + 1;
@@ -38,9 +45,9 @@ export function generateAnalytics(endpoints: EndpointData[]): AnalyticsData {
       });
     }
 
-    // Path patterns
+    // Path patterns (webhook names and callback expressions aren't paths)
     const pathSegments = endpoint.path.split('/').filter(Boolean);
-    if (pathSegments.length > 0) {
+    if (endpoint.kind === 'operation' && pathSegments.length > 0) {
       // Extract base path pattern
       const basePattern = `/${pathSegments[0]}`;
       pathPatterns.add(basePattern);
@@ -57,6 +64,16 @@ export function generateAnalytics(endpoints: EndpointData[]): AnalyticsData {
 
     // Count parameters
     totalParameters += endpoint.parameters.length;
+
+    // Vendor extensions; object values are counted but not broken down
+    Object.entries(endpoint.extensions || {}).forEach(([name, value]) => {
+      extensionUsage[name] = (extensionUsage[name] || 0) + 1;
+      if (value === null || typeof value !== 'object') {
+        const values = extensionValues[name] = extensionValues[name] || {};
+        const key = formatExtensionValue(value);
+        values[key] = (values[key] || 0) + 1;
+      }
+    });
   });
 
   return {
@@ -68,6 +85,9 @@ export function generateAnalytics(endpoints: EndpointData[]): AnalyticsData {
     securitySchemes: Array.from(securitySchemes),
     averageParametersPerEndpoint: endpoints.length > 0 ? totalParameters / endpoints.length : 0,
     pathPatterns: Array.from(pathPatterns).slice(0, 20), // Limit to top 20 patterns
-    responseCodeDistribution
+    responseCodeDistribution,
+    kindDistribution,
+    extensionUsage,
+    extensionValues
   };
 }
\ No newline at end of file
@@ -0,0 +1,265 @@
+import path from 'node:path';
+import { compilePointer, escapePointerSegment, isReference, parsePointer, resolvePointer } from './ref-resolver.js';
+
+export type DocumentLoader = (location: string) => Promise<any>;
+
+export interface NodeOrigin {
+  source: string;
+  pointer: string;
+}
+
+export interface BundleResult {
+  document: any;
+  origins: SourceOrigins;
+  sources: string[];
+}
+
+// Maps pointers in the bundled document back to the file (or URL) they were
+// read from. Only subtree roots are stored; descendants inherit from the
+// closest recorded ancestor.
+export class SourceOrigins {
+  private entries = new Map<string, NodeOrigin>();
+
+  record(bundledPointer: string, origin: NodeOrigin) {
+    this.entries.set(bundledPointer, origin);
+  }
+
+  originOf(bundledPointer: string): NodeOrigin | undefined {
+    const segments = parsePointer(bundledPointer);
+
+    for (let length = segments.length; length >= 0; length--) {
+      const origin = this.entries.get(compilePointer(segments.slice(0, length)));
+      if (origin) {
+        const rest = segments.slice(length).map(segment => '/' + escapePointerSegment(segment)).join('');
+        return { source: origin.source, pointer: origin.pointer === '#' ? `#${rest}` : `${origin.pointer}${rest}` };
+      }
+    }
+
+    return undefined;
+  }
+
+  sources(): string[] {
+    return Array.from(new Set(Array.from(this.entries.values()).map(origin => origin.source)));
+  }
+
+  toJSON(): [string, NodeOrigin][] {
+    return Array.from(this.entries.entries());
+  }
+
+  static fromJSON(entries: [string, NodeOrigin][]): SourceOrigins {
+    const origins = new SourceOrigins();
+    entries.forEach(([pointer, origin]) => origins.record(pointer, origin));
+    return origins;
+  }
+}
+
+const OPENAPI3_SECTIONS: { [section: string]: string } = {
+  schemas: 'components/schemas',
+  parameters: 'components/parameters',
+  responses: 'components/responses',
+  requestBodies: 'components/requestBodies',
+  headers: 'components/headers',
+  examples: 'components/examples',
+  links: 'components/links',
+  callbacks: 'components/callbacks',
+  securitySchemes: 'components/securitySchemes',
+};
+
+const SWAGGER2_SECTIONS: { [section: string]: string } = {
+  schemas: 'definitions',
+  parameters: 'parameters',
+  responses: 'responses',
+};
+
+export function isUrl(location: string): boolean {
+  return /^https?:\/\//i.test(location);
+}
+
+export function resolveLocation(base: string, relative: string): string {
+  if (isUrl(relative)) return relative;
+  // Inside a URL-loaded document, /schemas/pet.yaml is relative to its host, not the local disk
+  if (isUrl(base)) return new URL(relative, base).toString();
+  if (path.isAbsolute(relative)) return relative;
+  return path.resolve(path.dirname(base), relative);
+}
+
+// Inlines every external (file or URL) $ref into a single document. Targets
+// that belong in a reusable section (schemas, parameters, responses, ...) are
+// hoisted under components with a generated name and referenced locally;
+// path items are inlined in place.
+export class SpecBundler {
+  private documents = new Map<string, any>();
+  private hoisted = new Map<string, string>();
+  private inlining: string[] = [];
+  private origins = new SourceOrigins();
+  private components: any = {};
+  private root: any;
+  private rootLocation = '';
+  private sections: { [section: string]: string } = OPENAPI3_SECTIONS;
+
+  constructor(private loader: DocumentLoader) {}
+
+  async bundle(rootLocation: string, rootDocument?: any): Promise<BundleResult> {
+    this.rootLocation = rootLocation;
+    this.root = rootDocument ?? await this.load(rootLocation);
+    this.documents.set(rootLocation, this.root);
+    this.sections = this.root?.swagger ? SWAGGER2_SECTIONS : OPENAPI3_SECTIONS;
+    this.origins.record('#', { source: rootLocation, pointer: '#' });
+
+    // Component entries that are themselves external refs keep their own name
+    Object.values(this.sections).forEach(sectionPath => {
+      const keys = sectionPath.split('/');
+      Object.entries(this.getIn(this.root, keys) || {}).forEach(([name, entry]: [string, any]) => {
+        const [file, fragment = ''] = isReference(entry) ? entry.$ref.split('#') : [''];
+        if (file) {
+          this.hoisted.set(`${resolveLocation(rootLocation, file)}#${fragment}`, compilePointer([...keys, name]));
+        }
+      });
+    });
+
+    const document = await this.walk(this.root, rootLocation, []);
+
+    // Merge hoisted targets into the bundle's own reusable sections
+    Object.values(this.sections).forEach(sectionPath => {
+      const keys = sectionPath.split('/');
+      const hoisted = this.getIn(this.components, keys);
+      if (hoisted) {
+        this.setIn(document, keys, { ...this.getIn(document, keys), ...hoisted });
+      }
+    });
+
+    return { document, origins: this.origins, sources: this.origins.sources() };
+  }
+
+  private async load(location: string): Promise<any> {
+    if (!this.documents.has(location)) {
+      this.documents.set(location, await this.loader(location));
+    }
+    return this.documents.get(location);
+  }
+
+  private async walk(node: any, location: string, keys: string[]): Promise<any> {
+    if (!node || typeof node !== 'object') return node;
+
+    if (Array.isArray(node)) {
+      const items = [];
+      for (let index = 0; index < node.length; index++) {
+        items.push(await this.walk(node[index], location, [...keys, String(index)]));
+      }
+      return items;
+    }
+
+    if (isReference(node)) {
+      const [file, fragment = ''] = node.$ref.split('#');
+      // Local refs in the root document already point into the bundle
+      if (!file && location === this.rootLocation) return { ...node };
+
+      const target = file ? resolveLocation(location, file) : location;
+      return this.resolveExternal(node, target, `#${fragment}`, keys);
+    }
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = await this.walk(value, location, [...keys, key]);
+    }
+    return result;
+  }
+
+  private async resolveExternal(reference: any, location: string, pointer: string, keys: string[]): Promise<any> {
+    const targetKey = `${location}${pointer}`;
+    const section = this.sectionFor(keys);
+
+    // A component entry that is itself an external ref takes the target's place
+    if (this.hoisted.get(targetKey) === compilePointer(keys)) {
+      const document = await this.load(location);
+      this.origins.record(compilePointer(keys), { source: location, pointer });
+      return this.walk(resolvePointer(document, pointer), location, keys);
+    }
+
+    if (section) {
+      const existing = this.hoisted.get(targetKey);
+      if (existing) return { $ref: existing };
+
+      const name = this.uniqueName(section, location, pointer);
+      const sectionPath = this.sections[section].split('/');
+      const ref = compilePointer([...sectionPath, name]);
+      this.hoisted.set(targetKey, ref);
+
+      const document = await this.load(location);
+      const target = resolvePointer(document, pointer);
+      this.origins.record(ref, { source: location, pointer });
+
+      const bundled = await this.walk(target, location, [...sectionPath, name]);
+      this.setIn(this.components, [...sectionPath, name], bundled);
+      return { $ref: ref };
+    }
+
+    // Inline in place; a cycle back into a node that is still being inlined
+    // cannot be represented without a named component, so keep the external ref
+    if (this.inlining.includes(targetKey)) return { ...reference };
+
+    this.inlining.push(targetKey);
+    try {
+      const document = await this.load(location);
+      const target = resolvePointer(document, pointer);
+      this.origins.record(compilePointer(keys), { source: location, pointer });
+      const { $ref, ...siblings } = reference;
+      return { ...(await this.walk(target, location, keys)), ...siblings };
+    } finally {
+      this.inlining.pop();
+    }
+  }
+
+  // Decide which reusable section a reference belongs to from where it appears
+  private sectionFor(keys: string[]): string | null {
+    const key = keys[keys.length - 1];
+    const parent = keys[keys.length - 2];
+
+    if (parent === 'paths' || parent === 'webhooks' || keys[keys.length - 3] === 'callbacks') return null;
+    if (parent === 'components' || parent === undefined) return null;
+
+    let section = 'schemas';
+    if (parent === 'parameters') section = 'parameters';
+    else if (parent === 'responses') section = 'responses';
+    else if (key === 'requestBody') section = 'requestBodies';
+    else if (parent === 'headers') section = 'headers';
+    else if (parent === 'examples') section = 'examples';
+    else if (parent === 'links') section = 'links';
+    else if (parent === 'callbacks') section = 'callbacks';
+    else if (parent === 'securitySchemes') section = 'securitySchemes';
+
+    return this.sections[section] ? section : null;
+  }
+
+  private uniqueName(section: string, location: string, pointer: string): string {
+    const segments = parsePointer(pointer);
+    const base = (segments.length > 0
+      ? segments[segments.length - 1]
+      : path.basename(isUrl(location) ? new URL(location).pathname : location).replace(/\.(ya?ml|json)$/i, '')
+    ).replace(/[^A-Za-z0-9._-]/g, '_') || 'Component';
+
+    const sectionPath = this.sections[section].split('/');
+    const taken = (candidate: string) =>
+      this.getIn(this.root, [...sectionPath, candidate]) !== undefined ||
+      Array.from(this.hoisted.values()).includes(compilePointer([...sectionPath, candidate]));
+
+    let name = base;
+    for (let suffix = 2; taken(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    return name;
+  }
+
+  private getIn(target: any, keys: string[]): any {
+    return keys.reduce((current, key) => (current && typeof current === 'object' ? current[key] : undefined), target);
+  }
+
+  private setIn(target: any, keys: string[], value: any) {
+    let current = target;
+    keys.slice(0, -1).forEach(key => {
+      if (!current[key] || typeof current[key] !== 'object') current[key] = {};
+      current = current[key];
+    });
+    current[keys[keys.length - 1]] = value;
+  }
+}
@@ -0,0 +1,142 @@
+import { EndpointData, OpenAPISpec } from '../types/openapi.js';
+import { RefResolver } from './ref-resolver.js';
+
+export interface EndpointRef {
+  id: string;
+  method: string;
+  path: string;
+}
+
+export interface ChangedEndpoint extends EndpointRef {
+  // Which parts of the operation differ, e.g. ['parameters', 'responses']
+  fields: string[];
+}
+
+export interface EndpointChanges {
+  added: EndpointRef[];
+  removed: EndpointRef[];
+  changed: ChangedEndpoint[];
+}
+
+// Names of components.schemas entries that differ between versions
+export interface SchemaChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+// Parts of an endpoint compared between versions. Named schemas are
+// dereferenced first so an edit to a shared model shows up on every
+// operation that uses it.
+const COMPARED_FIELDS: (keyof EndpointData)[] = [
+  'summary',
+  'description',
+  'tags',
+  'deprecated',
+  'parameters',
+  'requestBody',
+  'responses',
+  'security',
+];
+
+function toRef(endpoint: EndpointData): EndpointRef {
+  return { id: endpoint.id, method: endpoint.method, path: endpoint.path };
+}
+
+function fingerprint(resolver: RefResolver, endpoint: EndpointData): { [field: string]: string } {
+  const result: { [field: string]: string } = {};
+  COMPARED_FIELDS.forEach(field => {
+    result[field] = JSON.stringify(resolver.dereference(endpoint[field] ?? null)) ?? '';
+  });
+  return result;
+}
+
+export function diffEndpoints(
+  previousSpec: OpenAPISpec,
+  previousEndpoints: EndpointData[],
+  nextSpec: OpenAPISpec,
+  nextEndpoints: EndpointData[]
+): EndpointChanges {
+  const previousResolver = new RefResolver(previousSpec);
+  const nextResolver = new RefResolver(nextSpec);
+  const previousById = new Map(previousEndpoints.map(endpoint => [endpoint.id, endpoint]));
+  const nextById = new Map(nextEndpoints.map(endpoint => [endpoint.id, endpoint]));
+
+  const changes: EndpointChanges = { added: [], removed: [], changed: [] };
+
+  nextEndpoints.forEach(endpoint => {
+    const previous = previousById.get(endpoint.id);
+    if (!previous) {
+      changes.added.push(toRef(endpoint));
+      return;
+    }
+
+    const before = fingerprint(previousResolver, previous);
+    const after = fingerprint(nextResolver, endpoint);
+    const fields = COMPARED_FIELDS.filter(field => before[field] !== after[field]);
+    if (fields.length > 0) {
+      changes.changed.push({ ...toRef(endpoint), fields });
+    }
+  });
+
+  previousEndpoints.forEach(endpoint => {
+    if (!nextById.has(endpoint.id)) {
+      changes.removed.push(toRef(endpoint));
+    }
+  });
+
+  return changes;
+}
+
+export function diffSchemas(previousSpec: OpenAPISpec, nextSpec: OpenAPISpec): SchemaChanges {
+  const previous = previousSpec.components?.schemas || {};
+  const next = nextSpec.components?.schemas || {};
+  const changes: SchemaChanges = { added: [], removed: [], changed: [] };
+
+  Object.keys(next).forEach(name => {
+    if (!(name in previous)) {
+      changes.added.push(name);
+    } else if (JSON.stringify(previous[name]) !== JSON.stringify(next[name])) {
+      changes.changed.push(name);
+    }
+  });
+  Object.keys(previous).forEach(name => {
+    if (!(name in next)) changes.removed.push(name);
+  });
+
+  return changes;
+}
+
+export function hasSchemaChanges(changes: SchemaChanges): boolean {
+  return changes.added.length > 0 || changes.removed.length > 0 || changes.changed.length > 0;
+}
+
+export function summarizeSchemaChanges(changes: SchemaChanges): string {
+  if (!hasSchemaChanges(changes)) {
+    return 'No schema changes';
+  }
+
+  const lines: string[] = [];
+  changes.added.forEach(name => lines.push(`+ ${name}`));
+  changes.removed.forEach(name => lines.push(`- ${name}`));
+  changes.changed.forEach(name => lines.push(`~ ${name}`));
+
+  return `Schemas: ${changes.added.length} added, ${changes.removed.length} removed, ${changes.changed.length} changed\n${lines.join('\n')}`;
+}
+
+export function hasEndpointChanges(changes: EndpointChanges): boolean {
+  return changes.added.length > 0 || changes.removed.length > 0 || changes.changed.length > 0;
+}
+
+export function summarizeEndpointChanges(changes: EndpointChanges): string {
+  if (!hasEndpointChanges(changes)) {
+    return 'No endpoint changes';
+  }
+
+  const lines: string[] = [];
+  changes.added.forEach(endpoint => lines.push(`+ ${endpoint.method} ${endpoint.path}`));
+  changes.removed.forEach(endpoint => lines.push(`- ${endpoint.method} ${endpoint.path}`));
+  changes.changed.forEach(endpoint => lines.push(`~ ${endpoint.method} ${endpoint.path} (${endpoint.fields.join(', ')})`));
+
+  return `${changes.added.length} added, ${changes.removed.length} removed, ${changes.changed.length} changed\n${lines.join('\n')}`;
+}
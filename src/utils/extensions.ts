@@ -0,0 +1,94 @@
+import { EndpointData } from '../types/openapi.js';
+
+// A search_endpoints extension filter, written as:
+//   x-internal          the extension is present
+//   !x-internal         the extension is absent
+//   x-internal=true     the extension equals a value (JSON, or a plain string)
+//   x-owner!=payments   the extension is absent or differs
+//   x-ratelimit.limit=100  a field inside an object-valued extension
+export interface ExtensionFilter {
+  name: string;
+  path: string[];
+  operator: 'present' | 'absent' | 'equals' | 'differs';
+  value?: any;
+}
+
+export function isExtensionKey(key: string): boolean {
+  return key.startsWith('x-');
+}
+
+export function getExtensions(node: any): { [name: string]: any } {
+  const extensions: { [name: string]: any } = {};
+  if (!node || typeof node !== 'object') return extensions;
+
+  Object.keys(node).filter(isExtensionKey).forEach(key => {
+    extensions[key] = node[key];
+  });
+  return extensions;
+}
+
+// Carries x- fields over to a converted object, except those the conversion
+// already turned into something else (e.g. x-nullable)
+export function copyExtensions<T>(source: any, target: T, consumed: string[] = []): T {
+  Object.entries(getExtensions(source)).forEach(([key, value]) => {
+    if (!consumed.includes(key)) (target as any)[key] = value;
+  });
+  return target;
+}
+
+export function formatExtensionValue(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function parseValue(raw: string): any {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+export function parseExtensionFilter(expression: string): ExtensionFilter {
+  const trimmed = expression.trim();
+  const match = /^(!?)(x-[^=!.\s]+)((?:\.[^=!\s]+)*)\s*(?:(!?=)\s*(.*))?$/.exec(trimmed);
+  if (!match) {
+    throw new Error(`Invalid extension filter "${expression}": expected x-name, !x-name, x-name=value or x-name!=value`);
+  }
+
+  const [, negated, name, path, operator, value] = match;
+  if (negated && operator) {
+    throw new Error(`Invalid extension filter "${expression}": use x-name!=value to exclude a value`);
+  }
+
+  return {
+    name,
+    path: path ? path.slice(1).split('.') : [],
+    operator: operator === '=' ? 'equals' : operator === '!=' ? 'differs' : negated ? 'absent' : 'present',
+    value: operator ? parseValue(value) : undefined,
+  };
+}
+
+function valuesMatch(actual: any, expected: any): boolean {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) return true;
+  // `x-version=2` also matches the string "2", and strings compare case-insensitively
+  return actual !== null && typeof actual !== 'object'
+    && String(actual).toLowerCase() === String(expected).toLowerCase();
+}
+
+export function matchesExtensionFilter(endpoint: EndpointData, filter: ExtensionFilter): boolean {
+  let value: any = endpoint.extensions?.[filter.name];
+  for (const key of filter.path) {
+    value = value && typeof value === 'object' ? value[key] : undefined;
+  }
+
+  switch (filter.operator) {
+    case 'present':
+      return value !== undefined;
+    case 'absent':
+      return value === undefined;
+    case 'equals':
+      return value !== undefined && valuesMatch(value, filter.value);
+    case 'differs':
+      return value === undefined || !valuesMatch(value, filter.value);
+  }
+}
@@ -0,0 +1,92 @@
+import { readdir, readFile, realpath, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+// Filenames checked, in order, when a directory is given as the spec source
+const SPEC_FILE_CANDIDATES = [
+  'openapi.yaml',
+  'openapi.yml',
+  'openapi.json',
+  'swagger.yaml',
+  'swagger.yml',
+  'swagger.json',
+  'api.yaml',
+  'api.yml',
+  'api.json',
+];
+
+const SPEC_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+// Directories specs may be read from. OPENAPI_SPEC_ROOTS holds a list separated
+// by the platform path delimiter; the working directory is used when unset.
+export function getAllowedRoots(): string[] {
+  const configured = process.env.OPENAPI_SPEC_ROOTS;
+  const roots = configured
+    ? configured.split(path.delimiter).map(root => root.trim()).filter(Boolean)
+    : [process.cwd()];
+
+  return roots.map(root => path.resolve(root));
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// Resolves symlinks before checking so a link inside a root can't escape it
+export async function assertPathAllowed(target: string, allowedRoots: string[] = getAllowedRoots()): Promise<string> {
+  let resolved: string;
+  try {
+    resolved = await realpath(path.resolve(target));
+  } catch {
+    throw new Error(`File not found: ${target}`);
+  }
+
+  const roots = await Promise.all(allowedRoots.map(root => realpath(root).catch(() => path.resolve(root))));
+  if (!roots.some(root => isWithin(root, resolved))) {
+    throw new Error(`Access denied: ${target} is outside the allowed spec directories (${allowedRoots.join(', ')}). Set OPENAPI_SPEC_ROOTS to allow other locations.`);
+  }
+
+  return resolved;
+}
+
+// Turns a file or directory path into the root spec file to load
+export async function resolveSpecPath(target: string, allowedRoots: string[] = getAllowedRoots()): Promise<string> {
+  const resolved = await assertPathAllowed(target, allowedRoots);
+  const info = await stat(resolved);
+
+  if (!info.isDirectory()) {
+    return resolved;
+  }
+
+  const entries = await readdir(resolved);
+
+  for (const candidate of SPEC_FILE_CANDIDATES) {
+    const match = entries.find(entry => entry.toLowerCase() === candidate);
+    if (match) {
+      return assertPathAllowed(path.join(resolved, match), allowedRoots);
+    }
+  }
+
+  // Fall back to any top-level YAML/JSON file that declares an openapi or swagger version
+  const detected: string[] = [];
+  for (const entry of entries.sort()) {
+    if (!SPEC_EXTENSIONS.includes(path.extname(entry).toLowerCase())) continue;
+
+    const filePath = path.join(resolved, entry);
+    if (!(await stat(filePath)).isFile()) continue;
+
+    const head = (await readFile(filePath, 'utf8')).slice(0, 2048);
+    if (/^\s*["']?(openapi|swagger)["']?\s*:/m.test(head)) {
+      detected.push(entry);
+    }
+  }
+
+  if (detected.length === 0) {
+    throw new Error(`No OpenAPI specification found in directory ${target}. Expected one of: ${SPEC_FILE_CANDIDATES.join(', ')}`);
+  }
+  if (detected.length > 1) {
+    throw new Error(`Multiple OpenAPI specifications found in directory ${target}: ${detected.join(', ')}. Please specify the file path.`);
+  }
+
+  return assertPathAllowed(path.join(resolved, detected[0]), allowedRoots);
+}
@@ -0,0 +1,471 @@
+import { OpenAPISpec, Operation, Parameter, Response, SecurityScheme, Server, ConversionWarning } from '../types/openapi.js';
+import { joinPointer } from './ref-resolver.js';
+import { inferSchema } from './schema-inference.js';
+
+export interface HarInferenceOptions {
+  title?: string;
+  // Only use requests to these hosts; by default every captured API request is used
+  hosts?: string[];
+}
+
+export interface HarInferenceResult {
+  spec: OpenAPISpec;
+  warnings: ConversionWarning[];
+}
+
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+// Sibling path segments with at least this many distinct values are treated
+// as a parameter even when the values don't look like identifiers
+const HIGH_CARDINALITY = 5;
+
+// Responses of these types are page assets, not API calls
+const ASSET_MEDIA_TYPE = /^(text\/html|text\/css|(application|text)\/(x-)?javascript|image\/|font\/|audio\/|video\/|application\/(font|wasm))/;
+const ASSET_EXTENSION = /\.(html?|css|m?js|map|png|jpe?g|gif|svg|ico|webp|woff2?|ttf|eot|mp4|webm)$/i;
+
+// Headers every browser or server sends, or that OpenAPI describes elsewhere
+const IGNORED_REQUEST_HEADERS = new Set([
+  'accept', 'accept-encoding', 'accept-language', 'authorization', 'cache-control', 'connection',
+  'content-length', 'content-type', 'cookie', 'dnt', 'host', 'if-modified-since', 'if-none-match',
+  'origin', 'pragma', 'referer', 'te', 'upgrade-insecure-requests', 'user-agent',
+]);
+const IGNORED_RESPONSE_HEADERS = new Set([
+  'connection', 'content-encoding', 'content-length', 'content-type', 'date', 'keep-alive',
+  'transfer-encoding', 'vary', 'set-cookie',
+]);
+
+// Values of these headers, query parameters and body fields are credentials and are not kept as examples
+const SENSITIVE_NAME = /auth|token|key|secret|session|cookie|password/i;
+const REDACTED = '<redacted>';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+// One captured request after filtering, with the pieces of its URL
+interface Sample {
+  method: string;
+  origin: string;
+  segments: string[];
+  query: HarHeader[];
+  requestHeaders: HarHeader[];
+  requestBody?: { mediaType: string; value: any; json: boolean };
+  status: number;
+  statusText: string;
+  responseHeaders: HarHeader[];
+  responseBody?: { mediaType: string; value: any; json: boolean };
+}
+
+export function isHarCapture(document: any): boolean {
+  return !!document && typeof document === 'object' && Array.isArray(document.log?.entries);
+}
+
+export function inferSpecFromHar(har: any, options: HarInferenceOptions = {}): HarInferenceResult {
+  return new HarInference(har, options).infer();
+}
+
+// Looks like a generated identifier rather than a fixed path word
+function isIdentifier(segment: string): boolean {
+  return /^\d+$/.test(segment)
+    || UUID.test(segment)
+    || /^[0-9a-f]{16,}$/i.test(segment)
+    || (segment.length >= 8 && /\d/.test(segment) && /[a-z]/i.test(segment) && /^[\w-]+$/.test(segment));
+}
+
+function mediaTypeOf(contentType: string | undefined): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+function headerValue(headers: HarHeader[], name: string): string | undefined {
+  return headers.find(header => header.name.toLowerCase() === name)?.value;
+}
+
+function readBody(text: string | undefined, mediaType: string, encoding?: string): { mediaType: string; value: any; json: boolean } | undefined {
+  if (!text) return undefined;
+
+  const content = encoding === 'base64' ? Buffer.from(text, 'base64').toString('utf8') : text;
+  if (mediaType.includes('json') || (!mediaType && /^\s*[[{]/.test(content))) {
+    try {
+      return { mediaType: mediaType || DEFAULT_MEDIA_TYPE, value: JSON.parse(content), json: true };
+    } catch {
+      // Fall through and keep the body as text
+    }
+  }
+  return { mediaType: mediaType || 'text/plain', value: content, json: false };
+}
+
+function singular(word: string): string {
+  if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+  if (/(ss|us)$/i.test(word)) return word;
+  return word.replace(/s$/i, '');
+}
+
+function camelCase(words: string[]): string {
+  return words
+    .map(word => word.replace(/[^A-Za-z0-9]+/g, ' ').trim())
+    .join(' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+// Schema for values that arrived as strings (path segments, query values, headers)
+function inferStringSchema(values: string[]): any {
+  if (values.length > 0 && values.every(value => /^-?\d+$/.test(value))) return { type: 'integer' };
+  if (values.length > 0 && values.every(value => /^-?\d*\.\d+$|^-?\d+$/.test(value))) return { type: 'number' };
+  if (values.length > 0 && values.every(value => value === 'true' || value === 'false')) return { type: 'boolean' };
+  if (values.length > 0 && values.every(value => UUID.test(value))) return { type: 'string', format: 'uuid' };
+  return { type: 'string' };
+}
+
+// Examples match the inferred type, e.g. 10 rather than "10"
+function typedExample(value: string, schema: any): any {
+  if (schema.type === 'integer' || schema.type === 'number') return Number(value);
+  if (schema.type === 'boolean') return value === 'true';
+  return value;
+}
+
+// Body fields named like credentials keep their place in the example but not their value
+function redactExample(value: any): any {
+  if (Array.isArray(value)) return value.map(redactExample);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([name, field]) => [
+    name,
+    SENSITIVE_NAME.test(name) && field !== null ? REDACTED : redactExample(field),
+  ]));
+}
+
+// Enums list observed values, so they go too for anything under a credential-like field
+function dropSensitiveEnums(schema: any, sensitive = false): any {
+  if (!schema || typeof schema !== 'object') return schema;
+  if (sensitive) delete schema.enum;
+  Object.entries(schema.properties || {}).forEach(([name, property]) => {
+    dropSensitiveEnums(property, sensitive || SENSITIVE_NAME.test(name));
+  });
+  dropSensitiveEnums(schema.items, sensitive);
+  (schema.anyOf || []).forEach((subschema: any) => dropSensitiveEnums(subschema, sensitive));
+  return schema;
+}
+
+class HarInference {
+  private warnings: ConversionWarning[] = [];
+
+  constructor(private har: any, private options: HarInferenceOptions) {}
+
+  infer(): HarInferenceResult {
+    const samples = this.collectSamples();
+    const templates = this.templatePaths(samples);
+
+    const origins = Array.from(new Set(samples.map(sample => sample.origin)));
+    const spec: OpenAPISpec = {
+      openapi: '3.0.3',
+      info: {
+        title: this.options.title || (origins.length === 1 ? `${new URL(origins[0]).host} (inferred)` : 'Inferred API'),
+        version: '1.0.0',
+        description: `Inferred from ${samples.length} captured request(s)`,
+      },
+      paths: {},
+    };
+
+    if (origins.length > 0) {
+      spec.servers = origins.map(url => ({ url }) as Server);
+    }
+    if (origins.length > 1) {
+      this.warn('#/log/entries', `Requests went to ${origins.length} hosts; their paths were merged. Pass hosts to infer a spec for one host`);
+    }
+
+    // Group samples into operations by method and templated path
+    const operations = new Map<string, { path: string; method: string; names: string[]; samples: Sample[] }>();
+    samples.forEach((sample, index) => {
+      const { path, names } = templates[index];
+      const key = `${sample.method} ${path}`;
+      if (!operations.has(key)) operations.set(key, { path, method: sample.method, names, samples: [] });
+      operations.get(key)!.samples.push(sample);
+    });
+
+    const securitySchemes: { [name: string]: SecurityScheme } = {};
+    const tags = new Set<string>();
+    operations.forEach(({ path, method, names, samples: group }) => {
+      const operation = this.buildOperation(path, method, names, group, origins[0], securitySchemes);
+      operation.tags?.forEach(tag => tags.add(tag));
+      spec.paths[path] = spec.paths[path] || {};
+      (spec.paths[path] as any)[method] = operation;
+    });
+
+    if (tags.size > 0) spec.tags = Array.from(tags).sort().map(name => ({ name }));
+    if (Object.keys(securitySchemes).length > 0) spec.components = { securitySchemes };
+
+    return { spec, warnings: this.warnings };
+  }
+
+  private warn(pointer: string, message: string) {
+    this.warnings.push({ pointer, message });
+  }
+
+  private collectSamples(): Sample[] {
+    const hosts = (this.options.hosts || []).map(host => host.toLowerCase());
+    const samples: Sample[] = [];
+    let skippedAssets = 0;
+
+    (this.har.log.entries as any[]).forEach((entry, index) => {
+      const pointer = joinPointer('#/log/entries', index);
+      if (!entry?.request?.url || !entry.response) return;
+
+      let url: URL;
+      try {
+        url = new URL(entry.request.url);
+      } catch {
+        this.warn(pointer, `Skipped request with an invalid URL: ${entry.request.url}`);
+        return;
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+      let segments: string[];
+      try {
+        segments = url.pathname.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+      } catch {
+        this.warn(pointer, `Skipped request with an invalid percent-encoding in its path: ${entry.request.url}`);
+        return;
+      }
+      if (hosts.length > 0 && !hosts.includes(url.hostname.toLowerCase()) && !hosts.includes(url.host.toLowerCase())) return;
+
+      const responseContent = entry.response.content || {};
+      const responseType = mediaTypeOf(responseContent.mimeType || headerValue(entry.response.headers || [], 'content-type'));
+      if (ASSET_MEDIA_TYPE.test(responseType) || ASSET_EXTENSION.test(url.pathname)) {
+        skippedAssets++;
+        return;
+      }
+
+      // Status 0 means the request never completed (blocked, aborted or cached by the browser)
+      const status = Number(entry.response.status);
+      if (!status) return;
+
+      const requestHeaders: HarHeader[] = (entry.request.headers || []).filter((header: any) => header?.name && !header.name.startsWith(':'));
+      const postData = entry.request.postData;
+      let requestBody = postData ? readBody(postData.text, mediaTypeOf(postData.mimeType)) : undefined;
+      if (!requestBody && Array.isArray(postData?.params) && postData.params.length > 0) {
+        const value: { [name: string]: string } = {};
+        postData.params.forEach((param: any) => { value[param.name] = param.value ?? ''; });
+        requestBody = { mediaType: mediaTypeOf(postData.mimeType) || 'application/x-www-form-urlencoded', value, json: true };
+      }
+
+      samples.push({
+        method: String(entry.request.method || 'GET').toLowerCase(),
+        origin: url.origin,
+        segments,
+        query: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value })),
+        requestHeaders,
+        requestBody,
+        status,
+        statusText: entry.response.statusText || '',
+        responseHeaders: (entry.response.headers || []).filter((header: any) => header?.name),
+        responseBody: readBody(responseContent.text, responseType, responseContent.encoding),
+      });
+    });
+
+    if (skippedAssets > 0) {
+      this.warn('#/log/entries', `Skipped ${skippedAssets} request(s) for page assets (HTML, scripts, styles, images, fonts)`);
+    }
+    if (samples.length === 0) {
+      throw new Error('The HAR capture contains no API requests to infer a specification from');
+    }
+    return samples;
+  }
+
+  // Decide which segments are parameters. A segment is one when it looks like
+  // an identifier, or when many different values appear at the same position
+  // under the same parent.
+  private templatePaths(samples: Sample[]): { path: string; names: string[] }[] {
+    const variable = samples.map(sample => sample.segments.map(isIdentifier));
+
+    const maxDepth = Math.max(0, ...samples.map(sample => sample.segments.length));
+    for (let position = 0; position < maxDepth; position++) {
+      const siblings = new Map<string, Set<string>>();
+      const keyOf = (index: number) => {
+        const sample = samples[index];
+        const prefix = sample.segments.slice(0, position).map((segment, i) => variable[index][i] ? '{}' : segment).join('/');
+        return `${sample.origin} ${prefix} ${sample.segments.length - position}`;
+      };
+
+      samples.forEach((sample, index) => {
+        if (position >= sample.segments.length || variable[index][position]) return;
+        const key = keyOf(index);
+        if (!siblings.has(key)) siblings.set(key, new Set());
+        siblings.get(key)!.add(sample.segments[position]);
+      });
+
+      samples.forEach((sample, index) => {
+        if (position >= sample.segments.length) return;
+        if ((siblings.get(keyOf(index))?.size ?? 0) >= HIGH_CARDINALITY) {
+          variable[index][position] = true;
+        }
+      });
+    }
+
+    return samples.map((sample, index) => {
+      const names: string[] = [];
+      const parameterCount = variable[index].filter(Boolean).length;
+      const parts = sample.segments.map((segment, position) => {
+        if (!variable[index][position]) return segment;
+
+        const previous = position > 0 && !variable[index][position - 1] ? sample.segments[position - 1] : '';
+        let name = parameterCount === 1 || !previous ? 'id' : `${camelCase([singular(previous)])}Id`;
+        for (let suffix = 2; names.includes(name); suffix++) name = `id${suffix}`;
+        names.push(name);
+        return `{${name}}`;
+      });
+      return { path: '/' + parts.join('/'), names };
+    });
+  }
+
+  private buildOperation(
+    path: string,
+    method: string,
+    names: string[],
+    samples: Sample[],
+    defaultOrigin: string,
+    securitySchemes: { [name: string]: SecurityScheme }
+  ): Operation {
+    const literalWords = path.split('/').filter(segment => segment && !segment.startsWith('{'));
+    const tag = literalWords.find(word => !/^(api|rest|v\d+(\.\d+)*)$/i.test(word));
+
+    const operation: Operation = {
+      operationId: camelCase([method, ...literalWords, ...(names.length > 0 ? ['by', ...names] : [])]),
+      description: `Inferred from ${samples.length} captured request(s)`,
+      responses: {},
+    };
+    if (tag) operation.tags = [tag];
+
+    const origins = Array.from(new Set(samples.map(sample => sample.origin)));
+    if (origins.some(origin => origin !== defaultOrigin)) {
+      operation.servers = origins.map(url => ({ url }));
+    }
+
+    const parameters: Parameter[] = [];
+    const templateSegments = path.split('/').filter(Boolean);
+
+    names.forEach(name => {
+      const position = templateSegments.indexOf(`{${name}}`);
+      const values = samples.map(sample => sample.segments[position]);
+      const schema = inferStringSchema(values);
+      parameters.push({ name, in: 'path', required: true, schema, example: typedExample(values[0], schema) });
+    });
+
+    parameters.push(...this.observedParameters(samples, sample => sample.query, 'query'));
+    parameters.push(...this.observedParameters(
+      samples,
+      sample => sample.requestHeaders.filter(header => {
+        const lower = header.name.toLowerCase();
+        return !IGNORED_REQUEST_HEADERS.has(lower) && !lower.startsWith('sec-');
+      }),
+      'header'
+    ));
+    if (parameters.length > 0) operation.parameters = parameters;
+
+    const bodies = samples.filter(sample => sample.requestBody).map(sample => sample.requestBody!);
+    if (bodies.length > 0) {
+      operation.requestBody = { required: bodies.length === samples.length, content: this.buildContent(bodies) };
+    }
+
+    const security = this.inferSecurity(samples, securitySchemes);
+    if (security) operation.security = security;
+
+    const byStatus = new Map<number, Sample[]>();
+    samples.forEach(sample => {
+      if (!byStatus.has(sample.status)) byStatus.set(sample.status, []);
+      byStatus.get(sample.status)!.push(sample);
+    });
+
+    Array.from(byStatus.keys()).sort((a, b) => a - b).forEach(status => {
+      const group = byStatus.get(status)!;
+      const response: Response = { description: group.find(sample => sample.statusText)?.statusText || 'Observed response' };
+
+      const headers = this.observedParameters(
+        group,
+        sample => sample.responseHeaders.filter(header => !IGNORED_RESPONSE_HEADERS.has(header.name.toLowerCase())),
+        'header'
+      );
+      if (headers.length > 0) {
+        response.headers = {};
+        headers.forEach(({ name, required, schema, example }) => {
+          response.headers![name] = { required, schema, example };
+        });
+      }
+
+      const bodies = group.filter(sample => sample.responseBody).map(sample => sample.responseBody!);
+      if (bodies.length > 0) response.content = this.buildContent(bodies);
+
+      operation.responses[String(status)] = response;
+    });
+
+    return operation;
+  }
+
+  // Parameters seen across samples; required when every sample had them
+  private observedParameters(samples: Sample[], pick: (sample: Sample) => HarHeader[], location: 'query' | 'header'): Parameter[] {
+    const values = new Map<string, { name: string; values: string[]; seenIn: number }>();
+    samples.forEach(sample => {
+      const seen = new Set<string>();
+      pick(sample).forEach(({ name, value }) => {
+        const key = location === 'header' ? name.toLowerCase() : name;
+        if (!values.has(key)) values.set(key, { name, values: [], seenIn: 0 });
+        const entry = values.get(key)!;
+        entry.values.push(value);
+        if (!seen.has(key)) entry.seenIn++;
+        seen.add(key);
+      });
+    });
+
+    return Array.from(values.values()).map(({ name, values: observed, seenIn }) => {
+      const schema = inferStringSchema(observed);
+      return {
+        name,
+        in: location,
+        required: seenIn === samples.length,
+        schema,
+        ...(SENSITIVE_NAME.test(name) ? {} : { example: typedExample(observed[0], schema) }),
+      };
+    });
+  }
+
+  private buildContent(bodies: { mediaType: string; value: any; json: boolean }[]): { [mediaType: string]: any } {
+    const content: { [mediaType: string]: any } = {};
+    const byMediaType = new Map<string, typeof bodies>();
+    bodies.forEach(body => {
+      if (!byMediaType.has(body.mediaType)) byMediaType.set(body.mediaType, []);
+      byMediaType.get(body.mediaType)!.push(body);
+    });
+
+    byMediaType.forEach((group, mediaType) => {
+      const json = group.filter(body => body.json).map(body => body.value);
+      // A text body can't be redacted field by field, so it is only kept when nothing in it looks like a credential
+      content[mediaType] = json.length === group.length
+        ? { schema: dropSensitiveEnums(inferSchema(json)), example: redactExample(json[0]) }
+        : { schema: { type: 'string' }, ...(SENSITIVE_NAME.test(String(group[0].value)) ? {} : { example: group[0].value }) };
+    });
+    return content;
+  }
+
+  // Authorization headers become a bearer or basic scheme; their values are never copied
+  private inferSecurity(samples: Sample[], securitySchemes: { [name: string]: SecurityScheme }): { [name: string]: string[] }[] | undefined {
+    const authorization = samples.map(sample => headerValue(sample.requestHeaders, 'authorization')).find(Boolean);
+    if (!authorization) return undefined;
+
+    const scheme = authorization.split(' ')[0].toLowerCase();
+    if (scheme === 'bearer') {
+      securitySchemes.bearerAuth = { type: 'http', scheme: 'bearer' };
+      return [{ bearerAuth: [] }];
+    }
+    if (scheme === 'basic') {
+      securitySchemes.basicAuth = { type: 'http', scheme: 'basic' };
+      return [{ basicAuth: [] }];
+    }
+
+    securitySchemes.authorizationHeader = { type: 'apiKey', in: 'header', name: 'Authorization' };
+    return [{ authorizationHeader: [] }];
+  }
+}
@@ -1,83 +1,145 @@
+import { readFile } from 'node:fs/promises';
 import yaml from 'js-yaml';
-import { OpenAPISpec, EndpointData, Operation, Parameter, Response, RequestBody } from '../types/openapi.js';
+import { OpenAPISpec, EndpointData, EndpointKind, Operation, Parameter, Response, RequestBody, PathItem, ConversionWarning, SpecValidationError } from '../types/openapi.js';
+import { RefResolver, compilePointer, followPointer, isReference, joinPointer } from './ref-resolver.js';
+import { SpecBundler, SourceOrigins, NodeOrigin, isUrl } from './bundler.js';
+import { assertPathAllowed, getAllowedRoots, resolveSpecPath } from './file-access.js';
+import { convertSwagger2ToOpenAPI3 } from './swagger2-converter.js';
+import { convertPostmanCollection, isPostmanCollection } from './postman-converter.js';
+import { HarInferenceOptions, inferSpecFromHar, isHarCapture } from './har-inference.js';
+import { validateSpecDocument } from './spec-validator.js';
+import { SourceMap, SourceLocation } from './source-map.js';
+import { UrlFetchOptions, fetchUrl } from './url-access.js';
+import { OverlayActionResult, applyOverlay, isOverlayDocument } from './overlay.js';
+import { getExtensions, isExtensionKey } from './extensions.js';
+
+// Named schemas stay as $refs inside endpoint data: the schema tools resolve
+// them by name, and recursive models would otherwise be inlined repeatedly.
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+export interface ParseOptions {
+  // Reject documents that fail meta-schema validation instead of loading them
+  strict?: boolean;
+  // How URLs (the spec itself or external $refs) are fetched
+  fetch?: UrlFetchOptions;
+  // Expect a HAR capture and infer the spec from its requests
+  har?: HarInferenceOptions;
+  // Overlay documents applied, in order, each time the spec is (re)loaded
+  overlays?: any[];
+}
+
+// What the loaded document was written in before it was converted to OpenAPI 3
+export type SpecSourceFormat = 'openapi' | 'swagger2' | 'postman' | 'har';
+
+export const SOURCE_FORMAT_LABELS: { [format in SpecSourceFormat]: string } = {
+  openapi: 'OpenAPI',
+  swagger2: 'Swagger 2.0',
+  postman: 'Postman collection',
+  har: 'HAR capture',
+};
+
+// Everything needed to restore a parser without re-reading the spec's sources
+export interface ParserSnapshot {
+  spec: OpenAPISpec;
+  origins: [string, NodeOrigin][];
+  sourceMaps: [string, [string, number, number][]][];
+  conversionWarnings: ConversionWarning[];
+  validationErrors: SpecValidationError[];
+  sourceFormat: SpecSourceFormat;
+  remoteValidators?: [string, RemoteValidators][];
+  options?: ParseOptions;
+}
+
+// Validators from a fetched source, used to ask whether it changed since
+export interface RemoteValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// Collected while one spec is read, and kept only if the load succeeds
+interface LoadState {
+  sourceMaps: Map<string, SourceMap>;
+  remoteValidators: Map<string, RemoteValidators>;
+  options: ParseOptions;
+  // Origin of the spec URL; the only one configured credential headers are sent to
+  credentialsOrigin?: string;
+}
+
+const ACCEPT_HEADER = 'application/json, application/yaml, text/yaml, text/plain';
+
+// How many validation errors to list when a strict load is rejected
+const MAX_REPORTED_ERRORS = 20;
+
+// Source name reported for specs passed in as text
+const TEXT_SOURCE = '<input>';
+
+// Where the reusable sections of a converted Swagger 2.0 document were written
+const SWAGGER2_LOCATIONS: [string, string][] = [
+  ['#/components/schemas/', '#/definitions/'],
+  ['#/components/parameters/', '#/parameters/'],
+  ['#/components/responses/', '#/responses/'],
+  ['#/components/securitySchemes/', '#/securityDefinitions/'],
+];
+
+interface EndpointContext {
+  kind: EndpointKind;
+  pointer: string;
+  parentId?: string;
+  callbackName?: string;
+  webhookName?: string;
+}
 
 export class OpenAPIParser {
   private spec: OpenAPISpec | null = null;
+  private origins: SourceOrigins | null = null;
+  private conversionWarnings: ConversionWarning[] = [];
+  private validationErrors: SpecValidationError[] = [];
+  private sourceMaps = new Map<string, SourceMap>();
+  private sourceFormat: SpecSourceFormat = 'openapi';
+  private remoteValidators = new Map<string, RemoteValidators>();
+  private options: ParseOptions = {};
+
+  async parseFromText(content: string, options: ParseOptions = {}): Promise<OpenAPISpec> {
+    const state = this.createLoadState(options);
+    const spec = this.finalizeSpec(this.parseDocument(content, TEXT_SOURCE, state), options);
+    const origins = new SourceOrigins();
+    origins.record('#', { source: TEXT_SOURCE, pointer: '#' });
+    this.commitLoadState(origins, state);
+    return spec;
+  }
 
-  async parseFromText(content: string): Promise<OpenAPISpec> {
-    try {
-      // Try JSON first
-      this.spec = JSON.parse(content);
-    } catch {
+  async parseFromFile(filePath: string, options: ParseOptions = {}, allowedRoots: string[] = getAllowedRoots()): Promise<OpenAPISpec> {
+    const rootLocation = await resolveSpecPath(filePath, allowedRoots);
+    const state = this.createLoadState(options);
+    const bundler = new SpecBundler(async location => {
+      if (isUrl(location)) {
+        return this.fetchDocument(location, state);
+      }
+      // Referenced files are subject to the same directory allowlist as the root
+      const allowed = await assertPathAllowed(location, allowedRoots);
+      let content: string;
       try {
-        // Try YAML
-        this.spec = yaml.load(content) as OpenAPISpec;
+        content = await readFile(allowed, 'utf8');
       } catch (error) {
-        throw new Error('Invalid OpenAPI specification format. Please provide valid JSON or YAML.');
+        throw new Error(`Unable to read ${location}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
-    }
-
-    if (!this.spec) {
-      throw new Error('Invalid specification format.');
-    }
-
-    // Check if it's Swagger 2.0 and convert to OpenAPI 3.0
-    if ((this.spec as any).swagger && (this.spec as any).swagger.startsWith('2.')) {
-      this.spec = this.convertSwagger2ToOpenAPI3(this.spec as any);
-    } else if (!this.spec.openapi) {
-      throw new Error('Invalid OpenAPI specification. Missing openapi version.');
-    }
-
-    return this.spec;
-  }
+      return this.parseDocument(content, location, state);
+    });
 
-  async parseFromFile(file: File): Promise<OpenAPISpec> {
-    const content = await file.text();
-    return this.parseFromText(content);
+    const { document, origins } = await bundler.bundle(rootLocation);
+    const spec = this.finalizeSpec(document, options);
+    this.commitLoadState(origins, state);
+    return spec;
   }
 
-  async parseFromUrl(url: string): Promise<OpenAPISpec> {
+  async parseFromUrl(url: string, options: ParseOptions = {}): Promise<OpenAPISpec> {
     try {
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json, application/yaml, text/yaml, text/plain',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch OpenAPI spec: ${response.status} ${response.statusText}`);
-      }
-
-      const contentType = response.headers.get('content-type') || '';
-      const content = await response.text();
-
-      // Determine if the response is JSON or YAML based on content type or content
-      if (contentType.includes('application/json') || content.trim().startsWith('{')) {
-        try {
-          this.spec = JSON.parse(content);
-        } catch (error) {
-          throw new Error('Invalid JSON format in the fetched specification.');
-        }
-      } else {
-        try {
-          this.spec = yaml.load(content) as OpenAPISpec;
-        } catch (error) {
-          throw new Error('Invalid YAML format in the fetched specification.');
-        }
-      }
-
-      if (!this.spec) {
-        throw new Error('Invalid specification format.');
-      }
-
-      // Check if it's Swagger 2.0 and convert to OpenAPI 3.0
-      if ((this.spec as any).swagger && (this.spec as any).swagger.startsWith('2.')) {
-        this.spec = this.convertSwagger2ToOpenAPI3(this.spec as any);
-      } else if (!this.spec.openapi) {
-        throw new Error('Invalid OpenAPI specification. Missing openapi version.');
-      }
-
-      return this.spec;
+      const state = this.createLoadState(options, new URL(url).origin);
+      const bundler = new SpecBundler(location => this.fetchDocument(location, state));
+      const { document, origins } = await bundler.bundle(url, await this.fetchDocument(url, state));
+      const spec = this.finalizeSpec(document, options);
+      this.commitLoadState(origins, state);
+      return spec;
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -86,230 +148,223 @@ export class OpenAPIParser {
     }
   }
 
-  private convertSwagger2ToOpenAPI3(swagger2: any): OpenAPISpec {
-    const openapi3: OpenAPISpec = {
-      openapi: '3.0.0',
-      info: {
-        title: swagger2.info?.title || 'API',
-        version: swagger2.info?.version || '1.0.0',
-        description: swagger2.info?.description,
-        termsOfService: swagger2.info?.termsOfService,
-        contact: swagger2.info?.contact,
-        license: swagger2.info?.license
-      },
-      paths: {}
+  snapshot(): ParserSnapshot | null {
+    if (!this.spec) return null;
+
+    return {
+      spec: this.spec,
+      origins: this.origins ? this.origins.toJSON() : [],
+      sourceMaps: Array.from(this.sourceMaps.entries()).map(([source, map]) => [source, map.toJSON()]),
+      conversionWarnings: this.conversionWarnings,
+      validationErrors: this.validationErrors,
+      sourceFormat: this.sourceFormat,
+      remoteValidators: Array.from(this.remoteValidators.entries()),
+      options: this.options,
     };
+  }
 
-    // Convert servers
-    if (swagger2.host || swagger2.basePath) {
-      const protocol = swagger2.schemes?.[0] || 'https';
-      const host = swagger2.host || 'localhost';
-      const basePath = swagger2.basePath || '';
-      openapi3.servers = [{
-        url: `${protocol}://${host}${basePath}`,
-        description: 'Converted from Swagger 2.0'
-      }];
-    }
+  restore(snapshot: ParserSnapshot): OpenAPISpec {
+    this.spec = snapshot.spec;
+    this.origins = SourceOrigins.fromJSON(snapshot.origins);
+    this.sourceMaps = new Map(snapshot.sourceMaps.map(([source, entries]) => [source, SourceMap.fromJSON(entries)]));
+    this.conversionWarnings = snapshot.conversionWarnings;
+    this.validationErrors = snapshot.validationErrors;
+    this.sourceFormat = snapshot.sourceFormat;
+    this.remoteValidators = new Map(snapshot.remoteValidators || []);
+    this.options = snapshot.options || {};
+    return snapshot.spec;
+  }
 
-    // Convert tags
-    if (swagger2.tags) {
-      openapi3.tags = swagger2.tags;
-    }
+  // The options of the last load, so a reload or refresh reuses them
+  getParseOptions(): ParseOptions {
+    return this.options;
+  }
 
-    // Convert paths
-    if (swagger2.paths) {
-      Object.entries(swagger2.paths).forEach(([path, pathItem]: [string, any]) => {
-        const convertedPathItem: any = {};
+  // Ask each remote source whether it changed since it was fetched, using its
+  // ETag/Last-Modified. A source served without either always counts as changed.
+  async hasRemoteChanges(): Promise<boolean> {
+    const root = this.origins?.originOf('#')?.source;
+    const credentialsOrigin = root && isUrl(root) ? new URL(root).origin : undefined;
 
-        // Convert operations
-        ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].forEach(method => {
-          if (pathItem[method]) {
-            convertedPathItem[method] = this.convertSwagger2Operation(pathItem[method], swagger2.definitions);
-          }
-        });
+    for (const url of this.getSources().filter(isUrl)) {
+      const validators = this.remoteValidators.get(url);
+      if (!validators?.etag && !validators?.lastModified) return true;
 
-        // Convert path-level parameters
-        if (pathItem.parameters) {
-          convertedPathItem.parameters = pathItem.parameters.map((param: any) => 
-            this.convertSwagger2Parameter(param, swagger2.definitions)
-          );
-        }
+      const headers: { [name: string]: string } = {};
+      if (validators.etag) headers['If-None-Match'] = validators.etag;
+      if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
 
-        openapi3.paths[path] = convertedPathItem;
-      });
+      const response = await fetchUrl(url, this.options.fetch, { 'Accept': ACCEPT_HEADER, ...headers }, credentialsOrigin);
+      if (response.status !== 304) return true;
     }
+    return false;
+  }
 
-    // Convert definitions to components/schemas
-    if (swagger2.definitions) {
-      openapi3.components = {
-        schemas: this.convertSwagger2Definitions(swagger2.definitions)
-      };
-    }
+  private createLoadState(options: ParseOptions, credentialsOrigin?: string): LoadState {
+    return { sourceMaps: new Map(), remoteValidators: new Map(), options, credentialsOrigin };
+  }
 
-    return openapi3;
+  private commitLoadState(origins: SourceOrigins, state: LoadState) {
+    this.origins = origins;
+    this.sourceMaps = state.sourceMaps;
+    this.remoteValidators = state.remoteValidators;
+    this.options = state.options;
   }
 
-  private convertSwagger2Operation(operation: any, definitions: any): Operation {
-    const converted: Operation = {
-      summary: operation.summary,
-      description: operation.description,
-      operationId: operation.operationId,
-      tags: operation.tags,
-      deprecated: operation.deprecated,
-      responses: {}
-    };
+  private async fetchDocument(url: string, state?: LoadState): Promise<any> {
+    const response = await fetchUrl(url, state?.options.fetch, { 'Accept': ACCEPT_HEADER }, state?.credentialsOrigin);
 
-    // Convert parameters
-    if (operation.parameters) {
-      const convertedParams: Parameter[] = [];
-      let requestBody: any = null;
-
-      operation.parameters.forEach((param: any) => {
-        if (param.in === 'body') {
-          // Convert body parameter to requestBody
-          requestBody = {
-            description: param.description,
-            required: param.required,
-            content: {
-              'application/json': {
-                schema: this.convertSwagger2Schema(param.schema, definitions)
-              }
-            }
-          };
-        } else if (param.in === 'formData') {
-          // Convert formData to requestBody
-          if (!requestBody) {
-            requestBody = {
-              content: {
-                'application/x-www-form-urlencoded': {
-                  schema: {
-                    type: 'object',
-                    properties: {}
-                  }
-                }
-              }
-            };
-          }
-          requestBody.content['application/x-www-form-urlencoded'].schema.properties[param.name] = {
-            type: param.type,
-            description: param.description
-          };
-        } else {
-          // Regular parameter
-          convertedParams.push(this.convertSwagger2Parameter(param, definitions));
-        }
-      });
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Failed to fetch OpenAPI spec: ${response.status} ${response.statusText}`);
+    }
 
-      if (convertedParams.length > 0) {
-        converted.parameters = convertedParams;
-      }
-      if (requestBody) {
-        converted.requestBody = requestBody;
-      }
+    const contentType = response.headers.get('content-type') || '';
+    const content = response.content;
+    state?.sourceMaps.set(url, SourceMap.fromText(content));
+
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+    if (etag || lastModified) {
+      state?.remoteValidators.set(url, { etag: etag || undefined, lastModified: lastModified || undefined });
     }
 
-    // Convert responses
-    if (operation.responses) {
-      Object.entries(operation.responses).forEach(([code, response]: [string, any]) => {
-        converted.responses[code] = this.convertSwagger2Response(response, definitions);
-      });
+    // Determine if the response is JSON or YAML based on content type or content
+    if (contentType.includes('application/json') || content.trim().startsWith('{')) {
+      try {
+        return JSON.parse(content);
+      } catch (error) {
+        throw new Error('Invalid JSON format in the fetched specification.');
+      }
     }
 
-    return converted;
+    try {
+      return yaml.load(content);
+    } catch (error) {
+      throw new Error('Invalid YAML format in the fetched specification.');
+    }
   }
 
-  private convertSwagger2Parameter(param: any, definitions: any): Parameter {
-    const converted: Parameter = {
-      name: param.name,
-      in: param.in as any,
-      description: param.description,
-      required: param.required,
-      deprecated: param.deprecated
-    };
-
-    if (param.schema) {
-      converted.schema = this.convertSwagger2Schema(param.schema, definitions);
-    } else {
-      // Convert simple parameter to schema
-      converted.schema = {
-        type: param.type,
-        format: param.format,
-        enum: param.enum,
-        default: param.default
-      };
+  private parseDocument(content: string, location?: string, state?: LoadState): any {
+    if (location && state) {
+      state.sourceMaps.set(location, SourceMap.fromText(content));
     }
 
-    return converted;
+    try {
+      // Try JSON first
+      return JSON.parse(content);
+    } catch {
+      try {
+        // Try YAML
+        return yaml.load(content);
+      } catch (error) {
+        throw new Error('Invalid OpenAPI specification format. Please provide valid JSON or YAML.');
+      }
+    }
   }
 
-  private convertSwagger2Response(response: any, definitions: any): Response {
-    const converted: Response = {
-      description: response.description || 'Response'
-    };
+  // Validates and normalizes a parsed document. Parser state is only replaced
+  // once the document is accepted, so a rejected load keeps the previous spec.
+  private finalizeSpec(document: any, options: ParseOptions = {}): OpenAPISpec {
+    if (!document || typeof document !== 'object') {
+      throw new Error('Invalid specification format.');
+    }
 
-    if (response.schema) {
-      converted.content = {
-        'application/json': {
-          schema: this.convertSwagger2Schema(response.schema, definitions)
-        }
-      };
+    let spec = document as OpenAPISpec;
+    let conversionWarnings: ConversionWarning[] = [];
+    let sourceFormat: SpecSourceFormat = 'openapi';
+
+    // Postman collections and HAR captures have no OpenAPI schema to check,
+    // so they are converted first and the result is validated instead
+    if (options.har) {
+      if (!isHarCapture(document)) {
+        throw new Error('Not a HAR capture: expected a log.entries array');
+      }
+      ({ spec, warnings: conversionWarnings } = inferSpecFromHar(document, options.har));
+      sourceFormat = 'har';
+    } else if (isPostmanCollection(document)) {
+      ({ spec, warnings: conversionWarnings } = convertPostmanCollection(document));
+      sourceFormat = 'postman';
     }
 
-    if (response.headers) {
-      converted.headers = response.headers;
+    // Validate the document as written, before any Swagger 2.0 conversion
+    const validationErrors = validateSpecDocument(spec);
+    if (options.strict && validationErrors.length > 0) {
+      const listed = validationErrors.slice(0, MAX_REPORTED_ERRORS).map(error => `- ${error.pointer}: ${error.message}`);
+      if (validationErrors.length > MAX_REPORTED_ERRORS) {
+        listed.push(`- ...and ${validationErrors.length - MAX_REPORTED_ERRORS} more`);
+      }
+      throw new Error(`Specification failed schema validation with ${validationErrors.length} error(s):\n${listed.join('\n')}`);
     }
 
-    return converted;
-  }
+    // Check if it's Swagger 2.0 and convert to OpenAPI 3.0
+    if (!!(spec as any).swagger && String((spec as any).swagger).startsWith('2.')) {
+      ({ spec, warnings: conversionWarnings } = convertSwagger2ToOpenAPI3(spec));
+      sourceFormat = 'swagger2';
+    } else if (!spec.openapi) {
+      throw new Error('Invalid OpenAPI specification. Missing openapi version.');
+    }
 
-  private convertSwagger2Schema(schema: any, definitions: any): any {
-    if (!schema) return {};
+    // An unquoted YAML version such as `openapi: 3.1` is read as a number
+    spec.openapi = String(spec.openapi);
 
-    if (schema.$ref) {
-      // Convert reference
-      const refName = schema.$ref.replace('#/definitions/', '');
-      return { $ref: `#/components/schemas/${refName}` };
-    }
+    (options.overlays || []).forEach(overlay => {
+      spec = applyOverlay(spec, overlay).document;
+    });
+    this.fillDefaults(spec);
 
-    const converted: any = {
-      type: schema.type,
-      format: schema.format,
-      description: schema.description,
-      enum: schema.enum,
-      default: schema.default,
-      example: schema.example
-    };
+    this.spec = spec;
+    this.conversionWarnings = conversionWarnings;
+    this.validationErrors = validationErrors;
+    this.sourceFormat = sourceFormat;
+    return spec;
+  }
 
-    if (schema.items) {
-      converted.items = this.convertSwagger2Schema(schema.items, definitions);
+  // Fill in what the tools rely on so a structurally invalid document that
+  // was loaded leniently doesn't crash them later
+  private fillDefaults(spec: OpenAPISpec) {
+    if (!spec.info || typeof spec.info !== 'object') {
+      spec.info = { title: 'Untitled API', version: 'unknown' };
     }
 
-    if (schema.properties) {
-      converted.properties = {};
-      Object.entries(schema.properties).forEach(([key, prop]: [string, any]) => {
-        converted.properties[key] = this.convertSwagger2Schema(prop, definitions);
-      });
+    // 3.1 documents may describe only webhooks or components
+    if (!spec.paths || typeof spec.paths !== 'object') {
+      spec.paths = {};
     }
+  }
 
-    if (schema.required) {
-      converted.required = schema.required;
+  // Applies an overlay to the loaded spec and keeps it in the parse options,
+  // so reloading or re-fetching the spec applies it again
+  async applyOverlay(source: string, sourceType: 'text' | 'url' | 'file' = 'file', allowedRoots: string[] = getAllowedRoots()): Promise<OverlayActionResult[]> {
+    if (!this.spec) {
+      throw new Error('No OpenAPI specification loaded. Please load a spec first.');
     }
 
-    if (schema.allOf) {
-      converted.allOf = schema.allOf.map((s: any) => this.convertSwagger2Schema(s, definitions));
+    let overlay: any;
+    if (sourceType === 'url') {
+      // Without a credentials origin the spec's credential headers are never sent
+      overlay = await this.fetchDocument(source, this.createLoadState(this.options));
+    } else if (sourceType === 'file') {
+      const allowed = await assertPathAllowed(source, allowedRoots);
+      let content: string;
+      try {
+        content = await readFile(allowed, 'utf8');
+      } catch (error) {
+        throw new Error(`Unable to read ${source}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      overlay = this.parseDocument(content);
+    } else {
+      overlay = this.parseDocument(source);
     }
 
-    return converted;
-  }
-
-  private convertSwagger2Definitions(definitions: any): any {
-    const converted: any = {};
-    
-    Object.entries(definitions).forEach(([key, definition]: [string, any]) => {
-      converted[key] = this.convertSwagger2Schema(definition, definitions);
-    });
+    if (!isOverlayDocument(overlay)) {
+      throw new Error('Not an OpenAPI Overlay document: expected `overlay` and `actions` fields');
+    }
 
-    return converted;
+    const { document, actions } = applyOverlay(this.spec, overlay);
+    this.fillDefaults(document);
+    this.spec = document;
+    this.options = { ...this.options, overlays: [...(this.options.overlays || []), overlay] };
+    return actions;
   }
 
   extractEndpoints(): EndpointData[] {
@@ -317,52 +372,112 @@ export class OpenAPIParser {
 
     const endpoints: EndpointData[] = [];
     const paths = this.spec.paths;
+    const resolver = new RefResolver(this.spec);
 
-    Object.entries(paths).forEach(([path, pathItem]) => {
-      const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
-      
-      methods.forEach(method => {
-        const operation = pathItem[method as keyof typeof pathItem] as Operation;
-        if (!operation) return;
-
-        const parameters = this.extractParameters((operation as any).parameters || [], (pathItem as any).parameters || []);
-        const pathSegments = path.split('/').filter(Boolean);
-        const hasPathParams = path.includes('{');
-        const hasQueryParams = parameters.some(p => p.in === 'query');
-        const hasRequestBody = !!operation.requestBody;
-        const responseTypes = Object.keys(operation.responses || {});
-
-        const endpoint: EndpointData = {
-          id: `${method.toUpperCase()}_${path.replace(/[^a-zA-Z0-9]/g, '_')}`,
-          path,
-          method: method.toUpperCase(),
-          operation,
-          tags: operation.tags || [],
-          summary: operation.summary,
-          description: operation.description,
-          parameters,
-          requestBody: operation.requestBody as RequestBody,
-          responses: this.extractResponses(operation.responses),
-          deprecated: operation.deprecated || false,
-          businessContext: this.generateBusinessContext(operation),
-          aiSuggestions: this.generateAISuggestions(operation, path, method),
-          complexity: this.calculateComplexity(operation, parameters, hasRequestBody),
-          security: operation.security,
-          pathSegments,
-          hasPathParams,
-          hasQueryParams,
-          hasRequestBody,
-          responseTypes,
-          estimatedResponseTime: this.estimateResponseTime(operation, parameters, hasRequestBody)
-        };
-
-        endpoints.push(endpoint);
+    // Paths, callbacks and responses may carry x- fields next to their entries
+    Object.entries(paths).filter(([path]) => !isExtensionKey(path)).forEach(([path, rawPathItem]) => {
+      const pathItem = this.dereference<PathItem>(resolver, rawPathItem);
+      endpoints.push(...this.extractPathItem(path, pathItem, { kind: 'operation', pointer: compilePointer(['paths', path]) }));
+    });
+
+    // 3.1 webhooks are keyed by name rather than by path
+    Object.entries(this.spec.webhooks || {}).forEach(([name, rawPathItem]) => {
+      const pathItem = this.dereference<PathItem>(resolver, rawPathItem);
+      endpoints.push(...this.extractPathItem(name, pathItem, {
+        kind: 'webhook',
+        pointer: compilePointer(['webhooks', name]),
+        webhookName: name,
+      }));
+    });
+
+    return endpoints;
+  }
+
+  private extractPathItem(path: string, pathItem: PathItem, context: EndpointContext): EndpointData[] {
+    const endpoints: EndpointData[] = [];
+    const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
+
+    methods.forEach(method => {
+      const operation = pathItem[method as keyof typeof pathItem] as Operation;
+      if (!operation) return;
+
+      const endpoint = this.buildEndpoint(path, method, operation, pathItem, context);
+      endpoints.push(endpoint);
+
+      // Callbacks are path items keyed by a runtime expression, nested under the operation
+      Object.entries(operation.callbacks || {}).forEach(([callbackName, callback]) => {
+        if (isReference(callback)) return;
+        Object.entries(callback).filter(([expression]) => !isExtensionKey(expression)).forEach(([expression, callbackPathItem]) => {
+          endpoints.push(...this.extractPathItem(expression, callbackPathItem, {
+            kind: 'callback',
+            pointer: joinPointer(endpoint.pointer, 'callbacks', callbackName, expression),
+            parentId: endpoint.id,
+            callbackName,
+          }));
+        });
       });
     });
 
     return endpoints;
   }
 
+  private buildEndpoint(path: string, method: string, operation: Operation, pathItem: PathItem, context: EndpointContext): EndpointData {
+    const parameters = this.extractParameters(
+      Array.isArray(operation.parameters) ? operation.parameters : [],
+      Array.isArray(pathItem.parameters) ? pathItem.parameters : []
+    );
+    const pathSegments = path.split('/').filter(Boolean);
+    const hasPathParams = path.includes('{');
+    const hasQueryParams = parameters.some(p => p.in === 'query');
+    const hasRequestBody = !!operation.requestBody;
+    const responseTypes = Object.keys(operation.responses || {}).filter(code => !isExtensionKey(code));
+
+    const baseId = `${method.toUpperCase()}_${path.replace(/[^a-zA-Z0-9]/g, '_')}`;
+    let id = baseId;
+    if (context.kind === 'webhook') {
+      id = `WEBHOOK_${baseId}`;
+    } else if (context.kind === 'callback') {
+      id = `${context.parentId}_CALLBACK_${context.callbackName!.replace(/[^a-zA-Z0-9]/g, '_')}_${baseId}`;
+    }
+
+    return {
+      id,
+      kind: context.kind,
+      parentId: context.parentId,
+      callbackName: context.callbackName,
+      webhookName: context.webhookName,
+      pointer: joinPointer(context.pointer, method),
+      path,
+      method: method.toUpperCase(),
+      operation,
+      tags: Array.isArray(operation.tags) ? operation.tags : [],
+      summary: operation.summary,
+      description: operation.description,
+      parameters,
+      requestBody: operation.requestBody as RequestBody,
+      responses: this.extractResponses(operation.responses || {}),
+      deprecated: operation.deprecated || false,
+      businessContext: this.generateBusinessContext(operation),
+      aiSuggestions: this.generateAISuggestions(operation, path, method),
+      complexity: this.calculateComplexity(operation, parameters, hasRequestBody),
+      // Operation-level security overrides the document-wide default
+      security: operation.security ?? this.spec?.security,
+      pathSegments,
+      hasPathParams,
+      hasQueryParams,
+      hasRequestBody,
+      responseTypes,
+      estimatedResponseTime: this.estimateResponseTime(operation, parameters, hasRequestBody),
+      extensions: { ...getExtensions(pathItem), ...getExtensions(operation) },
+    };
+  }
+
+  private dereference<T>(resolver: RefResolver, value: any): T {
+    return resolver.dereference<T>(value, {
+      shouldResolve: ref => !ref.startsWith(SCHEMA_REF_PREFIX)
+    });
+  }
+
   private calculateComplexity(operation: Operation, parameters: Parameter[], hasRequestBody: boolean): 'low' | 'medium' | 'high' {
     let score = 0;
 
@@ -406,7 +521,7 @@ export class OpenAPIParser {
     // Search/filter operations might be slower
     if (operation.summary?.toLowerCase().includes('search') ||
         operation.summary?.toLowerCase().includes('filter') ||
-        parameters.some(p => p.name.toLowerCase().includes('search') || p.name.toLowerCase().includes('filter'))) {
+        parameters.some(p => p.name?.toLowerCase().includes('search') || p.name?.toLowerCase().includes('filter'))) {
       score += 1;
     }
 
@@ -416,26 +531,29 @@ export class OpenAPIParser {
   }
 
   private extractParameters(operationParams: any[], pathParams: any[]): Parameter[] {
-    const allParams = [...pathParams, ...operationParams];
-    return allParams.map(param => {
-      if (param.$ref) {
-        // Handle reference - would need to resolve from components
-        return param;
+    // Operation-level parameters override path-level ones with the same name and location
+    const merged = new Map<string, Parameter>();
+    const unresolved: Parameter[] = [];
+
+    [...pathParams, ...operationParams].forEach(param => {
+      if (!param || typeof param !== 'object') return;
+      if (isReference(param)) {
+        // Reference could not be resolved (external or dangling) - keep it visible
+        unresolved.push(param as unknown as Parameter);
+        return;
       }
-      return param as Parameter;
+      merged.set(`${param.in}:${param.name}`, param as Parameter);
     });
+
+    return [...merged.values(), ...unresolved];
   }
 
   private extractResponses(responses: any): { [key: string]: Response } {
     const result: { [key: string]: Response } = {};
-    
-    Object.entries(responses).forEach(([code, response]) => {
-      if ((response as any).$ref) {
-        // Handle reference
-        result[code] = response as Response;
-      } else {
-        result[code] = response as Response;
-      }
+    if (!responses || typeof responses !== 'object') return result;
+
+    Object.entries(responses).filter(([code]) => !isExtensionKey(code)).forEach(([code, response]) => {
+      result[code] = response as Response;
     });
 
     return result;
@@ -481,11 +599,12 @@ export class OpenAPIParser {
     }
 
     // Add parameter-based suggestions
-    if (operation.parameters?.some(p => (p as any).name?.toLowerCase().includes('limit'))) {
+    const parameters = Array.isArray(operation.parameters) ? operation.parameters : [];
+    if (parameters.some(p => (p as any)?.name?.toLowerCase().includes('limit'))) {
       suggestions.push('⚡ Supports pagination - great for performance');
     }
 
-    if (operation.parameters?.some(p => (p as any).name?.toLowerCase().includes('filter'))) {
+    if (parameters.some(p => (p as any)?.name?.toLowerCase().includes('filter'))) {
       suggestions.push('🎯 Supports filtering - perfect for search functionality');
     }
 
@@ -501,7 +620,7 @@ export class OpenAPIParser {
     this.spec.tags?.forEach(tag => tags.add(tag.name));
     
     // Get tags from operations
-    Object.values(this.spec.paths).forEach(pathItem => {
+    this.getPathItems().forEach(pathItem => {
       const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
       methods.forEach(method => {
         const operation = pathItem[method as keyof typeof pathItem] as Operation;
@@ -519,7 +638,7 @@ export class OpenAPIParser {
     
     const methods = new Set<string>();
     
-    Object.values(this.spec.paths).forEach(pathItem => {
+    this.getPathItems().forEach(pathItem => {
       ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'].forEach(method => {
         if (pathItem[method as keyof typeof pathItem]) {
           methods.add(method.toUpperCase());
@@ -535,12 +654,12 @@ export class OpenAPIParser {
     
     const codes = new Set<string>();
     
-    Object.values(this.spec.paths).forEach(pathItem => {
+    this.getPathItems().forEach(pathItem => {
       const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
       methods.forEach(method => {
         const operation = pathItem[method as keyof typeof pathItem] as Operation;
         if (operation?.responses) {
-          Object.keys(operation.responses).forEach(code => codes.add(code));
+          Object.keys(operation.responses).filter(code => !isExtensionKey(code)).forEach(code => codes.add(code));
         }
       });
     });
@@ -548,7 +667,57 @@ export class OpenAPIParser {
     return Array.from(codes).sort();
   }
 
+  private getPathItems(): PathItem[] {
+    if (!this.spec) return [];
+    const webhooks = Object.values(this.spec.webhooks || {}).filter(item => !isReference(item)) as PathItem[];
+    const paths = Object.entries(this.spec.paths).filter(([path]) => !isExtensionKey(path)).map(([, pathItem]) => pathItem);
+    return [...paths, ...webhooks];
+  }
+
   getSpec(): OpenAPISpec | null {
     return this.spec;
   }
+
+  getSourceFormat(): SpecSourceFormat {
+    return this.sourceFormat;
+  }
+
+  // Constructs that had to be approximated when converting a Swagger 2.0
+  // document or Postman collection, or inferring a spec from a HAR capture
+  getConversionWarnings(): ConversionWarning[] {
+    return this.conversionWarnings;
+  }
+
+  // Meta-schema violations found in the document as loaded
+  getValidationErrors(): SpecValidationError[] {
+    return this.validationErrors;
+  }
+
+  getSources(): string[] {
+    return this.origins ? this.origins.sources() : [];
+  }
+
+  // Locate the file and pointer a node of the loaded spec was read from
+  getSourceOrigin(pointer: string): NodeOrigin | undefined {
+    return this.origins?.originOf(pointer);
+  }
+
+  // File, line and column a node of the loaded spec was read from. References
+  // along the pointer are followed to where the value is written.
+  locate(pointer: string): SourceLocation | undefined {
+    if (!this.spec || !this.origins) return undefined;
+
+    // A converted collection or capture is laid out nothing like the spec built from it
+    if (this.sourceFormat === 'postman' || this.sourceFormat === 'har') return undefined;
+
+    let target = followPointer(this.spec, pointer);
+    if (this.sourceFormat === 'swagger2') {
+      const mapping = SWAGGER2_LOCATIONS.find(([converted]) => target.startsWith(converted));
+      if (mapping) target = mapping[1] + target.slice(mapping[0].length);
+    }
+
+    const origin = this.origins.originOf(target);
+    const position = origin && this.sourceMaps.get(origin.source)?.positionOf(origin.pointer);
+    return origin && position ? { source: origin.source, pointer: origin.pointer, ...position } : undefined;
+  }
 }
\ No newline at end of file
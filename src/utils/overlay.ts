@@ -0,0 +1,136 @@
+import { JSONPath } from 'jsonpath-plus';
+
+export interface OverlayAction {
+  target: string;
+  description?: string;
+  update?: any;
+  remove?: boolean;
+}
+
+export interface OverlayActionResult {
+  index: number;
+  target: string;
+  description?: string;
+  // Nodes the target selected
+  matched: number;
+  // Set when the action could not be applied to what it selected
+  error?: string;
+}
+
+export interface OverlayResult {
+  document: any;
+  actions: OverlayActionResult[];
+}
+
+interface Match {
+  value: any;
+  parent: any;
+  parentProperty: string | number;
+}
+
+// An Overlay 1.0 document: { overlay: '1.0.x', info, actions: [...] }
+export function isOverlayDocument(document: any): boolean {
+  return !!document
+    && typeof document === 'object'
+    && typeof document.overlay === 'string'
+    && Array.isArray(document.actions);
+}
+
+export function describeOverlay(overlay: any): string {
+  const title = overlay.info?.title || 'Untitled overlay';
+  return overlay.info?.version ? `${title} (${overlay.info.version})` : title;
+}
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Objects are merged key by key, arrays are appended to and anything else is replaced
+function merge(target: any, update: any): any {
+  if (Array.isArray(target) && Array.isArray(update)) {
+    return [...target, ...structuredClone(update)];
+  }
+  if (!isPlainObject(target) || !isPlainObject(update)) {
+    return structuredClone(update);
+  }
+
+  Object.entries(update).forEach(([key, value]) => {
+    target[key] = key in target ? merge(target[key], value) : structuredClone(value);
+  });
+  return target;
+}
+
+function select(document: any, target: string): Match[] {
+  return JSONPath({ path: target, json: document, resultType: 'all', wrap: true, eval: 'safe' }) as Match[];
+}
+
+// Applies the actions in order to a copy of the document. Actions that match
+// nothing or can't be applied are reported rather than failing the overlay.
+export function applyOverlay(document: any, overlay: any): OverlayResult {
+  if (!isOverlayDocument(overlay)) {
+    throw new Error('Not an OpenAPI Overlay document: expected `overlay` and `actions` fields');
+  }
+  if (!String(overlay.overlay).startsWith('1.')) {
+    throw new Error(`Unsupported overlay version ${overlay.overlay}; only Overlay 1.x is supported`);
+  }
+
+  const overlaid = structuredClone(document);
+  const results: OverlayActionResult[] = [];
+
+  (overlay.actions as OverlayAction[]).forEach((action, index) => {
+    const result: OverlayActionResult = { index, target: action?.target, description: action?.description, matched: 0 };
+    results.push(result);
+
+    if (!action || typeof action.target !== 'string') {
+      result.error = 'Action has no target';
+      return;
+    }
+
+    let matches: Match[];
+    try {
+      matches = select(overlaid, action.target);
+    } catch (error) {
+      result.error = `Invalid JSONPath: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return;
+    }
+    result.matched = matches.length;
+    if (matches.length === 0) return;
+
+    if (action.remove) {
+      if (matches.some(match => !match.parent)) {
+        result.error = 'The document root cannot be removed';
+        return;
+      }
+
+      // Remove array items from the end so earlier indexes stay valid
+      const index = (match: Match) => Array.isArray(match.parent) ? Number(match.parentProperty) : -1;
+      matches
+        .sort((a, b) => index(b) - index(a))
+        .forEach(match => {
+          if (Array.isArray(match.parent)) {
+            match.parent.splice(Number(match.parentProperty), 1);
+          } else {
+            delete match.parent[match.parentProperty];
+          }
+        });
+      return;
+    }
+
+    if (action.update === undefined) {
+      result.error = 'Action has neither update nor remove';
+      return;
+    }
+
+    matches.forEach(match => {
+      if (Array.isArray(match.value)) {
+        match.value.push(structuredClone(action.update));
+      } else if (isPlainObject(match.value) && isPlainObject(action.update)) {
+        merge(match.value, action.update);
+      } else {
+        result.error = 'update can only be merged into an object (with an object) or appended to an array';
+      }
+    });
+  });
+
+  return { document: overlaid, actions: results };
+}
@@ -0,0 +1,577 @@
+import {
+  OpenAPISpec,
+  Operation,
+  Parameter,
+  RequestBody,
+  Response,
+  SecurityScheme,
+  Server,
+  ConversionWarning,
+} from '../types/openapi.js';
+import { joinPointer } from './ref-resolver.js';
+import { inferSchema } from './schema-inference.js';
+
+export interface PostmanConversionResult {
+  spec: OpenAPISpec;
+  warnings: ConversionWarning[];
+}
+
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+// Headers OpenAPI describes elsewhere (request/response content and security)
+const IMPLICIT_HEADERS = ['content-type', 'accept', 'authorization', 'content-length'];
+
+const RAW_LANGUAGE_MEDIA_TYPES: { [language: string]: string } = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  text: 'text/plain',
+  javascript: 'application/javascript',
+};
+
+interface PostmanVariable {
+  key?: string;
+  value?: any;
+  description?: any;
+  disabled?: boolean;
+}
+
+// Folder names and auth inherited by the requests inside a folder
+interface FolderContext {
+  tags: string[];
+  auth: any;
+  authPointer: string;
+}
+
+// Postman v2.0/v2.1 collections identify themselves by schema URL
+export function isPostmanCollection(document: any): boolean {
+  return !!document
+    && typeof document === 'object'
+    && typeof document.info?.schema === 'string'
+    && document.info.schema.includes('schema.getpostman.com')
+    && Array.isArray(document.item);
+}
+
+export function convertPostmanCollection(collection: any): PostmanConversionResult {
+  return new PostmanConverter(collection).convert();
+}
+
+function describe(description: any): string | undefined {
+  if (typeof description === 'string') return description || undefined;
+  if (description && typeof description.content === 'string') return description.content || undefined;
+  return undefined;
+}
+
+function toText(value: any): string {
+  return Array.isArray(value) ? value.join('') : value === undefined || value === null ? '' : String(value);
+}
+
+// `{{name}}` and `:name` both mark a variable in Postman URLs
+function toTemplate(segment: string): string {
+  return segment
+    .replace(/\{\{\s*([^{}]+?)\s*\}\}/g, '{$1}')
+    .replace(/^:(.+)$/, '{$1}');
+}
+
+function templateNames(value: string): string[] {
+  return Array.from(value.matchAll(/\{([^{}]+)\}/g), match => match[1]);
+}
+
+// Raw Postman URLs are often not encoded at all, e.g. ?discount=50%
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+function isPlaceholder(value: any): boolean {
+  return typeof value === 'string' && /\{\{[^{}]+\}\}/.test(value);
+}
+
+function toOperationId(name: string): string {
+  const words = name.replace(/[^A-Za-z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return 'operation';
+  return words
+    .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+function parseJson(text: string): { value?: any; ok: boolean } {
+  try {
+    return { value: JSON.parse(text), ok: true };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function findHeader(headers: any, name: string): string | undefined {
+  if (!Array.isArray(headers)) return undefined;
+  const header = headers.find((entry: any) => entry && !entry.disabled && String(entry.key).toLowerCase() === name);
+  return header ? String(header.value ?? '') : undefined;
+}
+
+function mediaTypeOf(contentType: string | undefined): string | undefined {
+  return contentType ? contentType.split(';')[0].trim().toLowerCase() || undefined : undefined;
+}
+
+class PostmanConverter {
+  private warnings: ConversionWarning[] = [];
+  private variables = new Map<string, PostmanVariable>();
+  private servers: Server[] = [];
+  private tags = new Map<string, string | undefined>();
+  private securitySchemes: { [name: string]: SecurityScheme } = {};
+  private operationIds = new Set<string>();
+  private spec!: OpenAPISpec;
+
+  constructor(private collection: any) {
+    (Array.isArray(collection.variable) ? collection.variable : []).forEach((variable: PostmanVariable) => {
+      if (variable?.key) this.variables.set(variable.key, variable);
+    });
+  }
+
+  convert(): PostmanConversionResult {
+    const collection = this.collection;
+    const version = collection.info.version;
+
+    this.spec = {
+      openapi: '3.0.3',
+      info: {
+        title: collection.info.name || 'Postman Collection',
+        version: typeof version === 'string'
+          ? version
+          : version && typeof version === 'object'
+            ? [version.major ?? 1, version.minor ?? 0, version.patch ?? 0].join('.')
+            : '1.0.0',
+        description: describe(collection.info.description),
+      },
+      paths: {},
+    };
+
+    const root: FolderContext = { tags: [], auth: collection.auth, authPointer: '#/auth' };
+    if (collection.auth) {
+      const security = this.convertAuth(collection.auth, '#/auth');
+      if (security) this.spec.security = security;
+    }
+
+    this.convertItems(collection.item, root, '#/item');
+
+    if (this.servers.length > 0) this.spec.servers = this.servers;
+    if (this.tags.size > 0) {
+      this.spec.tags = Array.from(this.tags.entries()).map(([name, description]) => description ? { name, description } : { name });
+    }
+    if (Object.keys(this.securitySchemes).length > 0) {
+      this.spec.components = { securitySchemes: this.securitySchemes };
+    }
+
+    return { spec: this.spec, warnings: this.warnings };
+  }
+
+  private warn(pointer: string, message: string) {
+    this.warnings.push({ pointer, message });
+  }
+
+  private convertItems(items: any[], context: FolderContext, pointer: string) {
+    items.forEach((item, index) => {
+      const itemPointer = joinPointer(pointer, index);
+      if (!item || typeof item !== 'object') return;
+
+      // Folders carry a nested item list; their names become tags
+      if (Array.isArray(item.item)) {
+        const tag = [...context.tags, item.name || `Folder ${index + 1}`].join(' / ');
+        if (!this.tags.has(tag)) this.tags.set(tag, describe(item.description));
+
+        this.convertItems(item.item, {
+          tags: [tag],
+          auth: item.auth ?? context.auth,
+          authPointer: item.auth ? joinPointer(itemPointer, 'auth') : context.authPointer,
+        }, joinPointer(itemPointer, 'item'));
+        return;
+      }
+
+      if (item.request) {
+        this.convertRequest(item, context, itemPointer);
+      }
+    });
+  }
+
+  private convertRequest(item: any, context: FolderContext, pointer: string) {
+    const request = typeof item.request === 'string' ? { url: item.request, method: 'GET' } : item.request;
+    const requestPointer = joinPointer(pointer, 'request');
+    const method = String(request.method || 'GET').toLowerCase();
+    const { path, server, pathVariables, query } = this.convertUrl(request.url, joinPointer(requestPointer, 'url'));
+
+    const operation: Operation = {
+      summary: item.name,
+      description: describe(request.description) || describe(item.description),
+      operationId: this.uniqueOperationId(toOperationId(item.name || `${method} ${path}`)),
+      responses: {},
+    };
+    if (context.tags.length > 0) operation.tags = context.tags;
+
+    const parameters: Parameter[] = [
+      ...templateNames(path).map(name => this.pathParameter(name, pathVariables)),
+      ...query,
+      ...this.convertHeaders(request.header),
+    ];
+    if (parameters.length > 0) operation.parameters = parameters;
+
+    const requestBody = this.convertBody(request.body, request.header, joinPointer(requestPointer, 'body'));
+    if (requestBody) operation.requestBody = requestBody;
+
+    // Auth set on the request overrides what it inherits from its folders
+    if (request.auth) {
+      const security = this.convertAuth(request.auth, joinPointer(requestPointer, 'auth'));
+      if (security) operation.security = security;
+    } else if (context.auth && context.auth !== this.collection.auth) {
+      const security = this.convertAuth(context.auth, context.authPointer);
+      if (security) operation.security = security;
+    }
+
+    if (server && this.servers.length > 0 && this.servers[0].url !== server.url) {
+      operation.servers = [server];
+    }
+
+    this.convertResponses(item.response, operation, joinPointer(pointer, 'response'));
+    if (Object.keys(operation.responses).length === 0) {
+      operation.responses.default = { description: 'No example responses in the collection' };
+    }
+
+    const pathItem: any = this.spec.paths[path] = this.spec.paths[path] || {};
+    if (pathItem[method]) {
+      // Postman often has one request per scenario; keep the first and add the others' examples
+      this.mergeResponses(pathItem[method], operation);
+      this.warn(pointer, `Duplicate request for ${method.toUpperCase()} ${path}; its example responses were merged into "${pathItem[method].summary}"`);
+      return;
+    }
+    pathItem[method] = operation;
+  }
+
+  private uniqueOperationId(base: string): string {
+    let id = base;
+    for (let suffix = 2; this.operationIds.has(id); suffix++) id = `${base}${suffix}`;
+    this.operationIds.add(id);
+    return id;
+  }
+
+  private convertUrl(url: any, pointer: string): {
+    path: string;
+    server?: Server;
+    pathVariables: PostmanVariable[];
+    query: Parameter[];
+  } {
+    const parsed = typeof url === 'string' || !url ? this.parseRawUrl(toText(url)) : url;
+    const host = Array.isArray(parsed.host) ? parsed.host.join('.') : toText(parsed.host);
+    // A bare host is assumed to be https; a variable may hold a full base URL
+    const protocol = parsed.protocol
+      ? `${String(parsed.protocol).replace(/:$/, '')}://`
+      : host && !host.startsWith('{{') ? 'https://' : '';
+    const port = parsed.port ? `:${parsed.port}` : '';
+    const segments: string[] = (Array.isArray(parsed.path) ? parsed.path.map(toText) : toText(parsed.path).split('/'))
+      .flatMap((segment: string) => this.resolveVariables(segment).split('/'))
+      .filter((segment: string) => segment !== '');
+
+    // Variables still left at the start of the path are part of the base URL,
+    // e.g. {{baseUrl}}/{{version}}/users, so they go to the server
+    let basePath = '';
+    while (host && segments.length > 0 && /^\{\{[^{}]+\}\}$/.test(segments[0])) {
+      basePath += `/${segments.shift()}`;
+    }
+
+    const path = '/' + segments.map(toTemplate).join('/');
+    const query: Parameter[] = (Array.isArray(parsed.query) ? parsed.query : [])
+      .filter((param: any) => param?.key)
+      .map((param: any) => this.simpleParameter(param, 'query'));
+
+    let server: Server | undefined;
+    if (host) {
+      server = this.convertServer(`${protocol}${host}${port}${basePath}`);
+    } else {
+      this.warn(pointer, 'Request URL has no host; it is not listed under servers');
+    }
+
+    return { path, server, pathVariables: Array.isArray(parsed.variable) ? parsed.variable : [], query };
+  }
+
+  // Collection variables with a concrete value are written into the path, so
+  // `{{version}}` doesn't turn into a path parameter
+  private resolveVariables(segment: string): string {
+    return segment.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (placeholder, name) => {
+      const value = this.variables.get(name)?.value;
+      return value !== undefined && value !== null && value !== '' && !isPlaceholder(value) ? String(value) : placeholder;
+    });
+  }
+
+  // Split a raw URL such as `{{baseUrl}}/users/:id?active=true` without
+  // requiring it to be a valid URL, since variables may stand in for any part
+  private parseRawUrl(raw: string): any {
+    const [withoutQuery, queryString = ''] = raw.split('?');
+    const protocolMatch = withoutQuery.match(/^([a-z][a-z0-9+.-]*):\/\//i);
+    const rest = protocolMatch ? withoutQuery.slice(protocolMatch[0].length) : withoutQuery;
+    const [host, ...path] = rest.split('/');
+
+    return {
+      protocol: protocolMatch?.[1],
+      host,
+      path,
+      query: queryString
+        .split('&')
+        .filter(Boolean)
+        .map(pair => {
+          const [key, value = ''] = pair.split('=');
+          return { key: safeDecode(key), value: safeDecode(value) };
+        }),
+    };
+  }
+
+  // Collection variables used in the host become server variables
+  private convertServer(url: string): Server {
+    const templated = toTemplate(url);
+    const existing = this.servers.find(server => server.url === templated);
+    if (existing) return existing;
+
+    const server: Server = { url: templated };
+    const names = templateNames(templated);
+    if (names.length > 0) {
+      server.variables = {};
+      names.forEach(name => {
+        const variable = this.variables.get(name);
+        server.variables![name] = {
+          default: variable?.value !== undefined ? String(variable.value) : '',
+          ...(describe(variable?.description) ? { description: describe(variable?.description) } : {}),
+        };
+        if (!variable) {
+          this.warn('#/variable', `Variable "${name}" used in a request URL is not defined in the collection`);
+        }
+      });
+    }
+
+    this.servers.push(server);
+    return server;
+  }
+
+  private pathParameter(name: string, pathVariables: PostmanVariable[]): Parameter {
+    const variable = pathVariables.find(entry => entry.key === name) || this.variables.get(name);
+    const parameter: Parameter = { name, in: 'path', required: true, schema: { type: 'string' } };
+    const description = describe(variable?.description);
+    if (description) parameter.description = description;
+    if (variable?.value !== undefined && variable.value !== '' && !isPlaceholder(variable.value)) {
+      parameter.example = variable.value;
+    }
+    return parameter;
+  }
+
+  private simpleParameter(entry: any, location: 'query' | 'header'): Parameter {
+    const parameter: Parameter = { name: entry.key, in: location, required: false, schema: { type: 'string' } };
+    const description = describe(entry.description);
+    if (description) parameter.description = description;
+    if (entry.value !== undefined && entry.value !== null && entry.value !== '' && !isPlaceholder(entry.value)) {
+      parameter.example = entry.value;
+    }
+    return parameter;
+  }
+
+  private convertHeaders(headers: any): Parameter[] {
+    if (!Array.isArray(headers)) return [];
+    return headers
+      .filter(header => header?.key && !IMPLICIT_HEADERS.includes(String(header.key).toLowerCase()))
+      .map(header => this.simpleParameter(header, 'header'));
+  }
+
+  private convertBody(body: any, headers: any, pointer: string): RequestBody | undefined {
+    if (!body || typeof body !== 'object' || body.disabled) return undefined;
+
+    switch (body.mode) {
+      case 'raw': {
+        const raw = toText(body.raw);
+        if (!raw.trim()) return undefined;
+
+        const language = body.options?.raw?.language;
+        const mediaType = mediaTypeOf(findHeader(headers, 'content-type'))
+          || RAW_LANGUAGE_MEDIA_TYPES[language]
+          || (parseJson(raw).ok ? DEFAULT_MEDIA_TYPE : 'text/plain');
+
+        if (mediaType.includes('json')) {
+          const parsed = parseJson(raw);
+          if (parsed.ok) {
+            return { content: { [mediaType]: { schema: inferSchema([parsed.value]), example: parsed.value } } };
+          }
+          this.warn(pointer, 'Raw JSON body could not be parsed (it may contain unquoted variables); described as a string');
+        }
+        return { content: { [mediaType]: { schema: { type: 'string' }, example: raw } } };
+      }
+
+      case 'urlencoded':
+      case 'formdata': {
+        const fields: any[] = (Array.isArray(body[body.mode]) ? body[body.mode] : []).filter((field: any) => field?.key);
+        const properties: { [name: string]: any } = {};
+        fields.forEach(field => {
+          properties[field.key] = field.type === 'file'
+            ? { type: 'string', format: 'binary' }
+            : { type: 'string', ...(describe(field.description) ? { description: describe(field.description) } : {}) };
+        });
+        const mediaType = body.mode === 'formdata' ? 'multipart/form-data' : 'application/x-www-form-urlencoded';
+        return { content: { [mediaType]: { schema: { type: 'object', properties } } } };
+      }
+
+      case 'graphql': {
+        const variables = parseJson(toText(body.graphql?.variables) || '{}');
+        const example = { query: toText(body.graphql?.query), variables: variables.ok ? variables.value : {} };
+        return { content: { [DEFAULT_MEDIA_TYPE]: { schema: inferSchema([example]), example } } };
+      }
+
+      case 'file':
+        return { content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } };
+
+      default:
+        if (body.mode) this.warn(pointer, `Unsupported body mode "${body.mode}" was dropped`);
+        return undefined;
+    }
+  }
+
+  // Saved example responses grouped by status code and media type, with a
+  // schema inferred from every JSON body in the group
+  private convertResponses(responses: any, operation: Operation, pointer: string) {
+    if (!Array.isArray(responses)) return;
+
+    const jsonBodies = new Map<string, any[]>();
+    responses.forEach((example, index) => {
+      if (!example || typeof example !== 'object') return;
+
+      const status = String(example.code || 'default');
+      const response = (operation.responses[status] = operation.responses[status] || {
+        description: example.status || example.name || 'Response',
+      }) as Response;
+
+      const headers = Array.isArray(example.header) ? example.header : [];
+      headers
+        .filter((header: any) => header?.key && !IMPLICIT_HEADERS.includes(String(header.key).toLowerCase()))
+        .forEach((header: any) => {
+          response.headers = response.headers || {};
+          response.headers[header.key] = response.headers[header.key] || { schema: { type: 'string' }, example: header.value };
+        });
+
+      const text = toText(example.body);
+      if (!text.trim()) return;
+
+      const parsed = parseJson(text);
+      const mediaType = mediaTypeOf(findHeader(headers, 'content-type'))
+        || (example._postman_previewlanguage === 'json' || parsed.ok ? DEFAULT_MEDIA_TYPE : 'text/plain');
+
+      response.content = response.content || {};
+      const media: any = response.content[mediaType] = response.content[mediaType] || { examples: {} };
+      const key = this.exampleKey(media.examples, example.name || `example${index + 1}`);
+
+      if (mediaType.includes('json') && parsed.ok) {
+        media.examples[key] = { summary: example.name, value: parsed.value };
+        const group = `${status} ${mediaType}`;
+        if (!jsonBodies.has(group)) jsonBodies.set(group, []);
+        jsonBodies.get(group)!.push(parsed.value);
+        media.schema = inferSchema(jsonBodies.get(group)!);
+      } else {
+        if (mediaType.includes('json')) {
+          this.warn(joinPointer(pointer, index, 'body'), 'Example body is not valid JSON; kept as a string');
+        }
+        media.examples[key] = { summary: example.name, value: text };
+        media.schema = media.schema || { type: 'string' };
+      }
+    });
+  }
+
+  private exampleKey(examples: { [key: string]: any }, name: string): string {
+    const base = name.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^_+|_+$/g, '') || 'example';
+    let key = base;
+    for (let suffix = 2; key in examples; suffix++) key = `${base}_${suffix}`;
+    return key;
+  }
+
+  private mergeResponses(target: Operation, source: Operation) {
+    Object.entries(source.responses as { [status: string]: Response }).forEach(([status, response]) => {
+      if (status === 'default' && !response.content) return;
+
+      const existing = target.responses[status] as Response | undefined;
+      if (!existing || (status === 'default' && !existing.content)) {
+        target.responses[status] = response;
+        if (status !== 'default' && target.responses.default && !(target.responses.default as Response).content) {
+          delete target.responses.default;
+        }
+        return;
+      }
+
+      Object.entries(response.content || {}).forEach(([mediaType, media]: [string, any]) => {
+        existing.content = existing.content || {};
+        const current: any = existing.content[mediaType];
+        if (!current) {
+          existing.content[mediaType] = media;
+          return;
+        }
+
+        Object.entries(media.examples || {}).forEach(([name, example]) => {
+          current.examples = current.examples || {};
+          current.examples[this.exampleKey(current.examples, name)] = example;
+        });
+
+        const values = Object.values(current.examples || {}).map((example: any) => example.value);
+        if (mediaType.includes('json') && values.every(value => typeof value !== 'string')) {
+          current.schema = inferSchema(values);
+        }
+      });
+    });
+  }
+
+  // Returns the security requirement for an auth block, registering the scheme it uses
+  private convertAuth(auth: any, pointer: string): { [name: string]: string[] }[] | undefined {
+    if (!auth || typeof auth !== 'object') return undefined;
+    if (auth.type === 'noauth') return [];
+
+    const settings = new Map<string, any>();
+    (Array.isArray(auth[auth.type]) ? auth[auth.type] : []).forEach((entry: any) => {
+      if (entry?.key) settings.set(entry.key, entry.value);
+    });
+
+    let name: string;
+    let scheme: SecurityScheme;
+    switch (auth.type) {
+      case 'bearer':
+        name = 'bearerAuth';
+        scheme = { type: 'http', scheme: 'bearer' };
+        break;
+      case 'basic':
+        name = 'basicAuth';
+        scheme = { type: 'http', scheme: 'basic' };
+        break;
+      case 'apikey': {
+        const location = settings.get('in') === 'query' ? 'query' : 'header';
+        const key = String(settings.get('key') || 'X-API-Key');
+        name = `apiKey_${key.replace(/[^A-Za-z0-9_]+/g, '_')}`;
+        scheme = { type: 'apiKey', in: location, name: key };
+        break;
+      }
+      case 'oauth2': {
+        name = 'oauth2';
+        const scopes: { [scope: string]: string } = {};
+        String(settings.get('scope') || '').split(/\s+/).filter(Boolean).forEach(scope => {
+          scopes[scope] = '';
+        });
+        const tokenUrl = isPlaceholder(settings.get('accessTokenUrl')) ? '' : String(settings.get('accessTokenUrl') || '');
+        const authorizationUrl = isPlaceholder(settings.get('authUrl')) ? '' : String(settings.get('authUrl') || '');
+        scheme = {
+          type: 'oauth2',
+          flows: settings.get('grant_type') === 'client_credentials' || !authorizationUrl
+            ? { clientCredentials: { tokenUrl, scopes } }
+            : { authorizationCode: { authorizationUrl, tokenUrl, scopes } },
+        };
+        if (!tokenUrl) this.warn(pointer, 'OAuth 2.0 auth has no literal access token URL; tokenUrl is left empty');
+        this.securitySchemes[name] = scheme;
+        return [{ [name]: Object.keys(scopes) }];
+      }
+      default:
+        this.warn(pointer, `Auth type "${auth.type}" has no OpenAPI equivalent and was dropped`);
+        return undefined;
+    }
+
+    this.securitySchemes[name] = scheme;
+    return [{ [name]: [] }];
+  }
+}
@@ -0,0 +1,256 @@
+import { EndpointData, OpenAPISpec } from '../types/openapi.js';
+import { isReference, resolvePointer } from './ref-resolver.js';
+import { describeSchemaType, getSchemaExample, getSchemaTypes, hasSchemaType, isNullable } from './schema-utils.js';
+import { statusMatches } from './search-query.js';
+
+export interface PropertyCriteria {
+  // Partial, case-insensitive match on the property name
+  propertyName?: string;
+  propertyType?: string;
+  // Regex tested against the property name and description
+  schemaPattern?: string;
+  required?: boolean;
+}
+
+export interface PropertyMatch {
+  propertyName: string;
+  propertyType: string;
+  // Dotted path from the searched schema, with referenced schema names and [items]
+  path: string;
+  required: boolean;
+  nullable: boolean;
+  description?: string;
+  format?: string;
+  example?: any;
+  enum?: any[];
+  schema: any;
+}
+
+export type PropertyLocation = 'requestBody' | 'responseBody' | 'responseHeader' | 'parameter';
+
+export interface PropertySearchResult {
+  endpoint: string;
+  location: PropertyLocation;
+  // Response status for responseBody and responseHeader results
+  status?: string;
+  // Media type for body results
+  mediaType?: string;
+  // Where a parameter is sent: path, query, header or cookie
+  in?: string;
+  properties: PropertyMatch[];
+}
+
+export interface PropertySearchOptions extends PropertyCriteria {
+  locations?: PropertyLocation[];
+  methods?: string[];
+  // Response statuses to search, e.g. 200 or 2xx
+  statusCodes?: string[];
+}
+
+function resolveSchema(spec: OpenAPISpec, schema: any): any {
+  if (!isReference(schema)) return schema;
+  if (!schema.$ref.startsWith('#')) return undefined;
+  try {
+    return resolvePointer(spec, schema.$ref);
+  } catch {
+    return undefined;
+  }
+}
+
+// Matches found below one schema, with paths relative to it. `cutAt` is the
+// shallowest $ref on the walk stack that was not entered again because it
+// was already being walked (Infinity when none was).
+interface Walked {
+  matches: { path: string[]; match: PropertyMatch }[];
+  cutAt: number;
+}
+
+class PropertyMatcher {
+  private pattern?: RegExp;
+  // Matches below each $ref, keyed by the ref and the depth left. Only walks
+  // that don't depend on the refs above them are kept, so every schema is
+  // searched once however many places reference it.
+  private walked = new Map<string, Walked['matches']>();
+
+  constructor(private spec: OpenAPISpec, private criteria: PropertyCriteria, private maxDepth = 10) {
+    this.pattern = criteria.schemaPattern ? new RegExp(criteria.schemaPattern, 'i') : undefined;
+  }
+
+  // A named value (property, parameter or header) that meets every criterion
+  match(name: string, schema: any, required: boolean, path: string[], description?: string): PropertyMatch | null {
+    const { propertyName, propertyType } = this.criteria;
+    const resolved = resolveSchema(this.spec, schema) || {};
+    const text = description ?? resolved.description;
+
+    if (propertyName && !name.toLowerCase().includes(propertyName.toLowerCase())) return null;
+    if (propertyType && !getSchemaTypes(resolved).includes(propertyType)) return null;
+    if (this.criteria.required !== undefined && required !== this.criteria.required) return null;
+    if (this.pattern && !this.pattern.test(text || '') && !this.pattern.test(name)) return null;
+
+    return {
+      propertyName: name,
+      propertyType: describeSchemaType(resolved),
+      path: path.join('.'),
+      required,
+      nullable: isNullable(resolved),
+      description: text,
+      format: resolved.format,
+      example: getSchemaExample(resolved),
+      enum: resolved.enum,
+      schema,
+    };
+  }
+
+  // Walks properties, array items and compositions, following at most
+  // maxDepth $refs. A $ref already being walked further up is not followed
+  // again, so recursive schemas end.
+  search(schema: any, path: string[] = []): PropertyMatch[] {
+    return this.walk(schema, [], this.maxDepth).matches.map(found => ({
+      ...found.match,
+      path: [...path, ...found.path].join('.'),
+    }));
+  }
+
+  private walk(schema: any, stack: string[], depth: number): Walked {
+    const walked: Walked = { matches: [], cutAt: Infinity };
+    if (!schema || typeof schema !== 'object') return walked;
+
+    if (isReference(schema)) return this.walkReference(schema.$ref, stack, depth);
+
+    const add = (result: Walked, prefix: string[]) => {
+      result.matches.forEach(found => walked.matches.push({ path: [...prefix, ...found.path], match: found.match }));
+      walked.cutAt = Math.min(walked.cutAt, result.cutAt);
+    };
+
+    Object.entries(schema.properties || {}).forEach(([name, property]: [string, any]) => {
+      const match = this.match(name, property, schema.required?.includes(name) || false, []);
+      if (match) walked.matches.push({ path: [name], match });
+
+      const resolved = resolveSchema(this.spec, property);
+      if (isReference(property) || hasSchemaType(resolved, 'object') || resolved?.properties) {
+        add(this.walk(property, stack, depth), [name]);
+      } else if (hasSchemaType(resolved, 'array')) {
+        add(this.walkItems(resolved, stack, depth), [name]);
+      }
+    });
+
+    if (!schema.properties && hasSchemaType(schema, 'array')) {
+      add(this.walkItems(schema, stack, depth), []);
+    }
+
+    ['oneOf', 'anyOf', 'allOf'].forEach(keyword => {
+      if (Array.isArray(schema[keyword])) {
+        schema[keyword].forEach((subSchema: any, index: number) => {
+          add(this.walk(subSchema, stack, depth), [`${keyword}[${index}]`]);
+        });
+      }
+    });
+
+    return walked;
+  }
+
+  private walkReference(ref: string, stack: string[], depth: number): Walked {
+    const onStack = stack.indexOf(ref);
+    if (onStack >= 0) return { matches: [], cutAt: onStack };
+    if (depth <= 0) return { matches: [], cutAt: Infinity };
+
+    const key = `${depth}\n${ref}`;
+    const cached = this.walked.get(key);
+    if (cached) return { matches: cached, cutAt: Infinity };
+
+    const resolved = resolveSchema(this.spec, { $ref: ref });
+    if (!resolved) return { matches: [], cutAt: Infinity };
+
+    const inner = this.walk(resolved, [...stack, ref], depth - 1);
+    const name = ref.split('/').pop()!;
+    const matches = inner.matches.map(found => ({ path: [name, ...found.path], match: found.match }));
+    // Cut only at this ref or below it: the result is the same wherever it is reached from
+    if (inner.cutAt >= stack.length) {
+      this.walked.set(key, matches);
+      return { matches, cutAt: Infinity };
+    }
+    return { matches, cutAt: inner.cutAt };
+  }
+
+  // Array items (and 3.1 tuple items)
+  private walkItems(schema: any, stack: string[], depth: number): Walked {
+    const walked: Walked = { matches: [], cutAt: Infinity };
+    const add = (result: Walked, segment: string) => {
+      result.matches.forEach(found => walked.matches.push({ path: [segment, ...found.path], match: found.match }));
+      walked.cutAt = Math.min(walked.cutAt, result.cutAt);
+    };
+    if (schema.items && typeof schema.items === 'object') {
+      add(this.walk(schema.items, stack, depth), '[items]');
+    }
+    (schema.prefixItems || []).forEach((itemSchema: any, index: number) => {
+      add(this.walk(itemSchema, stack, depth), `[${index}]`);
+    });
+    return walked;
+  }
+}
+
+export function searchSchemaProperties(spec: OpenAPISpec, schema: any, criteria: PropertyCriteria): PropertyMatch[] {
+  return new PropertyMatcher(spec, criteria).search(schema);
+}
+
+// A parameter or header matches on its own name, and the properties of an
+// object-valued one are searched below it
+function searchNamedValue(matcher: PropertyMatcher, name: string, value: any, required: boolean): PropertyMatch[] {
+  const schema = value.schema || (Object.values(value.content || {})[0] as any)?.schema;
+  const matches: PropertyMatch[] = [];
+  const match = matcher.match(name, schema, required, [name], value.description);
+  if (match) matches.push(match);
+  matches.push(...matcher.search(schema, [name]));
+  return matches;
+}
+
+// Searches request and response bodies, response headers and parameters
+export function searchEndpointProperties(
+  spec: OpenAPISpec,
+  endpoints: EndpointData[],
+  options: PropertySearchOptions
+): PropertySearchResult[] {
+  const { locations = ['requestBody', 'responseBody', 'responseHeader', 'parameter'], methods, statusCodes } = options;
+  const matcher = new PropertyMatcher(spec, options);
+  const results: PropertySearchResult[] = [];
+
+  endpoints.forEach(endpoint => {
+    if (methods && methods.length > 0 && !methods.includes(endpoint.method.toUpperCase())) return;
+    const label = `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+    const add = (result: Omit<PropertySearchResult, 'endpoint'>) => {
+      if (result.properties.length > 0) results.push({ endpoint: label, ...result });
+    };
+
+    if (locations.includes('parameter')) {
+      endpoint.parameters.forEach(param => {
+        if (!param?.name) return;
+        add({ location: 'parameter', in: param.in, properties: searchNamedValue(matcher, param.name, param, !!param.required) });
+      });
+    }
+
+    if (locations.includes('requestBody')) {
+      Object.entries(endpoint.requestBody?.content || {}).forEach(([mediaType, media]) => {
+        add({ location: 'requestBody', mediaType, properties: matcher.search(media?.schema) });
+      });
+    }
+
+    Object.entries(endpoint.responses).forEach(([status, response]) => {
+      if (statusCodes && statusCodes.length > 0 && !statusCodes.some(wanted => statusMatches(status, wanted))) return;
+
+      if (locations.includes('responseBody')) {
+        Object.entries(response?.content || {}).forEach(([mediaType, media]) => {
+          add({ location: 'responseBody', status, mediaType, properties: matcher.search(media?.schema) });
+        });
+      }
+      if (locations.includes('responseHeader')) {
+        Object.entries(response?.headers || {}).forEach(([name, header]: [string, any]) => {
+          const resolved = resolveSchema(spec, header);
+          if (!resolved) return;
+          add({ location: 'responseHeader', status, properties: searchNamedValue(matcher, name, resolved, !!resolved.required) });
+        });
+      }
+    });
+  });
+
+  return results;
+}
@@ -0,0 +1,160 @@
+import { Reference } from '../types/openapi.js';
+
+export interface DereferenceOptions {
+  // Return false to keep a reference as-is instead of inlining its target
+  shouldResolve?: (ref: string) => boolean;
+}
+
+export function isReference(value: any): value is Reference {
+  return !!value && typeof value === 'object' && typeof value.$ref === 'string';
+}
+
+export function isLocalRef(ref: string): boolean {
+  return ref === '#' || ref.startsWith('#/');
+}
+
+export function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export function unescapePointerSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+export function parsePointer(pointer: string): string[] {
+  let fragment = pointer.startsWith('#') ? pointer.slice(1) : pointer;
+
+  // Pointers inside URI fragments may be percent-encoded (e.g. %7Bid%7D for {id})
+  try {
+    fragment = decodeURIComponent(fragment);
+  } catch {
+    // Keep the raw fragment if it isn't valid percent-encoding
+  }
+
+  if (fragment === '') return [];
+  if (!fragment.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+
+  return fragment.slice(1).split('/').map(unescapePointerSegment);
+}
+
+export function compilePointer(segments: (string | number)[]): string {
+  return '#' + segments.map(segment => '/' + escapePointerSegment(String(segment))).join('');
+}
+
+export function joinPointer(base: string, ...segments: (string | number)[]): string {
+  return base + compilePointer(segments).slice(1);
+}
+
+export function resolvePointer(document: any, pointer: string): any {
+  let current = document;
+
+  for (const segment of parsePointer(pointer)) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      throw new Error(`Unable to resolve reference: ${pointer}`);
+    }
+    current = current[segment];
+  }
+
+  return current;
+}
+
+// Rewrite a pointer so it addresses the node where the value is actually
+// written, following any local references met along the way
+export function followPointer(document: any, pointer: string): string {
+  const segments = parsePointer(pointer);
+  const seen = new Set<string>();
+  let current = document;
+  let resolved: string[] = [];
+
+  for (let index = 0; index < segments.length; index++) {
+    while (isReference(current) && isLocalRef(current.$ref) && !seen.has(current.$ref)) {
+      seen.add(current.$ref);
+      try {
+        const target = resolvePointer(document, current.$ref);
+        resolved = parsePointer(current.$ref);
+        current = target;
+      } catch {
+        break;
+      }
+    }
+
+    if (current === null || typeof current !== 'object' || !(segments[index] in current)) {
+      return compilePointer([...resolved, ...segments.slice(index)]);
+    }
+    current = current[segments[index]];
+    resolved.push(segments[index]);
+  }
+
+  return compilePointer(resolved);
+}
+
+export class RefResolver {
+  constructor(private document: any) {}
+
+  // Follow a chain of local references until a concrete object is reached
+  resolve<T>(value: T | Reference): T {
+    const seen = new Set<string>();
+    let current: any = value;
+
+    while (isReference(current) && isLocalRef(current.$ref)) {
+      if (seen.has(current.$ref)) {
+        throw new Error(`Circular reference detected: ${Array.from(seen).join(' -> ')} -> ${current.$ref}`);
+      }
+      seen.add(current.$ref);
+      current = this.mergeSiblings(current, resolvePointer(this.document, current.$ref));
+    }
+
+    return current as T;
+  }
+
+  // Deep-copy a value with local references inlined. A reference that would
+  // re-enter one of its own ancestors is left in place so recursive schemas
+  // produce a finite tree.
+  dereference<T>(value: any, options: DereferenceOptions = {}): T {
+    return this.walk(value, options, []) as T;
+  }
+
+  private walk(value: any, options: DereferenceOptions, stack: string[]): any {
+    if (!value || typeof value !== 'object') return value;
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.walk(item, options, stack));
+    }
+
+    if (isReference(value)) {
+      const ref = value.$ref;
+      const resolvable = isLocalRef(ref) && (!options.shouldResolve || options.shouldResolve(ref));
+
+      if (!resolvable || stack.includes(ref)) {
+        return { ...value };
+      }
+
+      let target: any;
+      try {
+        target = resolvePointer(this.document, ref);
+      } catch {
+        // Leave dangling references untouched rather than failing the whole walk
+        return { ...value };
+      }
+
+      return this.walk(this.mergeSiblings(value, target), options, [...stack, ref]);
+    }
+
+    const result: any = {};
+    Object.entries(value).forEach(([key, child]) => {
+      result[key] = this.walk(child, options, stack);
+    });
+    return result;
+  }
+
+  // OpenAPI 3.1 allows summary/description next to $ref; they override the target's values
+  private mergeSiblings(reference: any, target: any): any {
+    const { $ref, ...siblings } = reference;
+    if (Object.keys(siblings).length === 0 || !target || typeof target !== 'object' || Array.isArray(target)) {
+      return target;
+    }
+    return { ...target, ...siblings };
+  }
+}
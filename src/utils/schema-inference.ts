@@ -0,0 +1,120 @@
+import { jsonTypeOf } from './schema-utils.js';
+
+export interface SchemaInferenceOptions {
+  // Describe low-cardinality strings as enums (default true)
+  enums?: boolean;
+  // Detect string formats such as date-time, uuid and email (default true)
+  formats?: boolean;
+  // Write nullability as 3.1 type arrays instead of `nullable: true`
+  openapi31?: boolean;
+}
+
+// A string field becomes an enum only when values repeat: at least this many
+// samples, no more than MAX_ENUM_VALUES distinct values, none of them long
+const MIN_ENUM_SAMPLES = 3;
+const MAX_ENUM_VALUES = 5;
+const MAX_ENUM_LENGTH = 40;
+
+// Checked in order; a format applies when every sampled value matches it
+const STRING_FORMATS: [string, RegExp][] = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^[a-z][a-z0-9+.-]*:\/\/\S+$/i],
+  ['ipv4', /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/],
+];
+
+// Builds an OpenAPI schema that every sample satisfies. Object properties
+// are required when present in every sample; properties seen in only some
+// samples stay optional. Nulls make the schema nullable, and samples of
+// unrelated types become an anyOf.
+export function inferSchema(samples: any[], options: SchemaInferenceOptions = {}): any {
+  const present = samples.filter(sample => sample !== undefined);
+  if (present.length === 0) return {};
+
+  const nonNull = present.filter(sample => sample !== null);
+  const nullable = nonNull.length < present.length;
+  // 3.0 has no null type, and nullable means nothing without a type, so a
+  // field only ever seen as null is left open
+  if (nonNull.length === 0) {
+    return options.openapi31 ? { type: 'null' } : { description: 'Only null values were observed; the type is unknown' };
+  }
+
+  const byType = new Map<string, any[]>();
+  nonNull.forEach(sample => {
+    const type = jsonTypeOf(sample);
+    if (!byType.has(type)) byType.set(type, []);
+    byType.get(type)!.push(sample);
+  });
+
+  // Integers are numbers too, so a mix of both is just a number
+  if (byType.has('integer') && byType.has('number')) {
+    byType.get('number')!.push(...byType.get('integer')!);
+    byType.delete('integer');
+  }
+
+  const schemas = Array.from(byType.entries()).map(([type, values]) => inferTypedSchema(type, values, options));
+  const schema = schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+  if (!nullable) return schema;
+
+  if (!options.openapi31) {
+    schema.nullable = true;
+  } else if (schema.anyOf) {
+    schema.anyOf.push({ type: 'null' });
+  } else {
+    schema.type = [schema.type, 'null'];
+  }
+  // An enum lists every allowed value, null included
+  if (schema.enum) schema.enum.push(null);
+  return schema;
+}
+
+function inferTypedSchema(type: string, values: any[], options: SchemaInferenceOptions): any {
+  if (type === 'object') {
+    const properties: { [name: string]: any } = {};
+    const names = new Set<string>();
+    values.forEach(value => Object.keys(value).forEach(name => names.add(name)));
+
+    names.forEach(name => {
+      properties[name] = inferSchema(values.map(value => value[name]), options);
+    });
+
+    const required = Array.from(names).filter(name => values.every(value => name in value));
+    const schema: any = { type: 'object', properties };
+    if (required.length > 0) schema.required = required;
+    return schema;
+  }
+
+  if (type === 'array') {
+    const items = values.flat();
+    return { type: 'array', items: inferSchema(items, options) };
+  }
+
+  if (type === 'string') {
+    return inferStringSchema(values, options);
+  }
+
+  return { type };
+}
+
+function inferStringSchema(values: string[], options: SchemaInferenceOptions): any {
+  if (options.formats !== false) {
+    const format = STRING_FORMATS.find(([, pattern]) => values.every(value => pattern.test(value)));
+    if (format) return { type: 'string', format: format[0] };
+  }
+
+  if (options.enums !== false) {
+    const distinct = Array.from(new Set(values));
+    if (
+      values.length >= MIN_ENUM_SAMPLES
+      && distinct.length <= MAX_ENUM_VALUES
+      && distinct.length < values.length
+      && distinct.every(value => value.length > 0 && value.length <= MAX_ENUM_LENGTH)
+    ) {
+      return { type: 'string', enum: distinct.sort() };
+    }
+  }
+
+  return { type: 'string' };
+}
@@ -0,0 +1,147 @@
+import { EndpointData, EndpointKind, OpenAPISpec } from '../types/openapi.js';
+import { compilePointer, isReference, parsePointer, resolvePointer } from './ref-resolver.js';
+
+export type SchemaUsageLocation = 'requestBody' | 'response' | 'parameter' | 'callback';
+
+export interface SchemaUsage {
+  // e.g. 'POST /orders'; callbacks are reported on the operation that declares them
+  operation: string;
+  kind: EndpointKind;
+  location: SchemaUsageLocation;
+  // Where the schema is reached, e.g. 'requestBody.shippingAddress' or 'responses.200.items[].address'
+  path: string;
+  mediaTypes?: string[];
+  // Named schemas passed through on the way, outermost first
+  via: string[];
+}
+
+// Schema keywords that hold subschemas, and how they show in a property path
+const PROPERTY_MAPS = ['properties', 'patternProperties', 'dependentSchemas'];
+const SUBSCHEMAS: { [keyword: string]: string | null } = {
+  items: '[]',
+  additionalProperties: '{}',
+  contains: '[]',
+  not: null,
+  if: null,
+  then: null,
+  else: null,
+};
+const SUBSCHEMA_LISTS: { [keyword: string]: string | null } = {
+  allOf: null,
+  anyOf: null,
+  oneOf: null,
+  prefixItems: '[]',
+};
+
+function formatPath(segments: string[]): string {
+  return segments.join('.').replace(/\.(\[\]|\{\})/g, '$1');
+}
+
+class UsageFinder {
+  private target: string;
+
+  constructor(private spec: OpenAPISpec, schemaName: string, private maxDepth: number) {
+    this.target = compilePointer(['components', 'schemas', schemaName]);
+  }
+
+  // Every path from `schema` to the target. A named schema already being
+  // walked is not entered again, so recursive schemas end, and the walk
+  // stops at the target rather than following it.
+  find(schema: any, path: string[], via: string[] = []): { path: string[]; via: string[] }[] {
+    if (!schema || typeof schema !== 'object') return [];
+
+    if (isReference(schema)) {
+      if (schema.$ref === this.target) return [{ path, via }];
+
+      const [section, type, name] = parsePointer(schema.$ref);
+      if (section !== 'components' || type !== 'schemas' || via.includes(name) || via.length >= this.maxDepth) return [];
+      let resolved: any;
+      try {
+        resolved = resolvePointer(this.spec, schema.$ref);
+      } catch {
+        return [];
+      }
+      return this.find(resolved, path, [...via, name]);
+    }
+
+    const found: { path: string[]; via: string[] }[] = [];
+    PROPERTY_MAPS.forEach(keyword => {
+      Object.entries(schema[keyword] || {}).forEach(([name, property]) => {
+        found.push(...this.find(property, [...path, name], via));
+      });
+    });
+    Object.entries(SUBSCHEMAS).forEach(([keyword, segment]) => {
+      found.push(...this.find(schema[keyword], segment ? [...path, segment] : path, via));
+    });
+    Object.entries(SUBSCHEMA_LISTS).forEach(([keyword, segment]) => {
+      (Array.isArray(schema[keyword]) ? schema[keyword] : []).forEach((subschema: any) => {
+        found.push(...this.find(subschema, segment ? [...path, segment] : path, via));
+      });
+    });
+    return found;
+  }
+
+  // Usages in one endpoint's parameters, request body and responses, with
+  // the same path reached through several media types reported once
+  findInEndpoint(endpoint: EndpointData, prefix: string[]): Omit<SchemaUsage, 'operation' | 'kind' | 'location'>[] {
+    const usages = new Map<string, { path: string; mediaTypes: string[]; via: string[] }>();
+    const add = (schema: any, path: string[], mediaType?: string) => {
+      this.find(schema, [...prefix, ...path]).forEach(found => {
+        const key = `${formatPath(found.path)}\n${found.via.join('/')}`;
+        if (!usages.has(key)) usages.set(key, { path: formatPath(found.path), mediaTypes: [], via: found.via });
+        if (mediaType) usages.get(key)!.mediaTypes.push(mediaType);
+      });
+    };
+    const addContent = (content: any, path: string[]) => {
+      Object.entries(content || {}).forEach(([mediaType, media]: [string, any]) => add(media?.schema, path, mediaType));
+    };
+
+    endpoint.parameters.forEach(param => {
+      if (!param?.name) return;
+      add(param.schema, ['parameters', param.name]);
+      addContent((param as any).content, ['parameters', param.name]);
+    });
+    addContent(endpoint.requestBody?.content, ['requestBody']);
+    Object.entries(endpoint.responses).forEach(([status, response]) => {
+      addContent(response?.content, ['responses', status]);
+      Object.entries(response?.headers || {}).forEach(([name, header]: [string, any]) => {
+        add(header?.schema, ['responses', status, 'headers', name]);
+      });
+    });
+
+    return Array.from(usages.values()).map(({ mediaTypes, ...usage }) => (
+      mediaTypes.length > 0 ? { ...usage, mediaTypes } : usage
+    ));
+  }
+}
+
+function locationOf(path: string): SchemaUsageLocation {
+  if (path.startsWith('parameters')) return 'parameter';
+  if (path.startsWith('requestBody')) return 'requestBody';
+  return 'response';
+}
+
+// Every operation, webhook and callback whose parameters, request body or
+// responses include the named component schema, directly or through others
+export function findSchemaUsages(spec: OpenAPISpec, endpoints: EndpointData[], schemaName: string, maxDepth = 10): SchemaUsage[] {
+  const finder = new UsageFinder(spec, schemaName, maxDepth);
+  const byId = new Map(endpoints.map(endpoint => [endpoint.id, endpoint]));
+  const usages: SchemaUsage[] = [];
+
+  endpoints.forEach(endpoint => {
+    const parent = endpoint.kind === 'callback' && endpoint.parentId ? byId.get(endpoint.parentId) : undefined;
+    const owner = parent || endpoint;
+    const prefix = parent ? ['callbacks', endpoint.callbackName || '', `${endpoint.method} ${endpoint.path}`] : [];
+
+    finder.findInEndpoint(endpoint, prefix).forEach(usage => {
+      usages.push({
+        operation: `${owner.method} ${owner.path}`,
+        kind: owner.kind,
+        location: parent ? 'callback' : locationOf(usage.path),
+        ...usage,
+      });
+    });
+  });
+
+  return usages;
+}
@@ -0,0 +1,100 @@
+// Helpers that read schema keywords the same way for OpenAPI 3.0 (nullable,
+// boolean exclusive bounds, single example) and 3.1 / JSON Schema 2020-12
+// (type arrays, numeric exclusive bounds, const, examples arrays).
+
+export interface NumericBounds {
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum: boolean;
+  exclusiveMaximum: boolean;
+}
+
+export function getSchemaTypes(schema: any): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+
+  let types: string[] = [];
+  if (Array.isArray(schema.type)) {
+    types = [...schema.type];
+  } else if (typeof schema.type === 'string') {
+    types = [schema.type];
+  } else if (schema.properties || schema.patternProperties || schema.additionalProperties) {
+    types = ['object'];
+  } else if (schema.items || schema.prefixItems) {
+    types = ['array'];
+  } else if (schema.const !== undefined) {
+    types = [jsonTypeOf(schema.const)];
+  }
+
+  if (schema.nullable === true && !types.includes('null')) {
+    types.push('null');
+  }
+
+  return types;
+}
+
+// The type to generate or describe values with, ignoring 'null'
+export function getPrimaryType(schema: any): string | undefined {
+  return getSchemaTypes(schema).find(type => type !== 'null');
+}
+
+export function hasSchemaType(schema: any, type: string): boolean {
+  const types = getSchemaTypes(schema);
+  return types.includes(type) || (type === 'number' && types.includes('integer'));
+}
+
+export function isNullable(schema: any): boolean {
+  if (!schema || typeof schema !== 'object') return false;
+  return getSchemaTypes(schema).includes('null') ||
+    (Array.isArray(schema.enum) && schema.enum.includes(null)) ||
+    ('const' in schema && schema.const === null);
+}
+
+export function describeSchemaType(schema: any): string {
+  const types = getSchemaTypes(schema);
+  return types.length > 0 ? types.join(' | ') : 'unknown';
+}
+
+export function getNumericBounds(schema: any): NumericBounds {
+  const bounds: NumericBounds = {
+    minimum: schema?.minimum,
+    maximum: schema?.maximum,
+    exclusiveMinimum: false,
+    exclusiveMaximum: false,
+  };
+
+  // A 3.1 numeric exclusive bound applies alongside the inclusive one; the
+  // stricter of the two wins, and the exclusive one on a tie
+  if (typeof schema?.exclusiveMinimum === 'number' && !(typeof bounds.minimum === 'number' && bounds.minimum > schema.exclusiveMinimum)) {
+    bounds.minimum = schema.exclusiveMinimum;
+    bounds.exclusiveMinimum = true;
+  } else if (schema?.exclusiveMinimum === true && bounds.minimum !== undefined) {
+    bounds.exclusiveMinimum = true;
+  }
+
+  if (typeof schema?.exclusiveMaximum === 'number' && !(typeof bounds.maximum === 'number' && bounds.maximum < schema.exclusiveMaximum)) {
+    bounds.maximum = schema.exclusiveMaximum;
+    bounds.exclusiveMaximum = true;
+  } else if (schema?.exclusiveMaximum === true && bounds.maximum !== undefined) {
+    bounds.exclusiveMaximum = true;
+  }
+
+  return bounds;
+}
+
+export function getSchemaExample(schema: any): any {
+  if (!schema || typeof schema !== 'object') return undefined;
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  return undefined;
+}
+
+export function jsonTypeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+export function isOpenAPI31(version: string | undefined): boolean {
+  return typeof version === 'string' && version.startsWith('3.1');
+}
@@ -0,0 +1,261 @@
+import { EndpointData, OpenAPISpec } from '../types/openapi.js';
+import { RefResolver, isReference } from './ref-resolver.js';
+
+// Where a term was found. Matches in an operationId or path say more about
+// what an endpoint does than one in a long description, so they weigh more.
+export type SearchField =
+  | 'operationId'
+  | 'path'
+  | 'summary'
+  | 'tags'
+  | 'parameters'
+  | 'description'
+  | 'properties'
+  | 'propertyDescriptions';
+
+const FIELD_WEIGHTS: { [field in SearchField]: number } = {
+  operationId: 3,
+  path: 2.5,
+  summary: 2,
+  tags: 1.5,
+  parameters: 1.5,
+  description: 1,
+  properties: 1,
+  propertyDescriptions: 0.5,
+};
+
+// Standard BM25 saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// A query term with no exact match also matches terms it is a prefix of, at this weight
+const PREFIX_WEIGHT = 0.5;
+const MIN_PREFIX_LENGTH = 3;
+
+// How deep into request/response schemas property names are collected
+const MAX_SCHEMA_DEPTH = 4;
+
+const SNIPPET_RADIUS = 60;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or',
+  'the', 'this', 'to', 'with',
+]);
+
+export interface SearchMatch {
+  field: SearchField;
+  // The matching text with matched words in **bold**
+  snippet: string;
+}
+
+export interface SearchHit {
+  endpoint: EndpointData;
+  score: number;
+  matches: SearchMatch[];
+}
+
+interface IndexedDocument {
+  endpoint: EndpointData;
+  fields: { [field in SearchField]?: string[] };
+  // Field-weighted term frequencies and length
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// Light suffix stripping so "invoices" finds "invoice" and "categories" "category"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) return token.slice(0, -1);
+  return token;
+}
+
+// Splits identifiers as well as prose: getInvoicePDF, invoice_pdf and
+// /invoices/{invoiceId}/pdf all yield "invoice" and "pdf"
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Bolds the words of `text` whose tokens matched, cut down to a window
+// around the first match when the text is long
+function highlight(text: string, matched: Set<string>): string | null {
+  const words = Array.from(new Set(text.match(/[A-Za-z0-9]+/g) || []));
+  const hits = words.filter(word => tokenize(word).some(token => matched.has(token)));
+  if (hits.length === 0) return null;
+
+  const pattern = new RegExp(`\\b(${hits.map(escapeRegExp).join('|')})\\b`, 'g');
+  const first = text.search(pattern);
+  let snippet = text;
+  if (text.length > SNIPPET_RADIUS * 2) {
+    const start = Math.max(0, first - SNIPPET_RADIUS);
+    const end = Math.min(text.length, first + SNIPPET_RADIUS);
+    snippet = `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+  }
+  return snippet.replace(/\s+/g, ' ').replace(pattern, '**$1**');
+}
+
+// A BM25 inverted index over a spec's endpoints: operationIds, paths,
+// summaries, descriptions, tags, parameter names and the property names
+// and descriptions of their request and response schemas
+export class SearchIndex {
+  private documents: IndexedDocument[] = [];
+  private postings = new Map<string, number[]>();
+  private averageLength = 0;
+
+  constructor(spec: OpenAPISpec, endpoints: EndpointData[]) {
+    const resolver = new RefResolver(spec);
+
+    endpoints.forEach((endpoint, index) => {
+      const document = this.buildDocument(resolver, endpoint);
+      this.documents.push(document);
+      document.termFrequencies.forEach((_, term) => {
+        if (!this.postings.has(term)) this.postings.set(term, []);
+        this.postings.get(term)!.push(index);
+      });
+    });
+
+    const totalLength = this.documents.reduce((sum, document) => sum + document.length, 0);
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0;
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  // Endpoints matching any query term, best first
+  search(query: string): SearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const scores = new Map<number, number>();
+    const matchedTerms = new Map<number, Set<string>>();
+
+    queryTerms.forEach(queryTerm => {
+      this.expandTerm(queryTerm).forEach(([term, weight]) => {
+        const postings = this.postings.get(term) || [];
+        const idf = Math.log(1 + (this.documents.length - postings.length + 0.5) / (postings.length + 0.5));
+
+        postings.forEach(index => {
+          const document = this.documents[index];
+          const frequency = document.termFrequencies.get(term)!;
+          const normalized = frequency * (K1 + 1) /
+            (frequency + K1 * (1 - B + B * document.length / (this.averageLength || 1)));
+          scores.set(index, (scores.get(index) || 0) + weight * idf * normalized);
+
+          if (!matchedTerms.has(index)) matchedTerms.set(index, new Set());
+          matchedTerms.get(index)!.add(term);
+        });
+      });
+    });
+
+    return Array.from(scores.entries())
+      .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || a - b)
+      .map(([index, score]) => ({
+        endpoint: this.documents[index].endpoint,
+        score,
+        matches: this.describeMatches(this.documents[index], matchedTerms.get(index)!),
+      }));
+  }
+
+  private expandTerm(term: string): [string, number][] {
+    if (this.postings.has(term)) return [[term, 1]];
+    if (term.length < MIN_PREFIX_LENGTH) return [];
+
+    return Array.from(this.postings.keys())
+      .filter(candidate => candidate.startsWith(term))
+      .map(candidate => [candidate, PREFIX_WEIGHT] as [string, number]);
+  }
+
+  private describeMatches(document: IndexedDocument, matched: Set<string>): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+
+    (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+      for (const text of document.fields[field] || []) {
+        const snippet = highlight(text, matched);
+        if (snippet) {
+          matches.push({ field, snippet });
+          break;
+        }
+      }
+    });
+
+    return matches;
+  }
+
+  private buildDocument(resolver: RefResolver, endpoint: EndpointData): IndexedDocument {
+    const fields: { [field in SearchField]?: string[] } = {
+      operationId: endpoint.operation.operationId ? [endpoint.operation.operationId] : [],
+      path: [endpoint.path],
+      summary: endpoint.summary ? [endpoint.summary] : [],
+      tags: endpoint.tags,
+      parameters: endpoint.parameters.map(param => param?.name).filter(Boolean),
+      description: endpoint.description ? [endpoint.description] : [],
+      properties: [],
+      propertyDescriptions: [],
+    };
+
+    const schemas: any[] = [];
+    Object.values(endpoint.requestBody?.content || {}).forEach(media => schemas.push(media?.schema));
+    Object.values(endpoint.responses).forEach(response => {
+      Object.values(response?.content || {}).forEach(media => schemas.push(media?.schema));
+    });
+    const seen = new Set<string>();
+    schemas.forEach(schema => this.collectProperties(resolver, schema, fields, seen, 0));
+
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+    (Object.keys(fields) as SearchField[]).forEach(field => {
+      const weight = FIELD_WEIGHTS[field];
+      fields[field]!.forEach(text => {
+        tokenize(text).forEach(token => {
+          termFrequencies.set(token, (termFrequencies.get(token) || 0) + weight);
+          length += weight;
+        });
+      });
+    });
+
+    return { endpoint, fields, termFrequencies, length };
+  }
+
+  // Named schemas are visited once per endpoint, so recursive models terminate
+  private collectProperties(resolver: RefResolver, schema: any, fields: IndexedDocument['fields'], seen: Set<string>, depth: number) {
+    if (!schema || typeof schema !== 'object' || depth > MAX_SCHEMA_DEPTH) return;
+
+    if (isReference(schema)) {
+      if (seen.has(schema.$ref)) return;
+      seen.add(schema.$ref);
+      let target: any;
+      try {
+        target = resolver.resolve(schema);
+      } catch {
+        return;
+      }
+      this.collectProperties(resolver, target, fields, seen, depth);
+      return;
+    }
+
+    Object.entries(schema.properties || {}).forEach(([name, property]: [string, any]) => {
+      fields.properties!.push(name);
+      if (typeof property?.description === 'string') {
+        fields.propertyDescriptions!.push(property.description);
+      }
+      this.collectProperties(resolver, property, fields, seen, depth + 1);
+    });
+
+    ['items', 'additionalProperties'].forEach(key => {
+      this.collectProperties(resolver, schema[key], fields, seen, depth + 1);
+    });
+    ['allOf', 'oneOf', 'anyOf'].forEach(key => {
+      (Array.isArray(schema[key]) ? schema[key] : []).forEach((member: any) => {
+        this.collectProperties(resolver, member, fields, seen, depth);
+      });
+    });
+  }
+}
@@ -0,0 +1,370 @@
+import { EndpointData, FilterState } from '../types/openapi.js';
+import { matchesExtensionFilter, parseExtensionFilter } from './extensions.js';
+import { SearchHit, SearchIndex } from './search-index.js';
+
+// A parsed search_endpoints query. Terms are ANDed unless joined with OR,
+// and NOT or a leading - negates, e.g.
+//   method:POST tag:billing status:409 scope:write:invoices param:idempotencyKey -deprecated path:/v2/**
+//   (tag:orders OR tag:billing) NOT method:DELETE refund
+// Each term becomes a one-field FilterState; bare words become its `search`.
+export type SearchQuery =
+  | { type: 'and'; terms: SearchQuery[] }
+  | { type: 'or'; terms: SearchQuery[] }
+  | { type: 'not'; term: SearchQuery }
+  | { type: 'filter'; text: string; filter: Partial<FilterState> };
+
+export interface SearchQueryResult {
+  endpoints: EndpointData[];
+  // Relevance of the matched endpoints to the query's free text, if it has any
+  hits: Map<EndpointData, SearchHit>;
+}
+
+type Token =
+  | { type: 'word'; value: string; quoted: boolean; raw: string }
+  | { type: 'and' | 'or' | 'not' | '(' | ')' };
+
+const COMPLEXITIES = ['low', 'medium', 'high'];
+const RESPONSE_TIMES = ['fast', 'medium', 'slow'];
+const KINDS = ['operation', 'webhook', 'callback'];
+
+function invalid(message: string): Error {
+  return new Error(`Invalid search query: ${message}`);
+}
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char });
+      i++;
+      continue;
+    }
+    if (char === '-' && i + 1 < query.length && !/[\s()]/.test(query[i + 1])) {
+      tokens.push({ type: 'not' });
+      i++;
+      continue;
+    }
+
+    // A word runs to the next space or parenthesis; quotes may appear
+    // anywhere in it, as in "late fee" or tag:"Billing Ops". Only a word
+    // that starts with one is a phrase rather than a field term.
+    let value = '';
+    const start = i;
+    const quoted = char === '"';
+    while (i < query.length && !/[\s()]/.test(query[i])) {
+      if (query[i] === '"') {
+        const end = query.indexOf('"', i + 1);
+        if (end === -1) throw invalid('unterminated quote');
+        value += query.slice(i + 1, end);
+        i = end + 1;
+      } else {
+        value += query[i++];
+      }
+    }
+
+    if (!quoted && (value === 'AND' || value === 'OR' || value === 'NOT')) {
+      tokens.push({ type: value.toLowerCase() as 'and' | 'or' | 'not' });
+    } else {
+      tokens.push({ type: 'word', value, quoted, raw: query.slice(start, i) });
+    }
+  }
+
+  return tokens;
+}
+
+function list(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function oneOf(field: string, value: string, allowed: string[]): string[] {
+  const values = list(value).map(item => item.toLowerCase());
+  const unknown = values.filter(item => !allowed.includes(item));
+  if (unknown.length > 0) {
+    throw invalid(`${field}:${unknown.join(',')} must be one of ${allowed.join(', ')}`);
+  }
+  return values;
+}
+
+function fieldFilter(field: string, value: string): Partial<FilterState> {
+  switch (field) {
+    case 'method':
+      return { methods: list(value).map(method => method.toUpperCase()) };
+    case 'tag':
+      return { tags: list(value) };
+    case 'status':
+      return { statusCodes: list(value) };
+    case 'scope':
+    case 'security':
+    case 'auth':
+      return { security: list(value) };
+    case 'param':
+      return { parameters: list(value) };
+    case 'path':
+      return { pathPattern: value };
+    case 'complexity':
+      return { complexity: oneOf(field, value, COMPLEXITIES) };
+    case 'time':
+      return { responseTime: oneOf(field, value, RESPONSE_TIMES) };
+    case 'kind':
+      return { kinds: oneOf(field, value, KINDS) };
+    case 'ext':
+      parseExtensionFilter(value);
+      return { extensions: [value] };
+    case 'is':
+      oneOf(field, value, ['deprecated']);
+      return { deprecated: true };
+    case 'has': {
+      const filter: Partial<FilterState> = {};
+      oneOf(field, value, ['params', 'body']).forEach(flag => {
+        if (flag === 'params') filter.hasParameters = true;
+        else filter.hasRequestBody = true;
+      });
+      return filter;
+    }
+    default:
+      throw invalid(`unknown field "${field}:". Use method, tag, status, scope, param, path, complexity, time, kind, ext, is or has`);
+  }
+}
+
+function term(token: { value: string; quoted: boolean; raw: string }): SearchQuery {
+  const { value, quoted, raw } = token;
+  const colon = value.indexOf(':');
+
+  if (!quoted && colon > 0) {
+    const rest = value.slice(colon + 1);
+    if (!rest) throw invalid(`"${value}" has no value`);
+    return { type: 'filter', text: raw, filter: fieldFilter(value.slice(0, colon).toLowerCase(), rest) };
+  }
+  if (!quoted && value === 'deprecated') {
+    return { type: 'filter', text: value, filter: { deprecated: true } };
+  }
+  if (!quoted && value.startsWith('x-')) {
+    parseExtensionFilter(value);
+    return { type: 'filter', text: value, filter: { extensions: [value] } };
+  }
+  return { type: 'filter', text: raw, filter: { search: value } };
+}
+
+function isText(query: SearchQuery): query is { type: 'filter'; text: string; filter: Partial<FilterState> } {
+  return query.type === 'filter' && query.filter.search !== undefined;
+}
+
+class QueryParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): SearchQuery {
+    const query = this.parseOr();
+    const next = this.tokens[this.position];
+    if (next) throw invalid(next.type === ')' ? 'unbalanced )' : `unexpected ${next.type.toUpperCase()}`);
+    return query;
+  }
+
+  private peek(): Token['type'] | undefined {
+    return this.tokens[this.position]?.type;
+  }
+
+  private parseOr(): SearchQuery {
+    const terms = [this.parseAnd()];
+    while (this.peek() === 'or') {
+      this.position++;
+      terms.push(this.parseAnd());
+    }
+    return terms.length === 1 ? terms[0] : { type: 'or', terms };
+  }
+
+  private parseAnd(): SearchQuery {
+    const terms = [this.parseUnary()];
+
+    for (;;) {
+      const next = this.peek();
+      if (next === 'and') {
+        this.position++;
+        terms.push(this.parseUnary());
+        continue;
+      }
+      if (next !== 'word' && next !== 'not' && next !== '(') break;
+
+      // Adjacent bare words are one free-text search ranked as a whole, so
+      // "invoice pdf" matches what either word does
+      const query = this.parseUnary();
+      const previous = terms[terms.length - 1];
+      if (isText(query) && isText(previous)) {
+        terms[terms.length - 1] = {
+          type: 'filter',
+          text: `${previous.text} ${query.text}`,
+          filter: { search: `${previous.filter.search} ${query.filter.search}` },
+        };
+      } else {
+        terms.push(query);
+      }
+    }
+
+    return terms.length === 1 ? terms[0] : { type: 'and', terms };
+  }
+
+  private parseUnary(): SearchQuery {
+    const token = this.tokens[this.position++];
+    if (!token) throw invalid('expected a term at the end of the query');
+
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', term: this.parseUnary() };
+      case '(': {
+        const query = this.parseOr();
+        if (this.tokens[this.position++]?.type !== ')') throw invalid('missing )');
+        return query;
+      }
+      case 'word':
+        return term(token);
+      default:
+        throw invalid(`expected a term before ${token.type.toUpperCase()}`);
+    }
+  }
+}
+
+export function parseSearchQuery(query: string): SearchQuery | null {
+  const tokens = lex(query);
+  return tokens.length > 0 ? new QueryParser(tokens).parse() : null;
+}
+
+// The query as it was understood, with implicit ANDs and grouping spelled out
+export function describeSearchQuery(query: SearchQuery): string {
+  switch (query.type) {
+    case 'filter':
+      return query.text;
+    case 'not':
+      return `NOT ${query.term.type === 'filter' ? describeSearchQuery(query.term) : `(${describeSearchQuery(query.term)})`}`;
+    case 'and':
+      return query.terms.map(term => term.type === 'or' ? `(${describeSearchQuery(term)})` : describeSearchQuery(term)).join(' AND ');
+    case 'or':
+      return query.terms.map(term => term.type === 'and' ? `(${describeSearchQuery(term)})` : describeSearchQuery(term)).join(' OR ');
+  }
+}
+
+// 409 matches 409 and 4XX responses; 4xx matches any 4xx response
+export function statusMatches(code: string, wanted: string): boolean {
+  const actual = code.toUpperCase();
+  const expected = wanted.toUpperCase();
+  if (actual === expected) return true;
+  if (/^[1-5]XX$/.test(expected)) return actual[0] === expected[0];
+  return /^[1-5]XX$/.test(actual) && /^\d{3}$/.test(expected) && actual[0] === expected[0];
+}
+
+// A security filter names a scheme or a scope; `none` matches endpoints
+// that can be called without credentials
+function securityMatches(endpoint: EndpointData, wanted: string): boolean {
+  const requirements = endpoint.security || [];
+  if (wanted.toLowerCase() === 'none') {
+    return requirements.length === 0 || requirements.some(requirement => Object.keys(requirement).length === 0);
+  }
+  return requirements.some(requirement => Object.entries(requirement).some(([scheme, scopes]) =>
+    scheme.toLowerCase() === wanted.toLowerCase() || (scopes || []).includes(wanted)
+  ));
+}
+
+// idempotencyKey, idempotency_key and Idempotency-Key are the same parameter
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// * matches within one path segment and ** across segments. A pattern
+// without wildcards matches that path and everything below it.
+export function pathMatches(path: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    const prefix = pattern.replace(/\/+$/, '');
+    return path === pattern || path === prefix || path.startsWith(`${prefix}/`);
+  }
+
+  const source = pattern
+    .split(/(\*\*|\*)/)
+    .map(part => part === '**' ? '.*' : part === '*' ? '[^/]*' : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`).test(path);
+}
+
+export function matchesFilterState(
+  endpoint: EndpointData,
+  filter: Partial<FilterState>,
+  matchesText: (endpoint: EndpointData, text: string) => boolean
+): boolean {
+  const { methods, tags, statusCodes, security, parameters, complexity, responseTime, kinds, extensions } = filter;
+
+  if (methods?.length && !methods.includes(endpoint.method)) return false;
+  if (tags?.length && !endpoint.tags.some(tag => tags.some(wanted => wanted.toLowerCase() === tag.toLowerCase()))) return false;
+  if (statusCodes?.length && !Object.keys(endpoint.responses).some(code => statusCodes.some(wanted => statusMatches(code, wanted)))) return false;
+  if (security?.length && !security.some(wanted => securityMatches(endpoint, wanted))) return false;
+  if (parameters?.length && !endpoint.parameters.some(param =>
+    param?.name && parameters.some(wanted => normalizeName(wanted) === normalizeName(param.name))
+  )) return false;
+  if (filter.pathPattern && !pathMatches(endpoint.path, filter.pathPattern)) return false;
+  if (complexity?.length && !(endpoint.complexity && complexity.includes(endpoint.complexity))) return false;
+  if (responseTime?.length && !(endpoint.estimatedResponseTime && responseTime.includes(endpoint.estimatedResponseTime))) return false;
+  if (kinds?.length && !kinds.includes(endpoint.kind)) return false;
+  if (extensions?.length && !extensions.every(expression => matchesExtensionFilter(endpoint, parseExtensionFilter(expression)))) return false;
+  if (typeof filter.deprecated === 'boolean' && !!endpoint.deprecated !== filter.deprecated) return false;
+  if (typeof filter.hasParameters === 'boolean' && (endpoint.parameters.length > 0) !== filter.hasParameters) return false;
+  if (typeof filter.hasRequestBody === 'boolean' && !!endpoint.requestBody !== filter.hasRequestBody) return false;
+  if (filter.search && !matchesText(endpoint, filter.search)) return false;
+  return true;
+}
+
+function matchesQuery(
+  endpoint: EndpointData,
+  query: SearchQuery,
+  matchesText: (endpoint: EndpointData, text: string) => boolean
+): boolean {
+  switch (query.type) {
+    case 'filter':
+      return matchesFilterState(endpoint, query.filter, matchesText);
+    case 'not':
+      return !matchesQuery(endpoint, query.term, matchesText);
+    case 'and':
+      return query.terms.every(term => matchesQuery(endpoint, term, matchesText));
+    case 'or':
+      return query.terms.some(term => matchesQuery(endpoint, term, matchesText));
+  }
+}
+
+// Free text the query looks for, leaving out what it excludes
+function positiveText(query: SearchQuery): string[] {
+  switch (query.type) {
+    case 'filter':
+      return query.filter.search ? [query.filter.search] : [];
+    case 'not':
+      return [];
+    default:
+      return query.terms.flatMap(positiveText);
+  }
+}
+
+// Endpoints matching the query, ranked by its free text when it has any
+export function executeSearchQuery(query: SearchQuery, endpoints: EndpointData[], index: SearchIndex | null): SearchQueryResult {
+  const searches = new Map<string, Map<EndpointData, SearchHit>>();
+  const search = (text: string) => {
+    if (!searches.has(text)) {
+      searches.set(text, new Map((index?.search(text) || []).map(hit => [hit.endpoint, hit])));
+    }
+    return searches.get(text)!;
+  };
+
+  const matched = endpoints.filter(endpoint => matchesQuery(endpoint, query, (candidate, text) => search(text).has(candidate)));
+  const text = positiveText(query).join(' ');
+  if (!text) return { endpoints: matched, hits: new Map() };
+
+  // Endpoints that matched only through a non-text branch of an OR go last
+  const hits = search(text);
+  const score = (endpoint: EndpointData) => hits.get(endpoint)?.score ?? -1;
+  return {
+    endpoints: [...matched].sort((a, b) => score(b) - score(a)),
+    hits,
+  };
+}
@@ -0,0 +1,147 @@
+import { createHash } from 'node:crypto';
+import { EndpointData, GroupingState } from '../types/openapi.js';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageOptions {
+  offset?: number;
+  // Returned as nextCursor by the previous page; takes the place of offset
+  cursor?: string;
+  pageSize?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  offset: number;
+  pageSize: number;
+  total: number;
+  // Set when there are more items after this page
+  nextCursor?: string;
+  nextOffset?: number;
+}
+
+const LEVELS: { [value: string]: number } = { low: 0, fast: 0, medium: 1, high: 2, slow: 2 };
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareLevels(a: string | undefined, b: string | undefined): number {
+  return (LEVELS[a || ''] ?? 3) - (LEVELS[b || ''] ?? 3);
+}
+
+// The group an endpoint is listed under. Endpoints with several tags are
+// listed under their first one so each appears once.
+export function groupKey(endpoint: EndpointData, groupBy: GroupingState['groupBy']): string {
+  switch (groupBy) {
+    case 'tag':
+      return endpoint.tags[0] || 'Untagged';
+    case 'method':
+      return endpoint.method;
+    case 'path':
+      return `/${endpoint.path.split('/').filter(Boolean)[0] || ''}`;
+    case 'complexity':
+      return endpoint.complexity || 'unknown';
+    case 'security': {
+      const alternatives = (endpoint.security || [])
+        .map(requirement => Object.keys(requirement).sort().join(' + ') || 'None');
+      return alternatives.length > 0 ? alternatives.join(' | ') : 'None';
+    }
+    default:
+      return '';
+  }
+}
+
+function compareBy(sortBy: GroupingState['sortBy'], a: EndpointData, b: EndpointData): number {
+  switch (sortBy) {
+    case 'path':
+      return compareStrings(a.path, b.path) || compareStrings(a.method, b.method);
+    case 'method':
+      return compareStrings(a.method, b.method) || compareStrings(a.path, b.path);
+    case 'summary':
+      // Endpoints without a summary sort last either way
+      if (!a.summary || !b.summary) return (a.summary ? 0 : 1) - (b.summary ? 0 : 1);
+      return compareStrings(a.summary.toLowerCase(), b.summary.toLowerCase());
+    case 'complexity':
+      return compareLevels(a.complexity, b.complexity);
+    case 'responseTime':
+      return compareLevels(a.estimatedResponseTime, b.estimatedResponseTime);
+  }
+}
+
+// Orders endpoints by group, then by sortBy. Without a sortBy the incoming
+// order (relevance or spec order) is kept; Array.prototype.sort is stable,
+// so ties keep it too and every call gives the same order.
+export function arrangeEndpoints(endpoints: EndpointData[], grouping: Partial<GroupingState>): EndpointData[] {
+  const { groupBy = 'none', sortBy, sortOrder = 'asc' } = grouping;
+  const direction = sortOrder === 'desc' ? -1 : 1;
+
+  return [...endpoints].sort((a, b) => {
+    if (groupBy !== 'none') {
+      const groupA = groupKey(a, groupBy);
+      const groupB = groupKey(b, groupBy);
+      const byGroup = groupBy === 'complexity' ? compareLevels(groupA, groupB) : compareStrings(groupA, groupB);
+      if (byGroup !== 0) return byGroup;
+    }
+    if (!sortBy) return 0;
+
+    // Missing summaries stay last in both directions
+    if (sortBy === 'summary' && (!a.summary || !b.summary)) return compareBy(sortBy, a, b);
+    return direction * compareBy(sortBy, a, b);
+  });
+}
+
+// Ties a cursor to one result list, so it isn't used to page through a
+// different search or a spec that has changed since
+function fingerprint<T>(items: T[], key: (item: T) => string): string {
+  const hash = createHash('sha256');
+  items.forEach(item => hash.update(key(item)).update('\n'));
+  return hash.digest('hex').slice(0, 16);
+}
+
+function encodeCursor(offset: number, list: string): string {
+  return Buffer.from(JSON.stringify({ offset, list })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { offset: number; list: string } {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(decoded.offset) && decoded.offset >= 0 && typeof decoded.list === 'string') {
+      return decoded;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid cursor: pass back the nextCursor of a previous page unchanged');
+}
+
+export function paginate<T>(items: T[], options: PageOptions, key: (item: T) => string): Page<T> {
+  const { cursor, pageSize = DEFAULT_PAGE_SIZE } = options;
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new Error(`pageSize must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+  }
+  if (cursor !== undefined && options.offset !== undefined) {
+    throw new Error('Pass either offset or cursor, not both');
+  }
+
+  const list = fingerprint(items, key);
+  let offset = options.offset ?? 0;
+  if (cursor !== undefined) {
+    const decoded = decodeCursor(cursor);
+    if (decoded.list !== list) {
+      throw new Error('The cursor belongs to a different result list: the search or the spec has changed since it was issued. Start again without a cursor.');
+    }
+    offset = decoded.offset;
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error('offset must be a whole number of 0 or more');
+  }
+
+  const page: Page<T> = { items: items.slice(offset, offset + pageSize), offset, pageSize, total: items.length };
+  if (offset + pageSize < items.length) {
+    page.nextOffset = offset + pageSize;
+    page.nextCursor = encodeCursor(page.nextOffset, list);
+  }
+  return page;
+}
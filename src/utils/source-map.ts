@@ -0,0 +1,87 @@
+import { LineCounter, parseDocument, isMap, isPair, isScalar, isSeq } from 'yaml';
+import { compilePointer, parsePointer } from './ref-resolver.js';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceLocation extends SourcePosition {
+  source: string;
+  pointer: string;
+}
+
+// Line/column (1-based) of every node in one JSON or YAML file, keyed by JSON
+// pointer. Object members are positioned at their key, array items at the
+// item itself.
+export class SourceMap {
+  private positions = new Map<string, SourcePosition>();
+
+  static fromText(content: string): SourceMap {
+    const map = new SourceMap();
+    const lineCounter = new LineCounter();
+
+    // JSON is valid YAML, so one parser covers both formats. Positions are a
+    // diagnostic aid: a file the CST parser rejects simply has no map.
+    try {
+      const document = parseDocument(content, { lineCounter, uniqueKeys: false });
+      if (document.errors.length === 0) {
+        map.visit(document.contents, [], lineCounter, document.contents?.range?.[0] ?? 0);
+      }
+    } catch {
+      // Leave the map empty
+    }
+
+    return map;
+  }
+
+  // Falls back to the closest ancestor that has a position, so pointers into
+  // generated or normalized parts of the spec still land near their origin
+  positionOf(pointer: string): SourcePosition | undefined {
+    const segments = parsePointer(pointer);
+    for (let length = segments.length; length >= 0; length--) {
+      const position = this.positions.get(compilePointer(segments.slice(0, length)));
+      if (position) return position;
+    }
+    return undefined;
+  }
+
+  // Compact [pointer, line, column] tuples for caching
+  toJSON(): [string, number, number][] {
+    return Array.from(this.positions.entries()).map(([pointer, { line, column }]) => [pointer, line, column]);
+  }
+
+  static fromJSON(entries: [string, number, number][]): SourceMap {
+    const map = new SourceMap();
+    entries.forEach(([pointer, line, column]) => map.positions.set(pointer, { line, column }));
+    return map;
+  }
+
+  private visit(node: any, segments: string[], lineCounter: LineCounter, offset: number) {
+    const { line, col } = lineCounter.linePos(offset);
+    this.positions.set(compilePointer(segments), { line, column: col });
+
+    if (isMap(node)) {
+      node.items.forEach(item => {
+        if (!isPair(item)) return;
+        const key = isScalar(item.key) ? String(item.key.value) : String(item.key);
+        const start = (item.key as any)?.range?.[0] ?? (item.value as any)?.range?.[0] ?? offset;
+        this.visit(item.value, [...segments, key], lineCounter, start);
+      });
+    } else if (isSeq(node)) {
+      node.items.forEach((item: any, index) => {
+        this.visit(item, [...segments, String(index)], lineCounter, item?.range?.[0] ?? offset);
+      });
+    }
+  }
+}
+
+export function formatLocation(location: SourceLocation | undefined): string | undefined {
+  return location ? `${location.source}:${location.line}:${location.column}` : undefined;
+}
+
+// Markdown for a finding's position, e.g. `#/paths/~1pets/get` (openapi.yaml:12:5)
+export function describeLocation(pointer: string, location: SourceLocation | undefined): string {
+  const formatted = formatLocation(location);
+  return formatted ? `\`${pointer}\` (${formatted})` : `\`${pointer}\``;
+}
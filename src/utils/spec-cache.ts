@@ -0,0 +1,184 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { EndpointData, OpenAPISpec } from '../types/openapi.js';
+import { OpenAPIParser, ParserSnapshot } from './openapi-parser.js';
+import { LoadedSpec, SpecWorkspace } from './spec-workspace.js';
+
+// Bump when the cached shape changes; entries from other versions are ignored
+const CACHE_VERSION = 4;
+
+const WORKSPACE_FILE = 'workspace.json';
+const SPECS_DIR = 'specs';
+
+export interface CachedSpec {
+  version: number;
+  hash: string;
+  savedAt: string;
+  parser: ParserSnapshot;
+  endpoints: EndpointData[];
+}
+
+interface WorkspaceRecord {
+  version: number;
+  active: string | null;
+  specs: {
+    name: string;
+    hash: string;
+    source: string;
+    sourceType: string;
+    loadedAt: string;
+    refreshInterval?: number;
+  }[];
+}
+
+// OPENAPI_SPEC_CACHE_DIR overrides the location; `off` disables caching
+export function getCacheDir(): string | null {
+  const configured = process.env.OPENAPI_SPEC_CACHE_DIR?.trim();
+  if (configured === 'off') return null;
+  return path.resolve(configured || path.join(os.homedir(), '.openapi-spec-master', 'cache'));
+}
+
+export function hashSpec(spec: OpenAPISpec): string {
+  return createHash('sha256').update(JSON.stringify(spec)).digest('hex');
+}
+
+// Parsed specs and their extracted endpoints stored on disk by content hash,
+// plus a record of the workspace so it can be restored when the server restarts
+export class SpecCache {
+  constructor(private dir: string | null = getCacheDir()) {}
+
+  get enabled(): boolean {
+    return this.dir !== null;
+  }
+
+  get location(): string | null {
+    return this.dir;
+  }
+
+  async loadSpec(hash: string): Promise<CachedSpec | null> {
+    if (!this.dir) return null;
+
+    const cached = await this.readJson<CachedSpec>(path.join(this.dir, SPECS_DIR, `${hash}.json`));
+    return cached && cached.version === CACHE_VERSION && cached.hash === hash ? cached : null;
+  }
+
+  async saveSpec(loaded: LoadedSpec): Promise<void> {
+    if (!this.dir) return;
+
+    const snapshot = loaded.parser.snapshot();
+    if (!snapshot) return;
+
+    const cached: CachedSpec = {
+      version: CACHE_VERSION,
+      hash: loaded.hash,
+      savedAt: new Date().toISOString(),
+      parser: snapshot,
+      endpoints: loaded.endpoints,
+    };
+    await this.writeJson(path.join(this.dir, SPECS_DIR, `${loaded.hash}.json`), cached);
+  }
+
+  async saveWorkspace(workspace: SpecWorkspace): Promise<void> {
+    if (!this.dir) return;
+
+    const record: WorkspaceRecord = {
+      version: CACHE_VERSION,
+      active: workspace.getActiveName(),
+      specs: workspace.list().map(loaded => ({
+        name: loaded.name,
+        hash: loaded.hash,
+        source: loaded.source,
+        sourceType: loaded.sourceType,
+        loadedAt: loaded.loadedAt.toISOString(),
+        refreshInterval: loaded.refreshInterval,
+      })),
+    };
+    await this.writeJson(path.join(this.dir, WORKSPACE_FILE), record);
+    await this.pruneSpecs(new Set(record.specs.map(entry => entry.hash)));
+  }
+
+  // Re-adds the specs of the last saved workspace. Entries whose cached spec
+  // is missing or unreadable are skipped.
+  async restoreWorkspace(workspace: SpecWorkspace): Promise<string[]> {
+    if (!this.dir) return [];
+
+    const record = await this.readJson<WorkspaceRecord>(path.join(this.dir, WORKSPACE_FILE));
+    if (!record || record.version !== CACHE_VERSION) return [];
+
+    const restored: string[] = [];
+    for (const entry of record.specs) {
+      const cached = await this.loadSpec(entry.hash);
+      if (!cached) continue;
+
+      const parser = new OpenAPIParser();
+      const spec = parser.restore(cached.parser);
+      workspace.add({
+        name: entry.name,
+        hash: entry.hash,
+        spec,
+        endpoints: cached.endpoints,
+        parser,
+        source: entry.source,
+        sourceType: entry.sourceType,
+        loadedAt: new Date(entry.loadedAt),
+        refreshInterval: entry.refreshInterval,
+      });
+      restored.push(entry.name);
+    }
+
+    if (record.active && workspace.has(record.active)) {
+      workspace.select(record.active);
+    }
+    return restored;
+  }
+
+  // Returns how many cached specs were removed
+  async clear(): Promise<number> {
+    if (!this.dir) return 0;
+
+    let count = 0;
+    try {
+      count = (await readdir(path.join(this.dir, SPECS_DIR))).filter(file => file.endsWith('.json')).length;
+    } catch {
+      // Nothing cached yet
+    }
+
+    await rm(path.join(this.dir, SPECS_DIR), { recursive: true, force: true });
+    await rm(path.join(this.dir, WORKSPACE_FILE), { force: true });
+    return count;
+  }
+
+  // Reloads, overlays and unloads leave older entries behind; only the
+  // specs the saved workspace refers to are kept
+  private async pruneSpecs(keep: Set<string>): Promise<void> {
+    const dir = path.join(this.dir!, SPECS_DIR);
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch {
+      return;
+    }
+
+    await Promise.all(files
+      .filter(file => file.endsWith('.json') && !keep.has(file.slice(0, -'.json'.length)))
+      .map(file => rm(path.join(dir, file), { force: true })));
+  }
+
+  private async readJson<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  // Write to a temporary file first so an interrupted write never leaves a truncated entry
+  private async writeJson(file: string, value: any): Promise<void> {
+    await mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(value));
+    await rename(temporary, file);
+  }
+}
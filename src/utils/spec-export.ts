@@ -0,0 +1,108 @@
+import yaml from 'js-yaml';
+import { ConversionWarning, OpenAPISpec } from '../types/openapi.js';
+import { RefResolver, compilePointer, isLocalRef, isReference, parsePointer, resolvePointer } from './ref-resolver.js';
+import { SpecVersion, convertSpecVersion } from './version-converter.js';
+
+export type SpecExportFormat = 'yaml' | 'json';
+
+// bundled: one document with its internal $refs kept as written
+// dereferenced: every $ref inlined, except those that would recurse forever
+export type SpecExportMode = 'bundled' | 'dereferenced';
+
+export interface SpecExportOptions {
+  format?: SpecExportFormat;
+  mode?: SpecExportMode;
+  // When dereferencing, fail instead of keeping circular $refs
+  rejectCircular?: boolean;
+  // Convert to another version on the way out (default: the spec's own)
+  version?: SpecVersion;
+}
+
+export interface SpecExport {
+  content: string;
+  // $refs left in a dereferenced export because inlining them would never end
+  circularRefs: string[];
+  // What the version conversion could not carry over exactly
+  warnings: ConversionWarning[];
+  // e.g. 'Swagger 2.0' or 'OpenAPI 3.1.0'
+  versionLabel: string;
+}
+
+// Local $refs in a value that point at something in the spec; dangling ones
+// are left alone and not reported
+function collectRefs(spec: OpenAPISpec, value: any, refs: Set<string>) {
+  if (!value || typeof value !== 'object') return;
+  if (isReference(value) && isLocalRef(value.$ref)) {
+    try {
+      resolvePointer(spec, value.$ref);
+      refs.add(value.$ref);
+    } catch {
+      // Dangling
+    }
+  }
+  Object.values(value).forEach(child => collectRefs(spec, child, refs));
+}
+
+// Inlines every reference outside components. A circular reference can't be
+// inlined, so it is kept along with the components it (transitively) points
+// at, themselves dereferenced, so the output still resolves.
+function dereferenceSpec(spec: OpenAPISpec): { document: any; circularRefs: string[] } {
+  const resolver = new RefResolver(spec);
+  const { components, ...rest } = spec;
+  const document: any = resolver.dereference(rest);
+
+  const refs = new Set<string>();
+  collectRefs(spec, document, refs);
+
+  // Security schemes are referenced by name, not $ref, so they always stay
+  const kept: any = components?.securitySchemes ? { securitySchemes: components.securitySchemes } : {};
+  const pending = Array.from(refs);
+
+  while (pending.length > 0) {
+    const [section, type, name] = parsePointer(pending.pop()!);
+    const component = section === 'components' && name !== undefined ? (components as any)?.[type]?.[name] : undefined;
+    if (component === undefined || kept[type]?.[name] !== undefined) continue;
+
+    // Dereferenced through its own $ref so a self-reference stays one at the top
+    kept[type] = kept[type] || {};
+    kept[type][name] = resolver.dereference({ $ref: compilePointer(['components', type, name]) });
+
+    const nested = new Set<string>();
+    collectRefs(spec, kept[type][name], nested);
+    nested.forEach(ref => {
+      if (!refs.has(ref)) pending.push(ref);
+      refs.add(ref);
+    });
+  }
+
+  if (Object.keys(kept).length > 0) {
+    document.components = kept;
+  }
+  return { document, circularRefs: Array.from(refs).sort() };
+}
+
+export function exportSpec(spec: OpenAPISpec, options: SpecExportOptions = {}): SpecExport {
+  const { format = 'yaml', mode = 'bundled' } = options;
+  let document: any = spec;
+  let circularRefs: string[] = [];
+
+  if (mode === 'dereferenced') {
+    ({ document, circularRefs } = dereferenceSpec(spec));
+    if (options.rejectCircular && circularRefs.length > 0) {
+      throw new Error(`The spec has circular references that cannot be inlined: ${circularRefs.join(', ')}`);
+    }
+  }
+
+  let warnings: ConversionWarning[] = [];
+  if (options.version) {
+    ({ document, warnings } = convertSpecVersion(document, options.version));
+  }
+
+  // Converters leave optional fields undefined; JSON drops them and so does skipInvalid
+  const content = format === 'json'
+    ? JSON.stringify(document, null, 2)
+    : yaml.dump(document, { noRefs: true, lineWidth: -1, skipInvalid: true });
+
+  const versionLabel = document.swagger !== undefined ? `Swagger ${document.swagger}` : `OpenAPI ${document.openapi}`;
+  return { content, circularRefs, warnings, versionLabel };
+}
@@ -0,0 +1,215 @@
+import { watch, FSWatcher } from 'node:fs';
+import path from 'node:path';
+import { OpenAPIParser } from './openapi-parser.js';
+import { isUrl } from './bundler.js';
+import { hashSpec } from './spec-cache.js';
+import { LoadedSpec, SpecWorkspace } from './spec-workspace.js';
+import {
+  EndpointChanges,
+  SchemaChanges,
+  diffEndpoints,
+  diffSchemas,
+  hasSchemaChanges,
+  summarizeEndpointChanges,
+  summarizeSchemaChanges,
+} from './endpoint-diff.js';
+
+export interface SpecReloadEvent {
+  name: string;
+  source: string;
+  // Set when the new version could not be loaded; the previous one stays in use
+  error?: string;
+  changes?: EndpointChanges;
+  schemaChanges?: SchemaChanges;
+  timestamp: string;
+}
+
+export type SpecReloadListener = (event: SpecReloadEvent, loaded?: LoadedSpec) => void | Promise<void>;
+
+// Editors often write a file several times in quick succession when saving
+const RELOAD_DELAY_MS = 200;
+
+export const MIN_REFRESH_INTERVAL_SECONDS = 5;
+
+export function formatSpecReloadEvent(event: SpecReloadEvent): string {
+  if (event.error) {
+    return `Reloading spec "${event.name}" failed: ${event.error.replace(/\.$/, '')}. Still using the previously loaded version.`;
+  }
+  const summary = `Spec "${event.name}" reloaded: ${event.changes ? summarizeEndpointChanges(event.changes) : 'No endpoint changes'}`;
+  return event.schemaChanges && hasSchemaChanges(event.schemaChanges)
+    ? `${summary}\n${summarizeSchemaChanges(event.schemaChanges)}`
+    : summary;
+}
+
+// Re-parses file-sourced specs when the root file or any file it bundles
+// changes on disk, and re-fetches URL-sourced specs that have a refresh
+// interval. Reports which endpoints and schemas were added, removed or changed.
+export class SpecReloader {
+  private watchers = new Map<string, FSWatcher[]>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private pollers = new Map<string, NodeJS.Timeout>();
+  private pending = new Set<string>();
+  // Last error reported per polled spec, so an unreachable server is reported
+  // once rather than on every refresh
+  private failures = new Map<string, string>();
+
+  constructor(private workspace: SpecWorkspace, private listener: SpecReloadListener) {}
+
+  watch(loaded: LoadedSpec) {
+    this.unwatch(loaded.name);
+
+    if (loaded.sourceType === 'url' && loaded.refreshInterval) {
+      const interval = Math.max(loaded.refreshInterval, MIN_REFRESH_INTERVAL_SECONDS) * 1000;
+      const poller = setInterval(() => this.poll(loaded.name), interval);
+      // Polling alone should not keep the process running
+      poller.unref();
+      this.pollers.set(loaded.name, poller);
+      return;
+    }
+    if (loaded.sourceType !== 'file') return;
+
+    // Watch directories rather than files: saving by replacing the file
+    // (as many editors do) would silently end a watch on the file itself
+    const filesByDirectory = new Map<string, Set<string>>();
+    loaded.parser.getSources().filter(source => !isUrl(source)).forEach(file => {
+      const directory = path.dirname(file);
+      if (!filesByDirectory.has(directory)) filesByDirectory.set(directory, new Set());
+      filesByDirectory.get(directory)!.add(path.basename(file));
+    });
+
+    const watchers: FSWatcher[] = [];
+    filesByDirectory.forEach((files, directory) => {
+      try {
+        const watcher = watch(directory, (_event, filename) => {
+          if (!filename || files.has(filename.toString())) {
+            this.schedule(loaded.name);
+          }
+        });
+        watcher.on('error', () => watcher.close());
+        watchers.push(watcher);
+      } catch {
+        // The directory is gone; there is nothing left to watch there
+      }
+    });
+
+    this.watchers.set(loaded.name, watchers);
+  }
+
+  unwatch(name: string) {
+    this.watchers.get(name)?.forEach(watcher => watcher.close());
+    this.watchers.delete(name);
+
+    const timer = this.timers.get(name);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(name);
+
+    const poller = this.pollers.get(name);
+    if (poller) clearInterval(poller);
+    this.pollers.delete(name);
+    this.failures.delete(name);
+  }
+
+  isWatching(name: string): boolean {
+    return (this.watchers.get(name)?.length ?? 0) > 0;
+  }
+
+  isPolling(name: string): boolean {
+    return this.pollers.has(name);
+  }
+
+  close() {
+    Array.from(this.watchers.keys()).forEach(name => this.unwatch(name));
+    Array.from(this.pollers.keys()).forEach(name => this.unwatch(name));
+  }
+
+  // A slow server can take longer than the interval; skip ticks while a
+  // fetch is still running
+  private poll(name: string) {
+    if (this.pending.has(name)) return;
+
+    this.pending.add(name);
+    this.reload(name)
+      .catch(() => {
+        // Failures are reported through the listener
+      })
+      .finally(() => this.pending.delete(name));
+  }
+
+  private schedule(name: string) {
+    const existing = this.timers.get(name);
+    if (existing) clearTimeout(existing);
+
+    this.timers.set(name, setTimeout(() => {
+      this.timers.delete(name);
+      this.reload(name).catch(() => {
+        // Failures are reported through the listener
+      });
+    }, RELOAD_DELAY_MS));
+  }
+
+  // Returns null when the spec is gone or its content did not change
+  async reload(name: string): Promise<SpecReloadEvent | null> {
+    if (!this.workspace.has(name)) {
+      this.unwatch(name);
+      return null;
+    }
+
+    const previous = this.workspace.get(name);
+    const remote = previous.sourceType === 'url';
+    const parser = new OpenAPIParser();
+    let loaded: LoadedSpec;
+
+    try {
+      // A 304 for every fetched document means there is nothing to re-parse
+      if (remote && !(await previous.parser.hasRemoteChanges())) {
+        this.failures.delete(name);
+        return null;
+      }
+
+      const options = previous.parser.getParseOptions();
+      const spec = remote
+        ? await parser.parseFromUrl(previous.source, options)
+        : await parser.parseFromFile(previous.source, options);
+      const hash = hashSpec(spec);
+      loaded = { ...previous, hash, spec, endpoints: parser.extractEndpoints(), parser, loadedAt: new Date() };
+      this.failures.delete(name);
+
+      if (hash === previous.hash) {
+        // Same content under new validators; keep them so the next check can be conditional
+        if (remote && this.workspace.has(name) && this.workspace.get(name) === previous) {
+          this.workspace.replace({ ...loaded, loadedAt: previous.loadedAt });
+        }
+        return null;
+      }
+    } catch (error) {
+      const event: SpecReloadEvent = {
+        name,
+        source: previous.source,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      };
+      if (remote && this.failures.get(name) === event.error) return event;
+
+      this.failures.set(name, event.error!);
+      await this.listener(event);
+      return event;
+    }
+
+    // The spec may have been unloaded or loaded again while parsing
+    if (!this.workspace.has(name) || this.workspace.get(name) !== previous) return null;
+
+    this.workspace.replace(loaded);
+    // Refs may have been added or removed, so the set of files to watch can change
+    if (!remote) this.watch(loaded);
+
+    const event: SpecReloadEvent = {
+      name,
+      source: previous.source,
+      changes: diffEndpoints(previous.spec, previous.endpoints, loaded.spec, loaded.endpoints),
+      schemaChanges: diffSchemas(previous.spec, loaded.spec),
+      timestamp: new Date().toISOString(),
+    };
+    await this.listener(event, loaded);
+    return event;
+  }
+}
@@ -0,0 +1,143 @@
+import Ajv from 'ajv';
+import Ajv2020 from 'ajv/dist/2020.js';
+import AjvDraft04 from 'ajv-draft-04';
+import { openapi } from '@apidevtools/openapi-schemas';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import { SpecValidationError } from '../types/openapi.js';
+import { compilePointer, parsePointer } from './ref-resolver.js';
+
+type SchemaVersion = 'v2' | 'v3' | 'v31';
+
+const validators = new Map<SchemaVersion, ValidateFunction>();
+
+function getValidator(version: SchemaVersion): ValidateFunction {
+  let validate = validators.get(version);
+  if (!validate) {
+    // The official schemas use draft-04 (2.0, 3.0) and 2020-12 (3.1) and
+    // describe formats loosely, so unknown formats are ignored
+    const options = { allErrors: true, strict: false, validateFormats: false };
+    validate = version === 'v31'
+      ? new Ajv2020(options).compile(staticSchemaRefs(openapi.v31))
+      : new AjvDraft04(options).compile(openapi[version]);
+    validators.set(version, validate);
+  }
+  return validate;
+}
+
+// YAML reads an unquoted `openapi: 3.0` as the number 3
+function versionString(value: any): string {
+  return typeof value === 'number' && Number.isInteger(value) ? value.toFixed(1) : String(value ?? '');
+}
+
+// The 3.1 schema reaches Schema Objects through `$dynamicRef: #meta` so that
+// dialects can extend it. Ajv evaluates unevaluatedProperties across that
+// dynamic scope incorrectly, so point the references at the base definition.
+function staticSchemaRefs(node: any): any {
+  if (Array.isArray(node)) return node.map(staticSchemaRefs);
+  if (!node || typeof node !== 'object') return node;
+
+  const result: any = {};
+  Object.entries(node).forEach(([key, value]) => {
+    if (key === '$dynamicRef' && value === '#meta') {
+      result.$ref = '#/$defs/schema';
+    } else {
+      result[key] = staticSchemaRefs(value);
+    }
+  });
+  return result;
+}
+
+function detectVersion(document: any): SchemaVersion | null {
+  if (document?.swagger !== undefined) {
+    return versionString(document.swagger).startsWith('2.') ? 'v2' : null;
+  }
+  const version = versionString(document?.openapi);
+  if (version.startsWith('3.1')) return 'v31';
+  if (version.startsWith('3.0')) return 'v3';
+  return null;
+}
+
+// Check a raw (bundled, unconverted) document against the official OpenAPI
+// meta-schema for its declared version
+export function validateSpecDocument(document: any): SpecValidationError[] {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    return [{ pointer: '#', message: 'Specification must be an object' }];
+  }
+
+  const version = detectVersion(document);
+  if (!version) {
+    const declared = document.swagger ?? document.openapi;
+    return [{
+      pointer: document.swagger !== undefined ? '#/swagger' : '#/openapi',
+      message: declared === undefined
+        ? 'Missing openapi (or swagger) version field'
+        : `Unsupported specification version: ${declared}`,
+    }];
+  }
+
+  // The schemas expect the version as a string
+  const subject = { ...document };
+  if (subject.openapi !== undefined) subject.openapi = versionString(subject.openapi);
+  if (subject.swagger !== undefined) subject.swagger = versionString(subject.swagger);
+
+  const validate = getValidator(version);
+  if (validate(subject)) return [];
+
+  return summarizeErrors(validate.errors || []);
+}
+
+// oneOf/anyOf branches produce one error per alternative; report only the
+// most specific failure for each location so a single typo reads as one problem
+function summarizeErrors(errors: ErrorObject[]): SpecValidationError[] {
+  const byPointer = new Map<string, ErrorObject[]>();
+
+  errors.forEach(error => {
+    const pointer = compilePointer(parsePointer(error.instancePath));
+    const property = error.params.additionalProperty ?? error.params.unevaluatedProperty;
+    const target = property !== undefined ? compilePointer([...parsePointer(error.instancePath), property]) : pointer;
+    byPointer.set(target, [...(byPointer.get(target) || []), error]);
+  });
+
+  const pointers = Array.from(byPointer.keys());
+  const result: SpecValidationError[] = [];
+
+  pointers.forEach(pointer => {
+    // A deeper failure explains the combinator failures on its ancestors
+    const hasDeeper = pointers.some(other => other !== pointer && other.startsWith(`${pointer}/`));
+    const specific = byPointer.get(pointer)!.filter(error => !isAlternativeFailure(error));
+    if (hasDeeper && specific.length === 0) return;
+
+    const reported = specific.length > 0 ? specific : byPointer.get(pointer)!;
+    const messages = new Set(reported.filter(error => error.keyword !== 'enum').map(describeError));
+
+    // Each oneOf branch may allow a different enum subset; list them together
+    const allowed = new Set(reported.filter(error => error.keyword === 'enum').flatMap(error => error.params.allowedValues));
+    if (allowed.size > 0) messages.add(`Must be one of: ${Array.from(allowed).join(', ')}`);
+
+    messages.forEach(message => result.push({ pointer, message }));
+  });
+
+  return result;
+}
+
+// Failures that only say "none of the alternatives matched", including the
+// Reference branch of every Schema-or-Reference choice asking for a $ref
+function isAlternativeFailure(error: ErrorObject): boolean {
+  return ['oneOf', 'anyOf', 'if', 'not', '$ref'].includes(error.keyword) ||
+    (error.keyword === 'required' && error.params.missingProperty === '$ref');
+}
+
+function describeError(error: ErrorObject): string {
+  switch (error.keyword) {
+    case 'required':
+      return `Missing required property '${error.params.missingProperty}'`;
+    case 'additionalProperties':
+    case 'unevaluatedProperties':
+      return `Unexpected property '${error.params.additionalProperty ?? error.params.unevaluatedProperty}'`;
+    case 'oneOf':
+    case 'anyOf':
+      return 'Does not match any of the allowed shapes for this object';
+    default:
+      return error.message ? error.message.charAt(0).toUpperCase() + error.message.slice(1) : `Failed ${error.keyword} check`;
+  }
+}
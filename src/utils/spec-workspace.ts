@@ -0,0 +1,113 @@
+import { EndpointData, OpenAPISpec } from '../types/openapi.js';
+import { OpenAPIParser } from './openapi-parser.js';
+import { SearchIndex } from './search-index.js';
+
+// What a tool call works on. `spec` is null while nothing is loaded so tools
+// can report that the same way they always have.
+export interface SpecContext {
+  spec: OpenAPISpec | null;
+  endpoints: EndpointData[];
+  parser: OpenAPIParser;
+}
+
+export interface LoadedSpec extends SpecContext {
+  name: string;
+  // Content hash of the parsed spec, used as its cache key
+  hash: string;
+  spec: OpenAPISpec;
+  source: string;
+  sourceType: string;
+  loadedAt: Date;
+  // Seconds between re-fetches of a URL-sourced spec; unset means never
+  refreshInterval?: number;
+}
+
+// Turn an API title into a spec name, e.g. "Billing API v2" -> "billing-api-v2"
+export function toSpecName(title: string | undefined): string {
+  const name = (title || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return name || 'spec';
+}
+
+// Named specs loaded in this session. The most recently loaded or selected
+// one is active and used by tools that aren't given a spec name.
+export class SpecWorkspace {
+  private specs = new Map<string, LoadedSpec>();
+  private activeName: string | null = null;
+  // Built whenever a spec is loaded or replaced, so searches don't pay for it
+  private searchIndexes = new Map<string, SearchIndex>();
+
+  // Loading under an existing name replaces that spec
+  add(loaded: LoadedSpec): void {
+    this.specs.set(loaded.name, loaded);
+    this.searchIndexes.set(loaded.name, new SearchIndex(loaded.spec, loaded.endpoints));
+    this.activeName = loaded.name;
+  }
+
+  // Swap in a new version of a loaded spec without changing which one is active
+  replace(loaded: LoadedSpec): void {
+    this.get(loaded.name);
+    this.specs.set(loaded.name, loaded);
+    this.searchIndexes.set(loaded.name, new SearchIndex(loaded.spec, loaded.endpoints));
+  }
+
+  has(name: string): boolean {
+    return this.specs.has(name);
+  }
+
+  get(name: string): LoadedSpec {
+    const loaded = this.specs.get(name);
+    if (!loaded) {
+      const available = this.list().map(spec => spec.name);
+      throw new Error(`Unknown spec: ${name}. ${available.length > 0 ? `Loaded specs: ${available.join(', ')}` : 'No specs are loaded.'}`);
+    }
+    return loaded;
+  }
+
+  select(name: string): LoadedSpec {
+    const loaded = this.get(name);
+    this.activeName = name;
+    return loaded;
+  }
+
+  // Removing the active spec activates the most recently loaded remaining one
+  remove(name: string): LoadedSpec {
+    const loaded = this.get(name);
+    this.specs.delete(name);
+    this.searchIndexes.delete(name);
+
+    if (this.activeName === name) {
+      const remaining = this.list().sort((a, b) => b.loadedAt.getTime() - a.loadedAt.getTime());
+      this.activeName = remaining.length > 0 ? remaining[0].name : null;
+    }
+    return loaded;
+  }
+
+  list(): LoadedSpec[] {
+    return Array.from(this.specs.values());
+  }
+
+  getActive(): LoadedSpec | null {
+    return this.activeName ? this.specs.get(this.activeName) || null : null;
+  }
+
+  getActiveName(): string | null {
+    return this.activeName;
+  }
+
+  // The search index of the named spec, or of the active one
+  searchIndex(name?: string): SearchIndex | null {
+    const specName = name ? this.get(name).name : this.activeName;
+    return specName ? this.searchIndexes.get(specName) || null : null;
+  }
+
+  // The named spec, or the active one when no name is given
+  context(name?: string): SpecContext {
+    if (name) return this.get(name);
+
+    const active = this.getActive();
+    return active || { spec: null, endpoints: [], parser: new OpenAPIParser() };
+  }
+}
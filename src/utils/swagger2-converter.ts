@@ -0,0 +1,546 @@
+import {
+  OpenAPISpec,
+  Operation,
+  Parameter,
+  RequestBody,
+  Response,
+  Header,
+  SecurityScheme,
+  Server,
+  ConversionWarning,
+} from '../types/openapi.js';
+import { compilePointer, escapePointerSegment, isReference } from './ref-resolver.js';
+import { copyExtensions } from './extensions.js';
+
+export interface Swagger2ConversionResult {
+  spec: OpenAPISpec;
+  warnings: ConversionWarning[];
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+// Schema keywords that carry over from Swagger 2.0 unchanged
+const SCHEMA_PASSTHROUGH_KEYS = [
+  'title', 'description', 'default', 'multipleOf', 'maximum', 'exclusiveMaximum', 'minimum',
+  'exclusiveMinimum', 'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems',
+  'maxProperties', 'minProperties', 'required', 'enum', 'type', 'format', 'readOnly', 'xml',
+  'externalDocs', 'example',
+];
+
+// Keywords a non-body parameter (or header) can carry that belong in its schema in 3.0
+const SIMPLE_SCHEMA_KEYS = [
+  'type', 'format', 'default', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+  'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems', 'enum', 'multipleOf',
+];
+
+export function convertSwagger2ToOpenAPI3(swagger2: any): Swagger2ConversionResult {
+  return new Swagger2Converter(swagger2).convert();
+}
+
+class Swagger2Converter {
+  private warnings: ConversionWarning[] = [];
+  private globalConsumes: string[];
+  private globalProduces: string[];
+
+  constructor(private swagger2: any) {
+    this.globalConsumes = swagger2.consumes || [DEFAULT_MEDIA_TYPE];
+    this.globalProduces = swagger2.produces || [DEFAULT_MEDIA_TYPE];
+  }
+
+  convert(): Swagger2ConversionResult {
+    const swagger2 = this.swagger2;
+    const openapi3: OpenAPISpec = {
+      openapi: '3.0.3',
+      info: copyExtensions(swagger2.info, {
+        title: swagger2.info?.title || 'API',
+        version: swagger2.info?.version || '1.0.0',
+        description: swagger2.info?.description,
+        termsOfService: swagger2.info?.termsOfService,
+        contact: swagger2.info?.contact,
+        license: swagger2.info?.license
+      }),
+      paths: {}
+    };
+    copyExtensions(swagger2, openapi3);
+
+    const servers = this.convertServers(swagger2.schemes, '#');
+    if (servers) openapi3.servers = servers;
+
+    if (swagger2.tags) openapi3.tags = swagger2.tags;
+    if (swagger2.externalDocs) openapi3.externalDocs = swagger2.externalDocs;
+    if (swagger2.security) openapi3.security = swagger2.security;
+
+    const components: any = {};
+
+    if (swagger2.definitions) {
+      components.schemas = {};
+      Object.entries(swagger2.definitions).forEach(([name, definition]) => {
+        components.schemas[name] = this.convertSchema(definition, compilePointer(['definitions', name]));
+      });
+    }
+
+    // Shared parameters: body parameters become request bodies, formData ones
+    // are inlined into each operation's form schema where they are referenced
+    if (swagger2.parameters) {
+      Object.entries(swagger2.parameters).forEach(([name, param]: [string, any]) => {
+        const pointer = compilePointer(['parameters', name]);
+        if (param.in === 'body') {
+          components.requestBodies = components.requestBodies || {};
+          components.requestBodies[name] = this.convertBodyParameter(param, this.globalConsumes, pointer);
+        } else if (param.in !== 'formData') {
+          components.parameters = components.parameters || {};
+          components.parameters[name] = this.convertParameter(param, pointer);
+        }
+      });
+    }
+
+    if (swagger2.responses) {
+      components.responses = {};
+      Object.entries(swagger2.responses).forEach(([name, response]) => {
+        components.responses[name] = this.convertResponse(response, this.globalProduces, compilePointer(['responses', name]));
+      });
+    }
+
+    if (swagger2.securityDefinitions) {
+      components.securitySchemes = {};
+      Object.entries(swagger2.securityDefinitions).forEach(([name, definition]) => {
+        components.securitySchemes[name] = this.convertSecurityScheme(definition, compilePointer(['securityDefinitions', name]));
+      });
+    }
+
+    if (Object.keys(components).length > 0) {
+      openapi3.components = components;
+    }
+
+    Object.entries(swagger2.paths || {}).forEach(([path, pathItem]: [string, any]) => {
+      openapi3.paths[path] = this.convertPathItem(pathItem, compilePointer(['paths', path]));
+    });
+
+    return { spec: openapi3, warnings: this.warnings };
+  }
+
+  private warn(pointer: string, message: string) {
+    this.warnings.push({ pointer, message });
+  }
+
+  private convertServers(schemes: string[] | undefined, pointer: string): Server[] | undefined {
+    const swagger2 = this.swagger2;
+    if (!swagger2.host && !swagger2.basePath && !schemes) return undefined;
+
+    const host = swagger2.host || 'localhost';
+    const basePath = swagger2.basePath || '';
+    if (!swagger2.host) {
+      this.warn(pointer, 'No host defined; servers use "localhost" as a placeholder');
+    }
+
+    return (schemes && schemes.length > 0 ? schemes : ['https']).map(scheme => ({
+      url: `${scheme}://${host}${basePath}`,
+      description: 'Converted from Swagger 2.0'
+    }));
+  }
+
+  private convertPathItem(pathItem: any, pointer: string): any {
+    if (pathItem.$ref) {
+      this.warn(pointer, 'Path item $ref kept as-is; external path items are not converted');
+      return { $ref: pathItem.$ref };
+    }
+
+    const converted: any = {};
+    const pathParams: any[] = pathItem.parameters || [];
+
+    // Body and formData parameters can't live at path level in 3.0, so they are pushed down into each operation
+    const sharedParams = pathParams.filter(param => {
+      const resolved = this.resolveParameter(param);
+      return resolved.in !== 'body' && resolved.in !== 'formData';
+    });
+    const pushedDown = pathParams.filter(param => !sharedParams.includes(param));
+
+    HTTP_METHODS.forEach(method => {
+      if (pathItem[method]) {
+        converted[method] = this.convertOperation(pathItem[method], pushedDown, `${pointer}/${method}`);
+      }
+    });
+
+    if (sharedParams.length > 0) {
+      converted.parameters = sharedParams.map((param, index) => this.convertParameterOrRef(param, `${pointer}/parameters/${index}`));
+    }
+
+    return copyExtensions(pathItem, converted);
+  }
+
+  private convertOperation(operation: any, inheritedParams: any[], pointer: string): Operation {
+    const converted: Operation = {
+      summary: operation.summary,
+      description: operation.description,
+      operationId: operation.operationId,
+      tags: operation.tags,
+      deprecated: operation.deprecated,
+      responses: {}
+    };
+
+    if (operation.externalDocs) converted.externalDocs = operation.externalDocs;
+    if (operation.security) converted.security = operation.security;
+
+    if (operation.schemes) {
+      converted.servers = this.convertServers(operation.schemes, `${pointer}/schemes`);
+    }
+
+    const consumes: string[] = operation.consumes || this.globalConsumes;
+    const produces: string[] = operation.produces || this.globalProduces;
+
+    // Operation parameters override inherited ones with the same name and location
+    const ownParams: any[] = operation.parameters || [];
+    const ownKeys = new Set(ownParams.map(param => {
+      const resolved = this.resolveParameter(param);
+      return `${resolved.in}:${resolved.name}`;
+    }));
+    const params = [
+      ...inheritedParams.filter(param => {
+        const resolved = this.resolveParameter(param);
+        return !ownKeys.has(`${resolved.in}:${resolved.name}`);
+      }),
+      ...ownParams,
+    ];
+
+    const convertedParams: any[] = [];
+    const formParams: { param: any; pointer: string }[] = [];
+
+    params.forEach((param, index) => {
+      const paramPointer = `${pointer}/parameters/${index}`;
+      const resolved = this.resolveParameter(param);
+
+      if (resolved.in === 'body') {
+        if (isReference(param) && param.$ref.startsWith('#/parameters/')) {
+          converted.requestBody = { $ref: param.$ref.replace('#/parameters/', '#/components/requestBodies/') };
+        } else {
+          converted.requestBody = this.convertBodyParameter(resolved, consumes, paramPointer);
+        }
+      } else if (resolved.in === 'formData') {
+        formParams.push({ param: resolved, pointer: paramPointer });
+      } else {
+        convertedParams.push(this.convertParameterOrRef(param, paramPointer));
+      }
+    });
+
+    if (formParams.length > 0) {
+      if (converted.requestBody) {
+        this.warn(pointer, 'Operation declares both body and formData parameters; formData parameters were dropped');
+      } else {
+        converted.requestBody = this.convertFormParameters(formParams, consumes, pointer);
+      }
+    }
+
+    if (convertedParams.length > 0) {
+      converted.parameters = convertedParams;
+    }
+
+    Object.entries(operation.responses || {}).forEach(([code, response]) => {
+      converted.responses[code] = this.convertResponse(response, produces, `${pointer}/responses/${escapePointerSegment(code)}`);
+    });
+
+    return copyExtensions(operation, converted);
+  }
+
+  private resolveParameter(param: any): any {
+    if (isReference(param) && param.$ref.startsWith('#/parameters/')) {
+      return this.swagger2.parameters?.[param.$ref.slice('#/parameters/'.length)] || param;
+    }
+    return param;
+  }
+
+  private convertParameterOrRef(param: any, pointer: string): any {
+    if (isReference(param)) {
+      return { $ref: param.$ref.replace('#/parameters/', '#/components/parameters/') };
+    }
+    return this.convertParameter(param, pointer);
+  }
+
+  private convertParameter(param: any, pointer: string): Parameter {
+    const converted: Parameter = {
+      name: param.name,
+      in: param.in as any,
+      description: param.description,
+      required: param.in === 'path' ? true : param.required,
+    };
+
+    if (param.allowEmptyValue !== undefined) converted.allowEmptyValue = param.allowEmptyValue;
+    if (param['x-deprecated'] !== undefined) converted.deprecated = param['x-deprecated'];
+
+    converted.schema = this.convertSimpleSchema(param, pointer);
+
+    if (param.type === 'array') {
+      Object.assign(converted, this.convertCollectionFormat(param.collectionFormat, param.in, pointer));
+    }
+
+    if (param['x-example'] !== undefined) converted.example = param['x-example'];
+
+    return copyExtensions(param, converted, ['x-deprecated', 'x-example', 'x-nullable']);
+  }
+
+  // Swagger 2.0 serializes array parameters with collectionFormat; 3.0 uses style/explode
+  private convertCollectionFormat(collectionFormat: string | undefined, location: string, pointer: string): { style?: string; explode?: boolean } {
+    const isQueryLike = location === 'query' || location === 'cookie';
+
+    switch (collectionFormat || 'csv') {
+      case 'csv':
+        return isQueryLike ? { style: 'form', explode: false } : { style: 'simple' };
+      case 'multi':
+        return { style: 'form', explode: true };
+      case 'ssv':
+        if (location !== 'query') this.warn(pointer, `collectionFormat "ssv" is only supported for query parameters in OpenAPI 3`);
+        return { style: 'spaceDelimited', explode: false };
+      case 'pipes':
+        if (location !== 'query') this.warn(pointer, `collectionFormat "pipes" is only supported for query parameters in OpenAPI 3`);
+        return { style: 'pipeDelimited', explode: false };
+      case 'tsv':
+        this.warn(pointer, 'collectionFormat "tsv" has no OpenAPI 3 equivalent; approximated as comma-separated');
+        return isQueryLike ? { style: 'form', explode: false } : { style: 'simple' };
+      default:
+        this.warn(pointer, `Unknown collectionFormat "${collectionFormat}"`);
+        return {};
+    }
+  }
+
+  private convertSimpleSchema(source: any, pointer: string): any {
+    const schema: any = {};
+    SIMPLE_SCHEMA_KEYS.forEach(key => {
+      if (source[key] !== undefined) schema[key] = source[key];
+    });
+
+    if (source.type === 'file') {
+      schema.type = 'string';
+      schema.format = 'binary';
+    }
+
+    if (source.items) {
+      schema.items = this.convertSimpleSchema(source.items, `${pointer}/items`);
+      if (source.items.collectionFormat && source.items.collectionFormat !== 'csv') {
+        this.warn(`${pointer}/items`, 'Nested collectionFormat on array items cannot be expressed in OpenAPI 3');
+      }
+    }
+
+    if (source['x-nullable'] === true) schema.nullable = true;
+
+    return schema;
+  }
+
+  private convertBodyParameter(param: any, consumes: string[], pointer: string): RequestBody {
+    const schema = this.convertSchema(param.schema, `${pointer}/schema`);
+    const content: { [mediaType: string]: any } = {};
+
+    consumes.filter(mediaType => !this.isFormMediaType(mediaType)).forEach(mediaType => {
+      content[mediaType] = { schema };
+    });
+    if (Object.keys(content).length === 0) {
+      content[DEFAULT_MEDIA_TYPE] = { schema };
+    }
+
+    const requestBody: RequestBody = { content };
+    if (param.description) requestBody.description = param.description;
+    if (param.required !== undefined) requestBody.required = param.required;
+    if (param['x-examples']) {
+      Object.entries(param['x-examples']).forEach(([mediaType, example]) => {
+        if (content[mediaType]) content[mediaType].example = example;
+      });
+    }
+
+    return copyExtensions(param, requestBody, ['x-examples']);
+  }
+
+  private convertFormParameters(formParams: { param: any; pointer: string }[], consumes: string[], pointer: string): RequestBody {
+    const schema: any = { type: 'object', properties: {} };
+    const required: string[] = [];
+    const encoding: any = {};
+    const hasFile = formParams.some(({ param }) => param.type === 'file');
+
+    formParams.forEach(({ param, pointer: paramPointer }) => {
+      const property = this.convertSimpleSchema(param, paramPointer);
+      if (param.description) property.description = param.description;
+      schema.properties[param.name] = property;
+      if (param.required) required.push(param.name);
+
+      if (param.type === 'array' && param.collectionFormat && param.collectionFormat !== 'multi') {
+        const { style, explode } = this.convertCollectionFormat(param.collectionFormat, 'query', paramPointer);
+        encoding[param.name] = { style, explode };
+      }
+    });
+
+    if (required.length > 0) schema.required = required;
+
+    let mediaTypes = consumes.filter(mediaType => this.isFormMediaType(mediaType));
+    if (hasFile && !mediaTypes.includes('multipart/form-data')) {
+      if (mediaTypes.length > 0 || consumes.length > 0) {
+        this.warn(pointer, 'File upload parameters require multipart/form-data; it was used instead of the declared consumes');
+      }
+      mediaTypes = ['multipart/form-data'];
+    }
+    if (mediaTypes.length === 0) {
+      mediaTypes = ['application/x-www-form-urlencoded'];
+    }
+
+    const content: { [mediaType: string]: any } = {};
+    mediaTypes.forEach(mediaType => {
+      content[mediaType] = { schema };
+      if (Object.keys(encoding).length > 0) content[mediaType].encoding = encoding;
+    });
+
+    return {
+      content,
+      ...(required.length > 0 && { required: true })
+    };
+  }
+
+  private isFormMediaType(mediaType: string): boolean {
+    return mediaType === 'application/x-www-form-urlencoded' || mediaType === 'multipart/form-data';
+  }
+
+  private convertResponse(response: any, produces: string[], pointer: string): any {
+    if (isReference(response)) {
+      return { $ref: response.$ref.replace('#/responses/', '#/components/responses/') };
+    }
+
+    const converted: Response = {
+      description: response.description || 'Response'
+    };
+
+    if (response.schema) {
+      const schema = this.convertSchema(response.schema, `${pointer}/schema`);
+      converted.content = {};
+      produces.forEach(mediaType => {
+        converted.content![mediaType] = { schema };
+      });
+    }
+
+    if (response.examples) {
+      converted.content = converted.content || {};
+      Object.entries(response.examples).forEach(([mediaType, example]) => {
+        if (!converted.content![mediaType]) {
+          if (!response.schema) {
+            converted.content![mediaType] = {};
+          } else {
+            this.warn(`${pointer}/examples`, `Example for "${mediaType}" is not listed in produces; added as its own media type`);
+            converted.content![mediaType] = { schema: converted.content![produces[0]]?.schema };
+          }
+        }
+        converted.content![mediaType].example = example;
+      });
+    }
+
+    if (response.headers) {
+      converted.headers = {};
+      Object.entries(response.headers).forEach(([name, header]: [string, any]) => {
+        converted.headers![name] = this.convertHeader(header, `${pointer}/headers/${escapePointerSegment(name)}`);
+      });
+    }
+
+    return copyExtensions(response, converted);
+  }
+
+  private convertHeader(header: any, pointer: string): Header {
+    const converted: Header = {
+      schema: this.convertSimpleSchema(header, pointer)
+    };
+    if (header.description) converted.description = header.description;
+    if (header.type === 'array' && header.collectionFormat && header.collectionFormat !== 'csv') {
+      this.warn(pointer, `Header collectionFormat "${header.collectionFormat}" cannot be expressed in OpenAPI 3; simple style is used`);
+    }
+    return copyExtensions(header, converted, ['x-nullable']);
+  }
+
+  private convertSecurityScheme(definition: any, pointer: string): SecurityScheme {
+    return copyExtensions(definition, this.convertSecuritySchemeType(definition, pointer));
+  }
+
+  private convertSecuritySchemeType(definition: any, pointer: string): SecurityScheme {
+    switch (definition.type) {
+      case 'basic':
+        return { type: 'http', scheme: 'basic', description: definition.description };
+      case 'apiKey':
+        return { type: 'apiKey', name: definition.name, in: definition.in, description: definition.description };
+      case 'oauth2': {
+        const scopes = definition.scopes || {};
+        const flows: any = {};
+        switch (definition.flow) {
+          case 'implicit':
+            flows.implicit = { authorizationUrl: definition.authorizationUrl, scopes };
+            break;
+          case 'password':
+            flows.password = { tokenUrl: definition.tokenUrl, scopes };
+            break;
+          case 'application':
+            flows.clientCredentials = { tokenUrl: definition.tokenUrl, scopes };
+            break;
+          case 'accessCode':
+            flows.authorizationCode = { authorizationUrl: definition.authorizationUrl, tokenUrl: definition.tokenUrl, scopes };
+            break;
+          default:
+            this.warn(pointer, `Unknown OAuth2 flow "${definition.flow}"`);
+        }
+        return { type: 'oauth2', flows, description: definition.description };
+      }
+      default:
+        this.warn(pointer, `Unknown security scheme type "${definition.type}" copied as-is`);
+        return { ...definition };
+    }
+  }
+
+  private convertSchema(schema: any, pointer: string): any {
+    if (!schema || typeof schema !== 'object') return {};
+
+    if (schema.$ref) {
+      // Convert reference
+      const refName = schema.$ref.replace('#/definitions/', '');
+      return { $ref: `#/components/schemas/${refName}` };
+    }
+
+    const converted: any = {};
+    SCHEMA_PASSTHROUGH_KEYS.forEach(key => {
+      if (schema[key] !== undefined) converted[key] = schema[key];
+    });
+
+    if (schema.type === 'file') {
+      converted.type = 'string';
+      converted.format = 'binary';
+    }
+
+    if (schema['x-nullable'] === true) {
+      converted.nullable = true;
+    }
+
+    if (typeof schema.discriminator === 'string') {
+      converted.discriminator = { propertyName: schema.discriminator };
+    }
+
+    if (schema.items) {
+      converted.items = Array.isArray(schema.items)
+        ? this.convertTupleItems(schema.items, pointer)
+        : this.convertSchema(schema.items, `${pointer}/items`);
+    }
+
+    if (schema.properties) {
+      converted.properties = {};
+      Object.entries(schema.properties).forEach(([key, prop]) => {
+        converted.properties[key] = this.convertSchema(prop, `${pointer}/properties/${escapePointerSegment(key)}`);
+      });
+    }
+
+    if (schema.additionalProperties !== undefined) {
+      converted.additionalProperties = typeof schema.additionalProperties === 'object'
+        ? this.convertSchema(schema.additionalProperties, `${pointer}/additionalProperties`)
+        : schema.additionalProperties;
+    }
+
+    if (schema.allOf) {
+      converted.allOf = schema.allOf.map((s: any, index: number) => this.convertSchema(s, `${pointer}/allOf/${index}`));
+    }
+
+    return copyExtensions(schema, converted, ['x-nullable']);
+  }
+
+  private convertTupleItems(items: any[], pointer: string): any {
+    this.warn(`${pointer}/items`, 'Tuple-style items arrays are not supported in OpenAPI 3.0; converted to oneOf');
+    return { oneOf: items.map((item, index) => this.convertSchema(item, `${pointer}/items/${index}`)) };
+  }
+}
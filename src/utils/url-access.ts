@@ -0,0 +1,259 @@
+import { LookupAddress, lookup } from 'node:dns';
+import { BlockList, LookupFunction, isIP } from 'node:net';
+import { Agent, Response, fetch } from 'undici';
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+// Per-load settings for fetching specs. Credential headers are not among
+// them: they are configured per host by the server (see hostHeaders), so a
+// tool call can't choose which secret is sent or where.
+export interface UrlFetchOptions {
+  // Seconds allowed for the whole request, including reading the body
+  timeout?: number;
+  // Largest response body accepted, in bytes
+  maxSize?: number;
+  maxRedirects?: number;
+}
+
+export interface FetchedUrl {
+  // Where the content was finally read from, after redirects
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  content: string;
+}
+
+interface FetchLimits {
+  timeout: number;
+  maxSize: number;
+  maxRedirects: number;
+}
+
+// Loopback, private, link-local and other addresses that are not the public
+// internet. Hosts resolving to them are refused unless explicitly allowed.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+].forEach(([address, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+function readList(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// `example.com` matches that host only, `*.example.com` any of its subdomains
+function matchesHost(host: string, patterns: string[]): boolean {
+  return patterns.some(pattern =>
+    pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern
+  );
+}
+
+function isPublicAddress(address: string): boolean {
+  return !NON_PUBLIC_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+function nonPublicError(host: string): Error {
+  return new Error(`Access denied: ${host} resolves to a private or loopback address. Add it to OPENAPI_SPEC_ALLOWED_HOSTS to allow it.`);
+}
+
+// Errors raised while connecting that fetch would otherwise report as a bare "fetch failed"
+const connectErrors = new WeakSet<Error>();
+
+// Resolves hosts for the fetch connections and refuses non-public addresses
+// there, so the address checked is the one connected to: a host can't pass a
+// separate check and then resolve to 127.0.0.1 for the request itself.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    const host = hostname.toLowerCase();
+    let failure: Error | undefined;
+    if (error || addresses.length === 0) {
+      failure = new Error(`Could not resolve host: ${host}`);
+    } else if (!matchesHost(host, readList('OPENAPI_SPEC_ALLOWED_HOSTS')) && addresses.some(entry => !isPublicAddress(entry.address))) {
+      failure = nonPublicError(host);
+    }
+    if (failure) {
+      connectErrors.add(failure);
+      return callback(failure, '', 0);
+    }
+    if (options.all) return (callback as any)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const dispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+// OPENAPI_SPEC_DENIED_HOSTS always wins. When OPENAPI_SPEC_ALLOWED_HOSTS is
+// set only those hosts may be fetched; listing a host there is also the only
+// way to reach one on a loopback or private address. Host names are checked
+// against their addresses when fetchUrl connects.
+export function assertUrlAllowed(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Access denied: ${url} does not use http or https`);
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const allowed = readList('OPENAPI_SPEC_ALLOWED_HOSTS');
+
+  if (matchesHost(host, readList('OPENAPI_SPEC_DENIED_HOSTS'))) {
+    throw new Error(`Access denied: ${host} is listed in OPENAPI_SPEC_DENIED_HOSTS`);
+  }
+  if (matchesHost(host, allowed)) return;
+  if (allowed.length > 0) {
+    throw new Error(`Access denied: ${host} is not listed in OPENAPI_SPEC_ALLOWED_HOSTS`);
+  }
+
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw nonPublicError(host);
+  }
+}
+
+// Server limits come from the environment; a load can only tighten them
+function resolveLimits(options: UrlFetchOptions): FetchLimits {
+  const limits: FetchLimits = {
+    timeout: readNumber('OPENAPI_SPEC_FETCH_TIMEOUT', DEFAULT_TIMEOUT_SECONDS),
+    maxSize: readNumber('OPENAPI_SPEC_MAX_SIZE', DEFAULT_MAX_SIZE),
+    maxRedirects: readNumber('OPENAPI_SPEC_MAX_REDIRECTS', DEFAULT_MAX_REDIRECTS),
+  };
+
+  (Object.keys(limits) as (keyof FetchLimits)[]).forEach(key => {
+    const requested = options[key];
+    if (requested === undefined) return;
+    if (typeof requested !== 'number' || !Number.isFinite(requested) || requested < 0) {
+      throw new Error(`${key} must be a non-negative number`);
+    }
+    limits[key] = Math.min(requested, limits[key]);
+  });
+  return limits;
+}
+
+// Headers for a host come from OPENAPI_SPEC_HEADERS_<HOST>, a JSON object of
+// header values, with the host upper-cased and anything other than letters and
+// digits replaced by _, e.g. OPENAPI_SPEC_HEADERS_REGISTRY_EXAMPLE_COM for
+// registry.example.com. They are only used for hosts in OPENAPI_SPEC_ALLOWED_HOSTS.
+export function hostHeaders(host: string): { [name: string]: string } {
+  const variable = `OPENAPI_SPEC_HEADERS_${host.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  const configured = process.env[variable];
+  if (configured === undefined) return {};
+
+  if (!matchesHost(host.toLowerCase(), readList('OPENAPI_SPEC_ALLOWED_HOSTS'))) {
+    throw new Error(`${variable} is set but ${host} is not listed in OPENAPI_SPEC_ALLOWED_HOSTS`);
+  }
+
+  let headers: any;
+  try {
+    headers = JSON.parse(configured);
+  } catch {
+    headers = undefined;
+  }
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers) || Object.values(headers).some(value => typeof value !== 'string')) {
+    throw new Error(`${variable} must be a JSON object of header names to values`);
+  }
+  return headers;
+}
+
+async function readBody(response: Response, url: string, maxSize: number): Promise<string> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxSize) {
+    await response.body?.cancel();
+    throw new Error(`Response from ${url} is ${declared} bytes, more than the ${maxSize} byte limit`);
+  }
+  if (!response.body) return '';
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of response.body) {
+    size += chunk.byteLength;
+    if (size > maxSize) {
+      await response.body.cancel().catch(() => {});
+      throw new Error(`Response from ${url} exceeds the ${maxSize} byte limit`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Fetches a URL with the host policy checked before every request, including
+// each redirect hop. A host's configured headers are only sent to
+// `credentialsOrigin`, so a redirect or $ref to another server never receives them.
+export async function fetchUrl(
+  url: string,
+  options: UrlFetchOptions = {},
+  headers: { [name: string]: string } = {},
+  credentialsOrigin?: string
+): Promise<FetchedUrl> {
+  const limits = resolveLimits(options);
+  const signal = AbortSignal.timeout(limits.timeout * 1000);
+  let current = url;
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      assertUrlAllowed(current);
+
+      const target = new URL(current);
+      const sendCredentials = credentialsOrigin !== undefined && target.origin === credentialsOrigin;
+      const response = await fetch(current, {
+        headers: { ...headers, ...(sendCredentials ? hostHeaders(target.hostname.replace(/^\[|\]$/g, '')) : {}) },
+        redirect: 'manual',
+        signal,
+        dispatcher,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && response.status !== 304 && location) {
+        await response.body?.cancel();
+        if (redirects >= limits.maxRedirects) {
+          throw new Error(`Too many redirects fetching ${url} (limit ${limits.maxRedirects})`);
+        }
+        current = new URL(location, current).toString();
+        continue;
+      }
+
+      return {
+        url: current,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        content: await readBody(response, current, limits.maxSize),
+      };
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      throw new Error(`Timed out after ${limits.timeout} seconds fetching ${url}`);
+    }
+    const cause = (error as any)?.cause;
+    throw cause instanceof Error && connectErrors.has(cause) ? cause : error;
+  }
+}
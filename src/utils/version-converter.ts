@@ -0,0 +1,789 @@
+import { ConversionWarning } from '../types/openapi.js';
+import { copyExtensions } from './extensions.js';
+import { RefResolver, escapePointerSegment, isReference, joinPointer } from './ref-resolver.js';
+import { isOpenAPI31 } from './schema-utils.js';
+import { convertSwagger2ToOpenAPI3 } from './swagger2-converter.js';
+
+export type SpecVersion = '2.0' | '3.0' | '3.1';
+
+export interface VersionConversionResult {
+  document: any;
+  // Everything that could not be carried over exactly
+  warnings: ConversionWarning[];
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+// Keywords holding a single subschema, a list of them, or a map of them
+const SUBSCHEMA_KEYS = [
+  'items', 'additionalProperties', 'not', 'if', 'then', 'else', 'contains', 'propertyNames',
+  'unevaluatedProperties', 'unevaluatedItems',
+];
+const SUBSCHEMA_LIST_KEYS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+const SUBSCHEMA_MAP_KEYS = ['properties', 'patternProperties', '$defs', 'dependentSchemas'];
+
+// JSON Schema 2020-12 keywords that OpenAPI 3.0 schemas don't have
+const UNSUPPORTED_IN_30 = [
+  '$id', '$schema', '$anchor', '$comment', '$defs', '$dynamicRef', '$dynamicAnchor', 'if', 'then', 'else',
+  'contains', 'minContains', 'maxContains', 'dependentSchemas', 'dependentRequired', 'patternProperties',
+  'propertyNames', 'unevaluatedProperties', 'unevaluatedItems',
+];
+
+// Keywords a Swagger 2.0 non-body parameter, header or items object can carry
+const SIMPLE_SCHEMA_KEYS = [
+  'type', 'format', 'default', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+  'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems', 'enum', 'multipleOf',
+];
+
+const FORM_MEDIA_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data'];
+
+const OAUTH2_FLOWS: [string, string][] = [
+  ['implicit', 'implicit'],
+  ['password', 'password'],
+  ['clientCredentials', 'application'],
+  ['authorizationCode', 'accessCode'],
+];
+
+type SchemaConverter = (schema: any, pointer: string) => any;
+
+export function getSpecVersion(document: any): SpecVersion {
+  if (document?.swagger !== undefined) return '2.0';
+  return isOpenAPI31(document?.openapi) ? '3.1' : '3.0';
+}
+
+// Converts step by step through the versions in between, e.g. 3.1 → 3.0 → 2.0
+export function convertSpecVersion(document: any, target: SpecVersion): VersionConversionResult {
+  const warnings: ConversionWarning[] = [];
+  let version = getSpecVersion(document);
+
+  const step = (result: { document?: any; spec?: any; warnings: ConversionWarning[] }, next: SpecVersion) => {
+    document = result.document ?? result.spec;
+    warnings.push(...result.warnings);
+    version = next;
+  };
+
+  if (version === '2.0' && target !== '2.0') step(convertSwagger2ToOpenAPI3(document), '3.0');
+  if (version === '3.0' && target === '3.1') step(upgradeTo31(document), '3.1');
+  if (version === '3.1' && target !== '3.1') step(new OpenAPI31Downgrader().convert(document), '3.0');
+  if (version === '3.0' && target === '2.0') step(new Swagger2Downgrader(document).convert(), '2.0');
+
+  return { document, warnings };
+}
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// A shallow copy of a schema with `convert` applied to each direct subschema
+function mapSubschemas(schema: any, pointer: string, convert: SchemaConverter): any {
+  const result = { ...schema };
+
+  SUBSCHEMA_KEYS.forEach(key => {
+    const value = schema[key];
+    if (Array.isArray(value)) {
+      result[key] = value.map((item, index) => convert(item, joinPointer(pointer, key, index)));
+    } else if (value && typeof value === 'object') {
+      result[key] = convert(value, joinPointer(pointer, key));
+    }
+  });
+  SUBSCHEMA_LIST_KEYS.forEach(key => {
+    if (Array.isArray(schema[key])) {
+      result[key] = schema[key].map((item: any, index: number) => convert(item, joinPointer(pointer, key, index)));
+    }
+  });
+  SUBSCHEMA_MAP_KEYS.forEach(key => {
+    if (isObject(schema[key])) {
+      result[key] = {};
+      Object.entries(schema[key]).forEach(([name, value]) => {
+        result[key][name] = convert(value, joinPointer(pointer, key, name));
+      });
+    }
+  });
+
+  return result;
+}
+
+// Applies `convert` to every schema in an OpenAPI 3 document: component
+// schemas and the `schema` of parameters, headers and media types. Example
+// values and extensions are copied untouched.
+function mapDocumentSchemas(node: any, pointer: string, convert: SchemaConverter): any {
+  if (Array.isArray(node)) {
+    return node.map((item, index) => mapDocumentSchemas(item, joinPointer(pointer, index), convert));
+  }
+  if (!isObject(node)) return node;
+
+  const result: any = {};
+  Object.entries(node).forEach(([key, value]) => {
+    const childPointer = joinPointer(pointer, key);
+    if (pointer === '#/components/schemas' || (key === 'schema' && value && typeof value === 'object')) {
+      result[key] = convert(value, childPointer);
+    } else if (key === 'example' || key === 'examples' || key.startsWith('x-')) {
+      result[key] = value;
+    } else {
+      result[key] = mapDocumentSchemas(value, childPointer, convert);
+    }
+  });
+  return result;
+}
+
+// 3.0 → 3.1: nullable becomes a type array, boolean exclusive bounds become
+// numbers and a schema's single example becomes an examples array
+function upgradeTo31(spec: any): VersionConversionResult {
+  const warnings: ConversionWarning[] = [];
+
+  const upgradeSchema = (schema: any, pointer: string): any => {
+    if (!isObject(schema)) return schema;
+
+    if (isReference(schema)) {
+      // 3.0 ignores keywords next to a $ref, but 3.1 applies them
+      const ignored = Object.keys(schema).filter(key => key !== '$ref' && !key.startsWith('x-'));
+      if (ignored.length > 0) {
+        warnings.push({ pointer, message: `Keywords next to $ref (${ignored.join(', ')}) are ignored in 3.0 and would apply in 3.1; they were removed` });
+      }
+      return { $ref: schema.$ref };
+    }
+
+    const result = mapSubschemas(schema, pointer, upgradeSchema);
+
+    if ('nullable' in result) {
+      const nullable = result.nullable === true;
+      delete result.nullable;
+      if (nullable) {
+        if (Array.isArray(result.enum) && !result.enum.includes(null)) {
+          result.enum = [...result.enum, null];
+        }
+        if (typeof result.type === 'string') {
+          result.type = [result.type, 'null'];
+        } else if (result.type === undefined && !Array.isArray(result.enum)) {
+          return { anyOf: [result, { type: 'null' }] };
+        }
+      }
+    }
+
+    (['minimum', 'maximum'] as const).forEach(bound => {
+      const exclusive = bound === 'minimum' ? 'exclusiveMinimum' : 'exclusiveMaximum';
+      if (typeof result[exclusive] !== 'boolean') return;
+      if (result[exclusive] && typeof result[bound] === 'number') {
+        result[exclusive] = result[bound];
+        delete result[bound];
+      } else {
+        delete result[exclusive];
+      }
+    });
+
+    if ('example' in result) {
+      if (result.examples === undefined) result.examples = [result.example];
+      delete result.example;
+    }
+
+    return result;
+  };
+
+  const document = mapDocumentSchemas(spec, '#', upgradeSchema);
+  document.openapi = '3.1.0';
+  return { document, warnings };
+}
+
+// 3.1 → 3.0: type arrays become nullable/anyOf, const an enum, numeric
+// exclusive bounds booleans. Webhooks and 2020-12-only keywords are dropped.
+class OpenAPI31Downgrader {
+  private warnings: ConversionWarning[] = [];
+
+  convert(spec: any): VersionConversionResult {
+    const document = mapDocumentSchemas(spec, '#', (schema, pointer) => this.convertSchema(schema, pointer));
+    document.openapi = '3.0.3';
+
+    if (document.info?.summary !== undefined) {
+      this.warn('#/info/summary', 'info.summary is not supported in 3.0 and was removed');
+      document.info = { ...document.info };
+      delete document.info.summary;
+    }
+    if (document.info?.license?.identifier !== undefined) {
+      this.warn('#/info/license/identifier', `License identifier "${document.info.license.identifier}" is not supported in 3.0 and was removed`);
+      const { identifier, ...license } = document.info.license;
+      document.info = { ...document.info, license };
+    }
+    if (document.webhooks) {
+      this.warn('#/webhooks', `${Object.keys(document.webhooks).length} webhook(s) cannot be described in 3.0 and were removed`);
+      delete document.webhooks;
+    }
+    if (document.components?.pathItems) {
+      this.warn('#/components/pathItems', 'Reusable path items are not supported in 3.0 and were removed');
+      delete document.components.pathItems;
+    }
+    Object.entries(document.components?.securitySchemes || {}).forEach(([name, scheme]: [string, any]) => {
+      if (scheme?.type === 'mutualTLS') {
+        this.warn(joinPointer('#/components/securitySchemes', name), 'mutualTLS security schemes are not supported in 3.0 and were removed');
+        delete document.components.securitySchemes[name];
+      }
+    });
+    delete document.jsonSchemaDialect;
+    if (!document.paths) document.paths = {};
+
+    return { document, warnings: this.warnings };
+  }
+
+  private warn(pointer: string, message: string) {
+    this.warnings.push({ pointer, message });
+  }
+
+  private convertSchema(schema: any, pointer: string): any {
+    if (schema === true) return {};
+    if (schema === false) return { not: {} };
+    if (!isObject(schema)) return schema;
+
+    // 3.0 ignores keywords next to a $ref, so keep them by moving the ref into allOf
+    if (isReference(schema)) {
+      const { $ref, ...siblings } = schema;
+      if (Object.keys(siblings).length === 0) return { $ref };
+      return this.convertSchema({ ...siblings, allOf: [{ $ref }] }, pointer);
+    }
+
+    const result = mapSubschemas(schema, pointer, (subschema, subpointer) => this.convertSchema(subschema, subpointer));
+
+    if (Array.isArray(result.type) || result.type === 'null') {
+      const declared: string[] = Array.isArray(result.type) ? result.type : [result.type];
+      const types = declared.filter(type => type !== 'null');
+      delete result.type;
+
+      if (types.length === 1) {
+        result.type = types[0];
+      } else if (types.length > 1) {
+        result.allOf = [...(result.allOf || []), { anyOf: types.map(type => ({ type })) }];
+      } else {
+        this.warn(pointer, 'A schema that only allows null has no 3.0 type; it is described as nullable with enum [null]');
+        result.enum = [null];
+      }
+      if (types.length < declared.length) result.nullable = true;
+    }
+
+    if ('const' in result) {
+      result.enum = [result.const];
+      delete result.const;
+    }
+
+    if (Array.isArray(result.examples)) {
+      if (result.example === undefined && result.examples.length > 0) result.example = result.examples[0];
+      if (result.examples.length > 1) {
+        this.warn(pointer, `Only the first of ${result.examples.length} schema examples was kept`);
+      }
+      delete result.examples;
+    }
+
+    (['minimum', 'maximum'] as const).forEach(bound => {
+      const exclusive = bound === 'minimum' ? 'exclusiveMinimum' : 'exclusiveMaximum';
+      if (typeof result[exclusive] !== 'number') return;
+      // When both are set the tighter bound wins
+      const inclusiveIsTighter = typeof result[bound] === 'number'
+        && (bound === 'minimum' ? result[bound] > result[exclusive] : result[bound] < result[exclusive]);
+      if (inclusiveIsTighter) {
+        delete result[exclusive];
+      } else {
+        result[bound] = result[exclusive];
+        result[exclusive] = true;
+      }
+    });
+
+    if (result.contentEncoding !== undefined || result.contentMediaType !== undefined) {
+      if (result.format === undefined) {
+        result.format = result.contentEncoding === 'base64' ? 'byte' : 'binary';
+      }
+      delete result.contentEncoding;
+      delete result.contentMediaType;
+    }
+
+    if (Array.isArray(result.prefixItems)) {
+      this.warn(pointer, 'Tuple-style prefixItems are not supported in OpenAPI 3.0; converted to items with oneOf');
+      result.items = { oneOf: [...result.prefixItems, ...(isObject(result.items) ? [result.items] : [])] };
+      delete result.prefixItems;
+    }
+
+    const unsupported = UNSUPPORTED_IN_30.filter(key => key in result);
+    if (unsupported.length > 0) {
+      this.warn(pointer, `Keywords not supported in OpenAPI 3.0 were removed: ${unsupported.join(', ')}`);
+      unsupported.forEach(key => delete result[key]);
+    }
+
+    return result;
+  }
+}
+
+// 3.0 → 2.0: servers become host/basePath/schemes, request bodies become body
+// or formData parameters, content maps become consumes/produces and
+// components move to definitions, parameters, responses and securityDefinitions
+class Swagger2Downgrader {
+  private warnings: ConversionWarning[] = [];
+  private resolver: RefResolver;
+  // components.requestBodies entries that became shared body parameters
+  private requestBodyRefs = new Map<string, string>();
+
+  constructor(private spec: any) {
+    this.resolver = new RefResolver(spec);
+  }
+
+  convert(): VersionConversionResult {
+    const spec = this.spec;
+    const components = spec.components || {};
+    const swagger: any = { swagger: '2.0', info: spec.info };
+
+    Object.assign(swagger, this.convertServers(spec.servers || [], '#/servers'));
+
+    if (spec.tags) swagger.tags = spec.tags;
+    if (spec.externalDocs) swagger.externalDocs = spec.externalDocs;
+    if (spec.security) swagger.security = spec.security;
+
+    if (components.schemas) {
+      swagger.definitions = {};
+      Object.entries(components.schemas).forEach(([name, schema]) => {
+        swagger.definitions[name] = this.convertSchema(schema, joinPointer('#/components/schemas', name));
+      });
+    }
+
+    const parameters: any = {};
+    // Swagger 2.0 definitions can't be references themselves, so aliases are inlined
+    Object.entries(components.parameters || {}).forEach(([name, param]) => {
+      const resolved = this.resolve(param);
+      const converted = resolved && this.convertParameter(resolved, joinPointer('#/components/parameters', name));
+      if (converted) parameters[name] = converted;
+    });
+
+    // Shared request bodies become shared body parameters; form bodies expand
+    // into several formData parameters, so those are inlined where used instead
+    Object.entries(components.requestBodies || {}).forEach(([name, body]: [string, any]) => {
+      const pointer = joinPointer('#/components/requestBodies', name);
+      const { params } = this.convertRequestBody(this.resolve(body), pointer);
+      if (params.length !== 1 || params[0].in !== 'body') return;
+
+      const parameterName = name in parameters ? `${name}Body` : name;
+      parameters[parameterName] = params[0];
+      this.requestBodyRefs.set(pointer, `#/parameters/${escapePointerSegment(parameterName)}`);
+    });
+    if (Object.keys(parameters).length > 0) swagger.parameters = parameters;
+
+    if (components.responses) {
+      swagger.responses = {};
+      Object.entries(components.responses).forEach(([name, response]) => {
+        const resolved = this.resolve(response);
+        if (resolved) swagger.responses[name] = this.convertResponse(resolved, joinPointer('#/components/responses', name)).response;
+      });
+    }
+
+    if (components.securitySchemes) {
+      const definitions: any = {};
+      Object.entries(components.securitySchemes).forEach(([name, scheme]) => {
+        const resolved = this.resolve(scheme);
+        const converted = resolved && this.convertSecurityScheme(resolved, joinPointer('#/components/securitySchemes', name));
+        if (converted) definitions[name] = converted;
+      });
+      swagger.securityDefinitions = definitions;
+    }
+
+    (['examples', 'links', 'callbacks'] as const).forEach(section => {
+      if (components[section] && Object.keys(components[section]).length > 0) {
+        this.warn(`#/components/${section}`, `Reusable ${section} are not supported in Swagger 2.0 and were removed`);
+      }
+    });
+
+    swagger.paths = {};
+    Object.entries(spec.paths || {}).forEach(([path, pathItem]) => {
+      swagger.paths[path] = this.convertPathItem(pathItem, joinPointer('#/paths', path));
+    });
+
+    copyExtensions(spec, swagger);
+    return { document: swagger, warnings: this.warnings };
+  }
+
+  private warn(pointer: string, message: string) {
+    this.warnings.push({ pointer, message });
+  }
+
+  // Circular or dangling references resolve to nothing rather than failing the export
+  private resolve(value: any): any {
+    try {
+      return this.resolver.resolve<any>(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Swagger 2.0 has one host and base path; server variables take their defaults
+  private convertServers(servers: any[], pointer: string): any {
+    if (servers.length === 0) return {};
+
+    const parse = (server: any) => {
+      const url = String(server.url || '/').replace(/\{([^}]+)\}/g, (_, name) => String(server.variables?.[name]?.default ?? name));
+      const parsed = new URL(url, 'relative://relative');
+      return {
+        scheme: parsed.protocol === 'relative:' ? undefined : parsed.protocol.slice(0, -1),
+        host: parsed.protocol === 'relative:' ? undefined : parsed.host,
+        basePath: parsed.pathname.replace(/\/$/, ''),
+      };
+    };
+
+    if (servers.some(server => server.variables && Object.keys(server.variables).length > 0)) {
+      this.warn(pointer, 'Server variables are not supported in Swagger 2.0; their default values were used');
+    }
+
+    const first = parse(servers[0]);
+    const schemes = new Set<string>();
+    servers.forEach((server, index) => {
+      const parsed = parse(server);
+      if (parsed.host !== first.host || parsed.basePath !== first.basePath) {
+        this.warn(joinPointer(pointer, index), `Swagger 2.0 allows a single host and base path; server ${server.url} was dropped`);
+      } else if (parsed.scheme) {
+        schemes.add(parsed.scheme);
+      }
+    });
+
+    const result: any = {};
+    if (first.host) result.host = first.host;
+    if (first.basePath) result.basePath = first.basePath;
+    if (schemes.size > 0) result.schemes = Array.from(schemes);
+    return result;
+  }
+
+  private convertPathItem(pathItem: any, pointer: string): any {
+    if (isReference(pathItem)) return { $ref: pathItem.$ref };
+
+    const converted: any = {};
+    if (pathItem.servers) this.warn(joinPointer(pointer, 'servers'), 'Path-level servers are not supported in Swagger 2.0 and were removed');
+    if (pathItem.trace) this.warn(joinPointer(pointer, 'trace'), 'TRACE operations are not supported in Swagger 2.0 and were removed');
+
+    const parameters = this.convertParameters(pathItem.parameters || [], joinPointer(pointer, 'parameters'));
+    if (parameters.length > 0) converted.parameters = parameters;
+
+    HTTP_METHODS.forEach(method => {
+      if (pathItem[method]) {
+        converted[method] = this.convertOperation(pathItem[method], joinPointer(pointer, method));
+      }
+    });
+
+    copyExtensions(pathItem, converted);
+    return converted;
+  }
+
+  private convertOperation(operation: any, pointer: string): any {
+    const converted: any = {};
+    (['tags', 'summary', 'description', 'externalDocs', 'operationId'] as const).forEach(key => {
+      if (operation[key] !== undefined) converted[key] = operation[key];
+    });
+
+    const parameters = this.convertParameters(operation.parameters || [], joinPointer(pointer, 'parameters'));
+    if (operation.requestBody) {
+      const { params, consumes } = this.convertRequestBody(operation.requestBody, joinPointer(pointer, 'requestBody'));
+      parameters.push(...params);
+      if (consumes.length > 0) converted.consumes = consumes;
+    }
+
+    const produces = new Set<string>();
+    const responses: any = {};
+    Object.entries(operation.responses || {}).forEach(([code, response]) => {
+      const result = this.convertResponse(response, joinPointer(pointer, 'responses', code));
+      responses[code] = result.response;
+      result.produces.forEach(mediaType => produces.add(mediaType));
+    });
+
+    if (produces.size > 0) converted.produces = Array.from(produces);
+    if (parameters.length > 0) converted.parameters = parameters;
+    converted.responses = responses;
+    if (operation.deprecated !== undefined) converted.deprecated = operation.deprecated;
+    if (operation.security) converted.security = operation.security;
+
+    if (operation.callbacks) this.warn(joinPointer(pointer, 'callbacks'), 'Callbacks are not supported in Swagger 2.0 and were removed');
+    if (operation.servers) this.warn(joinPointer(pointer, 'servers'), 'Operation-level servers are not supported in Swagger 2.0 and were removed');
+
+    copyExtensions(operation, converted);
+    return converted;
+  }
+
+  private convertParameters(parameters: any[], pointer: string): any[] {
+    return parameters
+      .map((param, index) => this.convertParameter(param, joinPointer(pointer, index)))
+      .filter(param => param !== undefined);
+  }
+
+  private convertParameter(param: any, pointer: string): any {
+    if (isReference(param)) {
+      const resolved = this.resolve(param);
+      if (resolved?.in === 'cookie') return this.convertParameter(resolved, pointer);
+      return { $ref: param.$ref.replace('#/components/parameters/', '#/parameters/') };
+    }
+
+    if (param.in === 'cookie') {
+      this.warn(pointer, `Cookie parameter "${param.name}" is not supported in Swagger 2.0 and was removed`);
+      return undefined;
+    }
+
+    const converted: any = { name: param.name, in: param.in };
+    if (param.description !== undefined) converted.description = param.description;
+    if (param.required !== undefined) converted.required = param.required;
+    if (param.allowEmptyValue !== undefined) converted.allowEmptyValue = param.allowEmptyValue;
+
+    let schema = param.schema;
+    if (!schema && isObject(param.content)) {
+      const [mediaType] = Object.keys(param.content);
+      this.warn(pointer, `Parameter "${param.name}" is serialized as ${mediaType}, which Swagger 2.0 can't describe; its schema was used as a plain value`);
+      schema = param.content[mediaType]?.schema;
+    }
+    Object.assign(converted, this.convertSimpleSchema(schema || { type: 'string' }, joinPointer(pointer, 'schema')));
+
+    if (converted.type === 'array') {
+      const collectionFormat = this.convertStyle(param, pointer);
+      if (collectionFormat) converted.collectionFormat = collectionFormat;
+    }
+
+    if (param.example !== undefined) converted['x-example'] = param.example;
+    if (param.deprecated !== undefined) converted['x-deprecated'] = param.deprecated;
+    copyExtensions(param, converted);
+    return converted;
+  }
+
+  // The 3.0 style/explode pair as a Swagger 2.0 collectionFormat
+  private convertStyle(param: any, pointer: string): string | undefined {
+    const queryLike = param.in === 'query';
+    const style = param.style || (queryLike ? 'form' : 'simple');
+    const explode = param.explode ?? style === 'form';
+
+    switch (style) {
+      case 'form':
+        return explode ? 'multi' : 'csv';
+      case 'simple':
+        return 'csv';
+      case 'spaceDelimited':
+        return 'ssv';
+      case 'pipeDelimited':
+        return 'pipes';
+      default:
+        this.warn(pointer, `Parameter style "${style}" has no Swagger 2.0 collectionFormat; comma-separated was used`);
+        return 'csv';
+    }
+  }
+
+  // Non-body parameters, headers and form fields only take primitive types
+  // (and arrays of them) described inline
+  private convertSimpleSchema(schema: any, pointer: string): any {
+    const resolved = this.resolve(schema) || {};
+    const converted: any = {};
+    SIMPLE_SCHEMA_KEYS.forEach(key => {
+      if (resolved[key] !== undefined) converted[key] = resolved[key];
+    });
+
+    if (resolved.nullable === true) converted['x-nullable'] = true;
+
+    if (converted.type === 'array' || resolved.items) {
+      converted.type = 'array';
+      converted.items = this.convertSimpleSchema(resolved.items || { type: 'string' }, joinPointer(pointer, 'items'));
+    } else if (converted.type === 'object' || converted.type === undefined) {
+      if (converted.type === 'object' || resolved.properties || resolved.allOf || resolved.oneOf || resolved.anyOf) {
+        this.warn(pointer, 'Swagger 2.0 only allows primitive types and arrays outside request bodies; this value is described as a string');
+      }
+      converted.type = 'string';
+    }
+
+    return converted;
+  }
+
+  private convertRequestBody(requestBody: any, pointer: string): { params: any[]; consumes: string[] } {
+    if (isReference(requestBody)) {
+      const resolved = this.resolve(requestBody);
+      const shared = this.requestBodyRefs.get(requestBody.$ref);
+      if (shared) {
+        return { params: [{ $ref: shared }], consumes: Object.keys(resolved?.content || {}) };
+      }
+      return this.convertRequestBody(resolved, pointer);
+    }
+
+    const content = requestBody?.content || {};
+    const mediaTypes = Object.keys(content);
+    const formTypes = mediaTypes.filter(mediaType => FORM_MEDIA_TYPES.includes(mediaType));
+    const bodyTypes = mediaTypes.filter(mediaType => !FORM_MEDIA_TYPES.includes(mediaType));
+
+    if (bodyTypes.length === 0 && formTypes.length > 0) {
+      return { params: this.convertFormBody(requestBody, content[formTypes[0]], pointer), consumes: formTypes };
+    }
+    if (bodyTypes.length === 0) return { params: [], consumes: [] };
+
+    if (formTypes.length > 0) {
+      this.warn(pointer, `Swagger 2.0 can't accept both a body and form fields; ${formTypes.join(', ')} was dropped`);
+    }
+    this.warnOnDifferentSchemas(content, bodyTypes, pointer);
+
+    const param: any = {
+      name: 'body',
+      in: 'body',
+      schema: this.convertSchema(content[bodyTypes[0]].schema || {}, joinPointer(pointer, 'content', bodyTypes[0], 'schema')),
+    };
+    if (requestBody.description !== undefined) param.description = requestBody.description;
+    if (requestBody.required !== undefined) param.required = requestBody.required;
+
+    const examples: any = {};
+    bodyTypes.forEach(mediaType => {
+      const example = this.firstExample(content[mediaType]);
+      if (example !== undefined) examples[mediaType] = example;
+    });
+    if (Object.keys(examples).length > 0) param['x-examples'] = examples;
+
+    return { params: [param], consumes: bodyTypes };
+  }
+
+  private convertFormBody(requestBody: any, mediaType: any, pointer: string): any[] {
+    const schema = this.resolve(mediaType?.schema) || {};
+    const required: string[] = schema.required || [];
+
+    if (!isObject(schema.properties)) {
+      this.warn(pointer, 'Form request body has no properties to turn into formData parameters and was removed');
+      return [];
+    }
+
+    return Object.entries(schema.properties).map(([name, property]: [string, any]) => {
+      const resolved = this.resolve(property) || {};
+      const param: any = {
+        name,
+        in: 'formData',
+        ...this.convertSimpleSchema(resolved, joinPointer(pointer, 'content', 'schema', 'properties', name)),
+      };
+      if (resolved.description !== undefined) param.description = resolved.description;
+      if (required.includes(name)) param.required = true;
+      if (resolved.format === 'binary') {
+        param.type = 'file';
+        delete param.format;
+      }
+      return param;
+    });
+  }
+
+  private convertResponse(response: any, pointer: string): { response: any; produces: string[] } {
+    if (isReference(response)) {
+      const resolved = this.resolve(response);
+      return {
+        response: { $ref: response.$ref.replace('#/components/responses/', '#/responses/') },
+        produces: Object.keys(resolved?.content || {}),
+      };
+    }
+
+    const converted: any = { description: response.description ?? '' };
+    const content = response.content || {};
+    const mediaTypes = Object.keys(content);
+    const withSchema = mediaTypes.filter(mediaType => content[mediaType]?.schema);
+
+    if (withSchema.length > 0) {
+      this.warnOnDifferentSchemas(content, withSchema, pointer);
+      const schema = this.convertSchema(content[withSchema[0]].schema, joinPointer(pointer, 'content', withSchema[0], 'schema'));
+      converted.schema = schema.type === 'string' && schema.format === 'binary' ? { type: 'file' } : schema;
+    }
+
+    const examples: any = {};
+    mediaTypes.forEach(mediaType => {
+      const example = this.firstExample(content[mediaType]);
+      if (example !== undefined) examples[mediaType] = example;
+    });
+    if (Object.keys(examples).length > 0) converted.examples = examples;
+
+    if (response.headers) {
+      converted.headers = {};
+      Object.entries(response.headers).forEach(([name, header]) => {
+        const resolved = this.resolve(header) || {};
+        const headerPointer = joinPointer(pointer, 'headers', name);
+        converted.headers[name] = this.convertSimpleSchema(resolved.schema || { type: 'string' }, joinPointer(headerPointer, 'schema'));
+        if (resolved.description !== undefined) converted.headers[name].description = resolved.description;
+      });
+    }
+
+    if (response.links) this.warn(joinPointer(pointer, 'links'), 'Response links are not supported in Swagger 2.0 and were removed');
+
+    copyExtensions(response, converted);
+    return { response: converted, produces: mediaTypes };
+  }
+
+  // Swagger 2.0 has a single schema per body or response, whatever its media type
+  private warnOnDifferentSchemas(content: any, mediaTypes: string[], pointer: string) {
+    const first = JSON.stringify(content[mediaTypes[0]]?.schema);
+    const differing = mediaTypes.filter(mediaType => JSON.stringify(content[mediaType]?.schema) !== first);
+    if (differing.length > 0) {
+      this.warn(pointer, `Swagger 2.0 allows one schema for all media types; the ${mediaTypes[0]} schema was used for ${differing.join(', ')} too`);
+    }
+  }
+
+  private firstExample(mediaType: any): any {
+    if (mediaType?.example !== undefined) return mediaType.example;
+    const [first] = Object.values(mediaType?.examples || {});
+    return first === undefined ? undefined : this.resolve(first)?.value;
+  }
+
+  private convertSecurityScheme(scheme: any, pointer: string): any {
+    const description = scheme.description !== undefined ? { description: scheme.description } : {};
+
+    switch (scheme.type) {
+      case 'http':
+        if (String(scheme.scheme).toLowerCase() === 'basic') return { type: 'basic', ...description };
+        this.warn(pointer, `HTTP ${scheme.scheme} authentication has no Swagger 2.0 equivalent; it is described as an Authorization header API key`);
+        return { type: 'apiKey', name: 'Authorization', in: 'header', ...description };
+      case 'apiKey':
+        if (scheme.in === 'cookie') {
+          this.warn(pointer, 'Cookie API keys are not supported in Swagger 2.0; the scheme was removed');
+          return undefined;
+        }
+        return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+      case 'oauth2': {
+        const flows = OAUTH2_FLOWS.filter(([flow]) => scheme.flows?.[flow]);
+        if (flows.length === 0) {
+          this.warn(pointer, 'OAuth2 scheme has no flows and was removed');
+          return undefined;
+        }
+        if (flows.length > 1) {
+          this.warn(pointer, `Swagger 2.0 allows one OAuth2 flow per scheme; only ${flows[0][0]} was kept`);
+        }
+        const [flowName, swaggerFlow] = flows[0];
+        const flow = scheme.flows[flowName];
+        const converted: any = { type: 'oauth2', flow: swaggerFlow, scopes: flow.scopes || {}, ...description };
+        if (flow.authorizationUrl) converted.authorizationUrl = flow.authorizationUrl;
+        if (flow.tokenUrl) converted.tokenUrl = flow.tokenUrl;
+        return converted;
+      }
+      default:
+        this.warn(pointer, `Security scheme type "${scheme.type}" is not supported in Swagger 2.0; the scheme was removed`);
+        return undefined;
+    }
+  }
+
+  private convertSchema(schema: any, pointer: string): any {
+    if (!isObject(schema)) return schema;
+
+    if (isReference(schema)) {
+      return { $ref: schema.$ref.replace('#/components/schemas/', '#/definitions/') };
+    }
+
+    const result = mapSubschemas(schema, pointer, (subschema, subpointer) => this.convertSchema(subschema, subpointer));
+
+    if ('nullable' in result) {
+      if (result.nullable === true) result['x-nullable'] = true;
+      delete result.nullable;
+    }
+    if ('deprecated' in result) {
+      result['x-deprecated'] = result.deprecated;
+      delete result.deprecated;
+    }
+    (['oneOf', 'anyOf'] as const).forEach(key => {
+      if (!(key in result)) return;
+      this.warn(pointer, `${key} is not supported in Swagger 2.0; it was kept as x-${key}, which tools will ignore`);
+      result[`x-${key}`] = result[key];
+      delete result[key];
+    });
+    if ('not' in result) {
+      this.warn(pointer, 'not is not supported in Swagger 2.0 and was removed');
+      delete result.not;
+    }
+    if ('writeOnly' in result) {
+      this.warn(pointer, 'writeOnly is not supported in Swagger 2.0 and was removed');
+      delete result.writeOnly;
+    }
+    if (isObject(result.discriminator)) {
+      if (result.discriminator.mapping) {
+        this.warn(joinPointer(pointer, 'discriminator'), 'Discriminator mappings are not supported in Swagger 2.0 and were removed');
+      }
+      result.discriminator = result.discriminator.propertyName;
+    }
+
+    return result;
+  }
+}